@@ -0,0 +1,261 @@
+/**
+ * Idea Tinder - Collections
+ *
+ * User-defined boards ("March newsletter", "Bun video") that group saved
+ * ideas toward a piece of content. Each item has a position, a free-form
+ * note and a status that tracks the piece's progress:
+ *
+ *   idea → drafting → published
+ *
+ * Only saved (right-swiped) ideas can be added. Tables collections and
+ * collection_items are created by server.ts; the MCP server reads
+ * collections through collectionOutline.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const COLLECTION_STATUSES = ["idea", "drafting", "published"] as const;
+export type CollectionStatus = typeof COLLECTION_STATUSES[number];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_NOTE_LENGTH = 5000;
+
+export interface Collection {
+  id: number;
+  name: string;
+  description: string | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionSummary extends Collection {
+  items: number;
+  drafting: number;
+  published: number;
+}
+
+export interface CollectionItem {
+  idea_id: number;
+  position: number;
+  note: string | null;
+  status: CollectionStatus;
+  added_at: string;
+  title: string;
+  source: string;
+  url: string | null;
+  summary: string | null;
+  feedback: string | null;
+}
+
+// status is the HTTP status the API should answer with
+export class CollectionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "CollectionError";
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function cleanName(name: unknown): string {
+  const value = typeof name === "string" ? name.trim() : "";
+  if (!value) throw new CollectionError("name is required");
+  if (value.length > MAX_NAME_LENGTH) throw new CollectionError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  return value;
+}
+
+function cleanText(text: unknown, field: string, max: number): string | null {
+  if (text === null || text === undefined) return null;
+  if (typeof text !== "string") throw new CollectionError(`${field} must be a string`);
+  if (text.length > max) throw new CollectionError(`${field} must be at most ${max} characters`);
+  return text.trim() || null;
+}
+
+function cleanStatus(status: unknown): CollectionStatus {
+  if (!COLLECTION_STATUSES.includes(status as CollectionStatus)) {
+    throw new CollectionError(`status must be one of: ${COLLECTION_STATUSES.join(", ")}`);
+  }
+  return status as CollectionStatus;
+}
+
+function requireCollection(db: Database, userId: number, collectionId: number): Collection {
+  const collection = db.query("SELECT id, name, description, position, created_at, updated_at FROM collections WHERE id = ? AND user_id = ?")
+    .get(collectionId, userId) as Collection | null;
+  if (!collection) throw new CollectionError("Collection not found", 404);
+  return collection;
+}
+
+function nameTaken(db: Database, userId: number, name: string, exceptId = 0): boolean {
+  return !!db.query("SELECT 1 FROM collections WHERE user_id = ? AND name = ? COLLATE NOCASE AND id != ?").get(userId, name, exceptId);
+}
+
+function touch(db: Database, collectionId: number) {
+  db.query("UPDATE collections SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(collectionId);
+}
+
+// =============================================================================
+// COLLECTIONS
+// =============================================================================
+
+export function listCollections(db: Database, userId: number): CollectionSummary[] {
+  return db.query(`
+    SELECT c.id, c.name, c.description, c.position, c.created_at, c.updated_at,
+           COUNT(ci.idea_id) as items,
+           COALESCE(SUM(ci.status = 'drafting'), 0) as drafting,
+           COALESCE(SUM(ci.status = 'published'), 0) as published
+    FROM collections c
+    LEFT JOIN collection_items ci ON ci.collection_id = c.id
+    WHERE c.user_id = ?
+    GROUP BY c.id
+    ORDER BY c.position, c.id
+  `).all(userId) as CollectionSummary[];
+}
+
+export function getCollection(db: Database, userId: number, collectionId: number): Collection & { items: CollectionItem[] } {
+  const collection = requireCollection(db, userId, collectionId);
+  const items = db.query(`
+    SELECT ci.idea_id, ci.position, ci.note, ci.status, ci.added_at,
+           i.title, i.source, i.url, i.summary, s.feedback
+    FROM collection_items ci
+    JOIN ideas i ON i.id = ci.idea_id
+    LEFT JOIN swipes s ON s.idea_id = ci.idea_id AND s.user_id = ?2
+    WHERE ci.collection_id = ?1
+    ORDER BY ci.position, ci.added_at
+  `).all(collectionId, userId) as CollectionItem[];
+  return { ...collection, items };
+}
+
+export function createCollection(db: Database, userId: number, input: { name?: unknown; description?: unknown }): Collection {
+  const name = cleanName(input.name);
+  const description = cleanText(input.description, "description", MAX_DESCRIPTION_LENGTH);
+  if (nameTaken(db, userId, name)) throw new CollectionError(`You already have a collection called "${name}"`, 409);
+  const { id } = db.query(`
+    INSERT INTO collections (user_id, name, description, position)
+    VALUES (?1, ?2, ?3, (SELECT COALESCE(MAX(position), -1) + 1 FROM collections WHERE user_id = ?1))
+    RETURNING id
+  `).get(userId, name, description) as { id: number };
+  return requireCollection(db, userId, id);
+}
+
+export function updateCollection(db: Database, userId: number, collectionId: number, input: { name?: unknown; description?: unknown }): Collection {
+  const collection = requireCollection(db, userId, collectionId);
+  const name = input.name === undefined ? collection.name : cleanName(input.name);
+  const description = input.description === undefined
+    ? collection.description
+    : cleanText(input.description, "description", MAX_DESCRIPTION_LENGTH);
+  if (nameTaken(db, userId, name, collectionId)) throw new CollectionError(`You already have a collection called "${name}"`, 409);
+  db.query("UPDATE collections SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+    .run(name, description, collectionId);
+  return requireCollection(db, userId, collectionId);
+}
+
+export function deleteCollection(db: Database, userId: number, collectionId: number) {
+  requireCollection(db, userId, collectionId);
+  db.transaction(() => {
+    db.query("DELETE FROM collection_items WHERE collection_id = ?").run(collectionId);
+    db.query("DELETE FROM collections WHERE id = ?").run(collectionId);
+  })();
+}
+
+// Set the order of the user's collections; ids not listed keep their place after the listed ones
+export function reorderCollections(db: Database, userId: number, ids: unknown) {
+  if (!Array.isArray(ids) || !ids.every(Number.isInteger)) throw new CollectionError("ids must be a list of collection ids");
+  const current = listCollections(db, userId).map(c => c.id);
+  const order = [...new Set((ids as number[]).filter(id => current.includes(id))), ...current.filter(id => !ids.includes(id))];
+  const update = db.query("UPDATE collections SET position = ? WHERE id = ?");
+  db.transaction(() => order.forEach((id, position) => update.run(position, id)))();
+}
+
+// =============================================================================
+// ITEMS
+// =============================================================================
+
+export function addItem(db: Database, userId: number, collectionId: number, input: { ideaId?: unknown; note?: unknown; status?: unknown }): CollectionItem {
+  requireCollection(db, userId, collectionId);
+  const ideaId = Number(input.ideaId);
+  if (!Number.isInteger(ideaId)) throw new CollectionError("ideaId is required");
+  if (!db.query("SELECT 1 FROM swipes WHERE user_id = ? AND idea_id = ? AND direction = 'right'").get(userId, ideaId)) {
+    throw new CollectionError("Only saved ideas can be added to a collection", 404);
+  }
+  if (db.query("SELECT 1 FROM collection_items WHERE collection_id = ? AND idea_id = ?").get(collectionId, ideaId)) {
+    throw new CollectionError("That idea is already in this collection", 409);
+  }
+  const note = cleanText(input.note, "note", MAX_NOTE_LENGTH);
+  const status = input.status === undefined ? "idea" : cleanStatus(input.status);
+  db.query(`
+    INSERT INTO collection_items (collection_id, idea_id, note, status, position)
+    VALUES (?1, ?2, ?3, ?4, (SELECT COALESCE(MAX(position), -1) + 1 FROM collection_items WHERE collection_id = ?1))
+  `).run(collectionId, ideaId, note, status);
+  touch(db, collectionId);
+  return getCollection(db, userId, collectionId).items.find(item => item.idea_id === ideaId)!;
+}
+
+export function updateItem(db: Database, userId: number, collectionId: number, ideaId: number, input: { note?: unknown; status?: unknown }): CollectionItem {
+  const collection = getCollection(db, userId, collectionId);
+  const item = collection.items.find(i => i.idea_id === ideaId);
+  if (!item) throw new CollectionError("That idea isn't in this collection", 404);
+  const note = input.note === undefined ? item.note : cleanText(input.note, "note", MAX_NOTE_LENGTH);
+  const status = input.status === undefined ? item.status : cleanStatus(input.status);
+  db.query("UPDATE collection_items SET note = ?, status = ?, updated_at = CURRENT_TIMESTAMP WHERE collection_id = ? AND idea_id = ?")
+    .run(note, status, collectionId, ideaId);
+  touch(db, collectionId);
+  return { ...item, note, status };
+}
+
+export function removeItem(db: Database, userId: number, collectionId: number, ideaId: number) {
+  requireCollection(db, userId, collectionId);
+  const { changes } = db.query("DELETE FROM collection_items WHERE collection_id = ? AND idea_id = ?").run(collectionId, ideaId);
+  if (changes === 0) throw new CollectionError("That idea isn't in this collection", 404);
+  touch(db, collectionId);
+}
+
+// Set the order of a collection's items; ideas not listed keep their place after the listed ones
+export function reorderItems(db: Database, userId: number, collectionId: number, ideaIds: unknown) {
+  if (!Array.isArray(ideaIds) || !ideaIds.every(Number.isInteger)) throw new CollectionError("ideaIds must be a list of idea ids");
+  const current = getCollection(db, userId, collectionId).items.map(item => item.idea_id);
+  const order = [...new Set((ideaIds as number[]).filter(id => current.includes(id))), ...current.filter(id => !ideaIds.includes(id))];
+  const update = db.query("UPDATE collection_items SET position = ? WHERE collection_id = ? AND idea_id = ?");
+  db.transaction(() => {
+    order.forEach((id, position) => update.run(position, collectionId, id));
+    touch(db, collectionId);
+  })();
+}
+
+// =============================================================================
+// OUTLINE
+// =============================================================================
+
+/**
+ * A collection as a Markdown outline, in board order: one section per idea
+ * with its status, link, hot take and note. Meant for an assistant drafting
+ * the piece the collection is for.
+ */
+export function collectionOutline(db: Database, userId: number, collectionId: number): string {
+  const collection = getCollection(db, userId, collectionId);
+  const lines = [`# ${collection.name}`, ""];
+  if (collection.description) lines.push(collection.description, "");
+  if (collection.items.length === 0) lines.push("_No ideas in this collection yet._");
+  collection.items.forEach((item, index) => {
+    lines.push(`## ${index + 1}. ${item.title}`, "");
+    lines.push(`- Status: ${item.status}`);
+    lines.push(`- Source: ${item.source}${item.url ? ` (${item.url})` : ""}`);
+    if (item.feedback) lines.push(`- Hot take: ${item.feedback}`);
+    if (item.summary) lines.push(`- Summary: ${item.summary}`);
+    if (item.note) lines.push("", item.note);
+    lines.push("");
+  });
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// Look a collection up by id or (case-insensitive) name, for tools that take either
+export function findCollection(db: Database, userId: number, ref: unknown): Collection | null {
+  const byId = typeof ref === "number" || (typeof ref === "string" && /^\d+$/.test(ref));
+  return db.query(`
+    SELECT id, name, description, position, created_at, updated_at FROM collections
+    WHERE user_id = ? AND ${byId ? "id = ?" : "name = ? COLLATE NOCASE"}
+  `).get(userId, byId ? Number(ref) : String(ref ?? "").trim()) as Collection | null;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { canonicalizeUrl, findCanonicalLink, siteOf } from "./dedupe";
+
+const page = (head: string) => `<html><head>${head}</head><body></body></html>`;
+
+describe("canonicalizeUrl", () => {
+  test("drops tracking params, www, fragments and trailing slashes", () => {
+    expect(canonicalizeUrl("http://www.Example.com:80/post/?utm_source=rss&b=2&a=1#top"))
+      .toBe("https://example.com/post?a=1&b=2");
+  });
+});
+
+describe("siteOf", () => {
+  test("reduces hosts to their registrable domain", () => {
+    expect(siteOf("blog.example.com")).toBe("example.com");
+    expect(siteOf("www.bbc.co.uk")).toBe("bbc.co.uk");
+    expect(siteOf("alice.github.io")).toBe("alice.github.io");
+    expect(siteOf("example.com.")).toBe("example.com");
+    expect(siteOf("93.184.216.34")).toBe("93.184.216.34");
+  });
+});
+
+describe("findCanonicalLink", () => {
+  test("prefers rel=canonical over og:url and resolves it", () => {
+    const html = page(`<meta property="og:url" content="https://example.com/og"><link rel="canonical" href="/posts/1">`);
+    expect(findCanonicalLink(html, "https://example.com/p?id=1")).toBe("https://example.com/posts/1");
+  });
+
+  test("accepts canonicals elsewhere on the same site", () => {
+    const html = page(`<link rel="canonical" href="https://www.example.com/posts/1">`);
+    expect(findCanonicalLink(html, "https://blog.example.com/posts/1/amp")).toBe("https://www.example.com/posts/1");
+  });
+
+  test("ignores canonicals on another site", () => {
+    const html = page(`<link rel="canonical" href="https://victim.example.org/article"><meta property="og:url" content="https://other.example.net/x">`);
+    expect(findCanonicalLink(html, "https://attacker.example.com/copy")).toBeNull();
+    const pages = page(`<link rel="canonical" href="https://bob.github.io/post">`);
+    expect(findCanonicalLink(pages, "https://alice.github.io/post")).toBeNull();
+  });
+
+  test("ignores canonicals that send a deep link to the site root", () => {
+    expect(findCanonicalLink(page(`<link rel="canonical" href="https://example.com/">`), "https://example.com/posts/1")).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Idea Tinder - Duplicate Detection
+ *
+ * The same story often arrives from several feeds (HN, the company blog, a
+ * newsletter) under slightly different URLs and titles. These helpers reduce
+ * URLs to a canonical form and score how alike two titles are.
+ */
+
+// =============================================================================
+// URL CANONICALIZATION
+// =============================================================================
+
+// Query params that only identify the referrer or campaign, never the content
+const TRACKING_PARAMS = new Set([
+  "ref", "ref_src", "ref_url", "referrer", "fbclid", "gclid", "dclid", "msclkid",
+  "yclid", "igshid", "mc_cid", "mc_eid", "_hsenc", "_hsmi", "hsctatracking",
+  "mkt_tok", "s_cid", "cmpid", "spm", "sk", "trk", "share", "smid",
+]);
+
+function isTrackingParam(name: string, value: string): boolean {
+  const key = name.toLowerCase();
+  if (key.startsWith("utm_") || key.startsWith("at_")) return true;
+  // Medium and friends tag feed links with ?source=rss-...
+  if (key === "source" && value.toLowerCase().startsWith("rss")) return true;
+  return TRACKING_PARAMS.has(key);
+}
+
+/**
+ * Normalize a URL for comparison: https, lowercase host without "www.",
+ * no default port, fragment, tracking params or trailing slash, and sorted
+ * query params. Returns the input unchanged if it doesn't parse.
+ */
+export function canonicalizeUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return url.toString();
+
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+  if (url.port === "80" || url.port === "443") url.port = "";
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const params = [...url.searchParams].filter(([name, value]) => !isTrackingParam(name, value));
+  params.sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  let path = url.pathname.replace(/\/{2,}/g, "/").replace(/\/index\.(html?|php)$/i, "/");
+  if (path.length > 1 && path.endsWith("/")) path = path.slice(0, -1);
+  url.pathname = path;
+
+  return url.toString();
+}
+
+// Suffixes under which each subdomain belongs to someone else
+const SHARED_HOST_SUFFIXES = new Set([
+  "github.io", "gitlab.io", "netlify.app", "vercel.app", "pages.dev",
+  "blogspot.com", "wordpress.com", "substack.com", "tumblr.com",
+]);
+
+/**
+ * The registrable domain of a hostname ("blog.example.co.uk" ->
+ * "example.co.uk"), close enough to the public suffix list for comparing
+ * sites: two-letter country TLDs with a generic second level (co.uk,
+ * com.au, ...) and shared hosting suffixes take one more label.
+ */
+export function siteOf(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (/^[\d.]+$/.test(host) || host.includes(":")) return host;
+  const labels = host.split(".");
+  const lastTwo = labels.slice(-2).join(".");
+  const keep = SHARED_HOST_SUFFIXES.has(lastTwo)
+    || (labels.at(-1)!.length === 2 && /^(co|com|org|net|gov|edu|ac|or|ne|go)$/.test(labels.at(-2) ?? ""))
+    ? 3 : 2;
+  return labels.slice(-keep).join(".");
+}
+
+/**
+ * Pull the canonical URL out of an HTML page (<link rel="canonical"> or
+ * og:url). Canonicals that point a deep link at the site root are ignored,
+ * since that's a common CMS misconfiguration rather than a real canonical,
+ * and so are canonicals on another site: any page could otherwise claim to
+ * be someone else's article and get merged into it.
+ */
+export function findCanonicalLink(html: string, pageUrl: string): string | null {
+  const candidates: string[] = [];
+  for (const tag of html.matchAll(/<(link|meta)\b[^>]*>/gi)) {
+    const attrs: Record<string, string> = {};
+    for (const attr of tag[0].matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+      attrs[attr[1]!.toLowerCase()] = attr[2] ?? attr[3] ?? "";
+    }
+    if (tag[1]!.toLowerCase() === "link" && attrs.rel?.toLowerCase().split(/\s+/).includes("canonical") && attrs.href) {
+      candidates.unshift(attrs.href);
+    } else if (attrs.property?.toLowerCase() === "og:url" && attrs.content) {
+      candidates.push(attrs.content);
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const resolved = new URL(candidate, pageUrl);
+      const original = new URL(pageUrl);
+      if (resolved.pathname === "/" && original.pathname !== "/") continue;
+      if (siteOf(resolved.hostname) !== siteOf(original.hostname)) continue;
+      return resolved.toString();
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// TITLE SIMILARITY
+// =============================================================================
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "with", "at", "by",
+  "from", "is", "are", "was", "be", "it", "its", "this", "that", "as", "how", "why",
+  "what", "we", "our", "you", "your", "new", "show", "hn", "ask",
+]);
+
+export function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      // Drop trailing " | Site Name" / " - Blog" suffixes
+      .replace(/\s+[|–—-]\s+[^|–—-]{1,40}$/, "")
+      .split(/[^a-z0-9.+#]+/)
+      .map(token => token.replace(/^\.+|\.+$/g, ""))
+      .filter(token => token && !STOPWORDS.has(token))
+  );
+}
+
+// Jaccard similarity of the two titles' significant words, 0..1
+export function titleSimilarity(a: string | Set<string>, b: string | Set<string>): number {
+  const tokensA = typeof a === "string" ? titleTokens(a) : a;
+  const tokensB = typeof b === "string" ? titleTokens(b) : b;
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  for (const token of tokensA) if (tokensB.has(token)) shared++;
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+export const TITLE_MATCH_THRESHOLD = 0.75;
+const MIN_TOKENS_FOR_FUZZY_MATCH = 4;
+
+/**
+ * Whether two titles describe the same story. Short titles ("Release notes")
+ * must match exactly, since a couple of shared words means little there.
+ */
+export function isSameStory(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0 || b.size === 0) return false;
+  if (a.size < MIN_TOKENS_FOR_FUZZY_MATCH || b.size < MIN_TOKENS_FOR_FUZZY_MATCH) {
+    return a.size === b.size && a.size >= 2 && [...a].every(token => b.has(token));
+  }
+  return titleSimilarity(a, b) >= TITLE_MATCH_THRESHOLD;
+}
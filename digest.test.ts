@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_TEMPLATE, DigestError, escapeMarkdown, renderTemplate } from "./digest";
+import { markdownToHtml } from "./markdown";
+
+const digest = (item: Record<string, unknown>) => renderTemplate(DEFAULT_TEMPLATE, {
+  title: "Weekly",
+  count: 1,
+  from: "2026-03-01",
+  to: "2026-03-07",
+  groups: [{ name: "dev", items: [{ title: "Untitled", url: null, source: "Blog", summary: null, hot_take: null, ...item }] }],
+});
+
+describe("renderTemplate", () => {
+  test("escapes Markdown in titles used as link text", () => {
+    const md = digest({ title: "Foo [pdf]", url: "https://example.com/foo.pdf" });
+    expect(md).toContain("### [Foo \\[pdf\\]](<https://example.com/foo.pdf>)");
+    expect(markdownToHtml(md)).toContain('<h3><a href="https://example.com/foo.pdf">Foo [pdf]</a></h3>');
+  });
+
+  test("wraps link targets in angle brackets so parentheses survive", () => {
+    const md = digest({ title: "Foo", url: "https://en.wikipedia.org/wiki/Foo_(bar)" });
+    expect(md).toContain("(<https://en.wikipedia.org/wiki/Foo_(bar)>)");
+    expect(markdownToHtml(md)).toContain('href="https://en.wikipedia.org/wiki/Foo_(bar)"');
+  });
+
+  test("keeps every line of a multi-line hot take in the quote", () => {
+    const md = digest({ hot_take: "Worth it.\n- not a list\n\n# not a heading" });
+    expect(md).toContain("> Worth it.\n> \\- not a list\n> \n> \\# not a heading");
+    const html = markdownToHtml(md);
+    expect(html).toContain("<blockquote>");
+    expect(html).not.toContain("<li>");
+    expect(html).not.toContain("<h1>not a heading");
+  });
+
+  test("indents continuation lines under list items", () => {
+    expect(renderTemplate("- {{a}}\n> 1. {{a}}", { a: "one\ntwo" })).toBe("- one\n  two\n> 1. one\n>    two\n");
+  });
+
+  test("inserts {{&name}} values without escaping", () => {
+    expect(renderTemplate("{{&note}} / {{note}}", { note: "**bold**" })).toBe("**bold** / \\*\\*bold\\*\\*\n");
+  });
+
+  test("rejects unbalanced sections", () => {
+    expect(() => renderTemplate("{{#items}}x", {})).toThrow(DigestError);
+    expect(() => renderTemplate("x{{/items}}", {})).toThrow(DigestError);
+  });
+});
+
+describe("escapeMarkdown", () => {
+  test("round-trips through the Markdown renderer as plain text", () => {
+    const text = "a_b *c* `d` <e> [f](g) | ~h~ \\";
+    expect(markdownToHtml(escapeMarkdown(text))).toBe("<p>a_b *c* `d` &lt;e&gt; [f](g) | ~h~ \\</p>");
+  });
+
+  test("escapes block markers only at the start of a line", () => {
+    expect(escapeMarkdown("# C# 12\n1. one\n+ two")).toBe("\\# C# 12\n1\\. one\n\\+ two");
+  });
+});
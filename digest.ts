@@ -0,0 +1,537 @@
+/**
+ * Idea Tinder - Weekly Digest
+ *
+ * Turns the ideas saved in a date window into a roundup draft: grouped by
+ * category or by tag, with titles, links, summaries and hot takes, written
+ * out through the user's Markdown template. Each draft keeps every version,
+ * whether regenerated from the template or edited by hand, and any version
+ * renders as Markdown, a web page or newsletter-ready email HTML.
+ *
+ * Templates use a small Mustache subset:
+ *
+ *   {{name}}               a value, with Markdown characters escaped
+ *   {{&name}}              a value inserted as-is, for values that are Markdown
+ *   {{#name}}…{{/name}}    repeat for each item of a list, or show if set
+ *   {{^name}}…{{/name}}    show if empty or unset
+ *
+ * Values are escaped for where they land: a link target right after "](" is
+ * wrapped in <…>, and a multi-line value inside a quote or list item keeps
+ * its later lines in the quote or item.
+ *
+ * Tables digest_templates, digests and digest_versions are created by
+ * server.ts.
+ */
+
+import type { Database } from "bun:sqlite";
+import { loadExportIdeas, type ExportIdea } from "./liked-export";
+import { markdownToHtml, type TagStyles } from "./markdown";
+
+export const DIGEST_GROUPINGS = ["category", "tag"] as const;
+export type DigestGrouping = typeof DIGEST_GROUPINGS[number];
+
+export const DIGEST_FORMATS = ["md", "html", "email"] as const;
+export type DigestFormat = typeof DIGEST_FORMATS[number];
+
+const MAX_TEMPLATE_LENGTH = 20000;
+const MAX_MARKDOWN_LENGTH = 200000;
+const MAX_TITLE_LENGTH = 200;
+const DEFAULT_WINDOW_DAYS = 7;
+const OTHER_GROUP = "Other";
+
+export const DEFAULT_TEMPLATE = `# {{title}}
+
+_{{count}} ideas saved {{from}} to {{to}}_
+
+{{#groups}}
+## {{name}}
+
+{{#items}}
+### {{#url}}[{{title}}]({{url}}){{/url}}{{^url}}{{title}}{{/url}}
+
+_{{source}}_
+
+{{#summary}}
+{{summary}}
+
+{{/summary}}
+{{#hot_take}}
+> {{hot_take}}
+
+{{/hot_take}}
+{{/items}}
+{{/groups}}
+{{^groups}}
+_Nothing saved in this window._
+{{/groups}}
+`;
+
+export interface DigestVersion {
+  version: number;
+  source: "generated" | "edited";
+  period_from: string;
+  period_to: string;
+  group_by: DigestGrouping;
+  idea_count: number;
+  created_at: string;
+}
+
+export interface Digest {
+  id: number;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  version: DigestVersion & { markdown: string };
+  versions: DigestVersion[];
+}
+
+export interface DigestSummary {
+  id: number;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  latest_version: number;
+  period_from: string;
+  period_to: string;
+}
+
+export interface DigestOptions {
+  from?: unknown;               // YYYY-MM-DD, on the save date
+  to?: unknown;
+  groupBy?: unknown;
+  title?: unknown;
+}
+
+// status is the HTTP status the API should answer with
+export class DigestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "DigestError";
+  }
+}
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+type TemplateNode =
+  | string
+  | { name: string; raw: boolean }
+  | { name: string; inverted: boolean; children: TemplateNode[] };
+
+function parseTemplate(template: string): TemplateNode[] {
+  // A section tag alone on its line takes the line with it
+  const source = template.replace(/^[ \t]*(\{\{[#^/][^}]*\}\})[ \t]*\r?\n/gm, "$1");
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: "", children: root }];
+  const tag = /\{\{\s*([#^/&]?)\s*([\w.]+)\s*\}\}/g;
+  let last = 0;
+
+  for (let match = tag.exec(source); match; match = tag.exec(source)) {
+    const [text, kind, name] = match as unknown as [string, string, string];
+    const children = stack[stack.length - 1]!.children;
+    if (match.index > last) children.push(source.slice(last, match.index));
+    last = match.index + text.length;
+
+    if (kind === "/") {
+      if (stack.length === 1 || stack[stack.length - 1]!.name !== name) {
+        throw new DigestError(`Template has {{/${name}}} without a matching {{#${name}}}`);
+      }
+      stack.pop();
+    } else if (kind === "#" || kind === "^") {
+      const section = { name, inverted: kind === "^", children: [] as TemplateNode[] };
+      children.push(section);
+      stack.push(section);
+    } else {
+      children.push({ name, raw: kind === "&" });
+    }
+  }
+  if (stack.length > 1) throw new DigestError(`Template never closes {{#${stack[stack.length - 1]!.name}}}`);
+  if (last < source.length) root.push(source.slice(last));
+  return root;
+}
+
+type Context = Record<string, unknown>;
+
+// Names resolve from the innermost section outward; "." is the current item
+function lookup(stack: unknown[], name: string): unknown {
+  if (name === ".") return stack[stack.length - 1];
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const context = stack[i];
+    if (context && typeof context === "object" && name in context) return (context as Context)[name];
+  }
+  return undefined;
+}
+
+// Backslash-escape whatever would otherwise turn text into Markdown syntax
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>|~]/g, "\\$&")
+    // Only at the start of a line: headings, quotes, list items, setext underlines
+    .replace(/^([ \t]*)([#>+=-])/gm, "$1\\$2")
+    .replace(/^([ \t]*\d+)([.)])/gm, "$1\\$2");
+}
+
+// Angle brackets let a link target hold spaces and parentheses
+function linkTarget(url: string): string {
+  return url.replace(/[<>\s]/g, char => encodeURIComponent(char));
+}
+
+/**
+ * Insert a value where the rendered text so far (`before`) leaves off.
+ * Later lines of a multi-line value repeat the line's quote markers and
+ * indent under a list item, so they stay inside it.
+ */
+function insertValue(text: string, before: string, raw: boolean): string {
+  if (before.endsWith("](")) return `<${linkTarget(text)}>`;
+  if (before.endsWith("](<")) return linkTarget(text);
+
+  const value = raw ? text : escapeMarkdown(text);
+  const line = before.slice(before.lastIndexOf("\n") + 1);
+  const [, quote = "", item = ""] = line.match(/^((?:[ \t]*>[ \t]?)*)([ \t]*(?:[-*+]|\d+[.)])[ \t]+)?/)!;
+  return value.replace(/\r?\n/g, `\n${quote}${" ".repeat(item.length)}`);
+}
+
+// Appends to `out` so each value can see what comes right before it
+function renderNodes(nodes: TemplateNode[], stack: unknown[], out: { text: string }) {
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      out.text += node;
+      continue;
+    }
+    const value = lookup(stack, node.name);
+    if (!("children" in node)) {
+      if (value === null || value === undefined) continue;
+      out.text += Array.isArray(value)
+        ? value.map(item => insertValue(String(item), out.text, node.raw)).join(", ")
+        : insertValue(String(value), out.text, node.raw);
+      continue;
+    }
+    const empty = !value || (Array.isArray(value) && value.length === 0);
+    if (node.inverted) {
+      if (empty) renderNodes(node.children, stack, out);
+    } else if (Array.isArray(value)) {
+      for (const item of value) renderNodes(node.children, [...stack, item], out);
+    } else if (!empty) {
+      renderNodes(node.children, [...stack, value], out);
+    }
+  }
+}
+
+export function renderTemplate(template: string, context: Context): string {
+  const out = { text: "" };
+  renderNodes(parseTemplate(template), [context], out);
+  return out.text.replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
+
+export function getTemplate(db: Database, userId: number): { template: string; isDefault: boolean } {
+  const row = db.query("SELECT template FROM digest_templates WHERE user_id = ?").get(userId) as { template: string } | null;
+  return row ? { template: row.template, isDefault: false } : { template: DEFAULT_TEMPLATE, isDefault: true };
+}
+
+// null puts the default template back
+export function setTemplate(db: Database, userId: number, template: unknown): { template: string; isDefault: boolean } {
+  if (template === null) {
+    db.query("DELETE FROM digest_templates WHERE user_id = ?").run(userId);
+    return getTemplate(db, userId);
+  }
+  if (typeof template !== "string" || !template.trim()) throw new DigestError("template is required");
+  if (template.length > MAX_TEMPLATE_LENGTH) throw new DigestError(`template must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  parseTemplate(template);
+  db.query(`
+    INSERT INTO digest_templates (user_id, template) VALUES (?, ?)
+    ON CONFLICT (user_id) DO UPDATE SET template = excluded.template, updated_at = CURRENT_TIMESTAMP
+  `).run(userId, template);
+  return getTemplate(db, userId);
+}
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+function cleanDate(value: unknown, field: string, fallback: string): string {
+  if (value === undefined || value === null || value === "") return fallback;
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new DigestError(`${field} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+function cleanGrouping(value: unknown, fallback: DigestGrouping): DigestGrouping {
+  if (value === undefined || value === null) return fallback;
+  if (!DIGEST_GROUPINGS.includes(value as DigestGrouping)) {
+    throw new DigestError(`groupBy must be one of: ${DIGEST_GROUPINGS.join(", ")}`);
+  }
+  return value as DigestGrouping;
+}
+
+function cleanTitle(value: unknown, fallback: string): string {
+  if (value === undefined || value === null) return fallback;
+  const title = typeof value === "string" ? value.trim() : "";
+  if (!title) throw new DigestError("title must not be empty");
+  if (title.length > MAX_TITLE_LENGTH) throw new DigestError(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+  return title;
+}
+
+function cleanMarkdown(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) throw new DigestError("markdown is required");
+  if (value.length > MAX_MARKDOWN_LENGTH) throw new DigestError(`markdown must be at most ${MAX_MARKDOWN_LENGTH} characters`);
+  return value;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86400000).toISOString().substring(0, 10);
+}
+
+/**
+ * Sort ideas into sections. By tag, an idea goes under whichever of its tags
+ * is most common in the window, so each appears once and the sections come
+ * out as big as they can be. Biggest sections first; untagged or
+ * uncategorized ideas go last under "Other".
+ */
+function groupIdeas(ideas: ExportIdea[], groupBy: DigestGrouping): { name: string; ideas: ExportIdea[] }[] {
+  const tagCounts = new Map<string, number>();
+  for (const idea of ideas) for (const tag of idea.tags) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+
+  const groups = new Map<string, ExportIdea[]>();
+  for (const idea of ideas) {
+    const name = groupBy === "category"
+      ? idea.category || OTHER_GROUP
+      : [...idea.tags].sort((a, b) => tagCounts.get(b)! - tagCounts.get(a)! || a.localeCompare(b))[0] ?? OTHER_GROUP;
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name)!.push(idea);
+  }
+
+  return [...groups].map(([name, ideas]) => ({ name, ideas })).sort((a, b) =>
+    Number(a.name === OTHER_GROUP) - Number(b.name === OTHER_GROUP) || b.ideas.length - a.ideas.length || a.name.localeCompare(b.name)
+  );
+}
+
+function templateContext(title: string, from: string, to: string, groupBy: DigestGrouping, ideas: ExportIdea[]): Context {
+  return {
+    title,
+    from,
+    to,
+    group_by: groupBy,
+    count: ideas.length,
+    generated: new Date().toISOString().substring(0, 10),
+    groups: groupIdeas(ideas, groupBy).map(group => ({
+      name: group.name,
+      count: group.ideas.length,
+      items: group.ideas.map(idea => ({
+        id: idea.id,
+        title: idea.title,
+        url: idea.url,
+        source: idea.source,
+        category: idea.category,
+        type: idea.content_type,
+        summary: idea.generated_summary || idea.summary,
+        hot_take: idea.feedback,
+        tags: idea.tags,
+        saved: idea.swiped_at.substring(0, 10),
+        published: idea.published_at?.substring(0, 10) ?? null,
+        notes: idea.notes.map(note => ({ body: note.body, quote: note.quote })),
+      })),
+    })),
+  };
+}
+
+function generate(db: Database, userId: number, title: string, from: string, to: string, groupBy: DigestGrouping) {
+  if (from > to) throw new DigestError("from must not be after to");
+  const ideas = loadExportIdeas(db, userId, { from, to });
+  const markdown = renderTemplate(getTemplate(db, userId).template, templateContext(title, from, to, groupBy, ideas));
+  return { markdown, count: ideas.length };
+}
+
+// =============================================================================
+// DRAFTS
+// =============================================================================
+
+const VERSION_COLUMNS = "version, source, period_from, period_to, group_by, idea_count, created_at";
+
+function requireDigest(db: Database, userId: number, digestId: number) {
+  const digest = db.query("SELECT id, title, created_at, updated_at FROM digests WHERE id = ? AND user_id = ?")
+    .get(digestId, userId) as Omit<Digest, "version" | "versions"> | null;
+  if (!digest) throw new DigestError("Digest not found", 404);
+  return digest;
+}
+
+function addVersion(db: Database, digestId: number, version: Omit<DigestVersion, "version" | "created_at"> & { markdown: string }) {
+  db.transaction(() => {
+    db.query(`
+      INSERT INTO digest_versions (digest_id, version, source, period_from, period_to, group_by, idea_count, markdown)
+      VALUES (?1, (SELECT COALESCE(MAX(version), 0) + 1 FROM digest_versions WHERE digest_id = ?1), ?2, ?3, ?4, ?5, ?6, ?7)
+    `).run(digestId, version.source, version.period_from, version.period_to, version.group_by, version.idea_count, version.markdown);
+    db.query("UPDATE digests SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(digestId);
+  })();
+}
+
+export function listDigests(db: Database, userId: number): DigestSummary[] {
+  return db.query(`
+    SELECT d.id, d.title, d.created_at, d.updated_at, v.version as latest_version, v.period_from, v.period_to
+    FROM digests d
+    JOIN digest_versions v ON v.digest_id = d.id
+      AND v.version = (SELECT MAX(version) FROM digest_versions WHERE digest_id = d.id)
+    WHERE d.user_id = ?
+    ORDER BY d.updated_at DESC, d.id DESC
+  `).all(userId) as DigestSummary[];
+}
+
+// A draft at one version (the latest by default), with the list of all versions
+export function getDigest(db: Database, userId: number, digestId: number, version?: number): Digest {
+  const digest = requireDigest(db, userId, digestId);
+  const versions = db.query(`SELECT ${VERSION_COLUMNS} FROM digest_versions WHERE digest_id = ? ORDER BY version DESC`)
+    .all(digestId) as DigestVersion[];
+  const wanted = version ?? versions[0]?.version;
+  const current = db.query(`SELECT ${VERSION_COLUMNS}, markdown FROM digest_versions WHERE digest_id = ? AND version = ?`)
+    .get(digestId, wanted ?? 0) as (DigestVersion & { markdown: string }) | null;
+  if (!current) throw new DigestError(`Version ${version} not found`, 404);
+  return { ...digest, version: current, versions };
+}
+
+/**
+ * Build a new draft from the ideas saved between from and to (default: the
+ * last seven days, today included).
+ */
+export function createDigest(db: Database, userId: number, options: DigestOptions): Digest {
+  const to = cleanDate(options.to, "to", daysAgo(0));
+  const from = cleanDate(options.from, "from", daysAgo(DEFAULT_WINDOW_DAYS - 1));
+  const groupBy = cleanGrouping(options.groupBy, "category");
+  const title = cleanTitle(options.title, `Roundup: ${from} to ${to}`);
+  const { markdown, count } = generate(db, userId, title, from, to, groupBy);
+
+  const digestId = db.transaction(() => {
+    const { id } = db.query("INSERT INTO digests (user_id, title) VALUES (?, ?) RETURNING id").get(userId, title) as { id: number };
+    addVersion(db, id, { source: "generated", period_from: from, period_to: to, group_by: groupBy, idea_count: count, markdown });
+    return id;
+  })();
+  return getDigest(db, userId, digestId);
+}
+
+// A new version from the template, keeping the latest version's window and grouping unless given
+export function regenerateDigest(db: Database, userId: number, digestId: number, options: DigestOptions): Digest {
+  const { title: currentTitle, version: latest } = getDigest(db, userId, digestId);
+  const from = cleanDate(options.from, "from", latest.period_from);
+  const to = cleanDate(options.to, "to", latest.period_to);
+  const groupBy = cleanGrouping(options.groupBy, latest.group_by);
+  const title = cleanTitle(options.title, currentTitle);
+  const { markdown, count } = generate(db, userId, title, from, to, groupBy);
+
+  db.transaction(() => {
+    db.query("UPDATE digests SET title = ? WHERE id = ?").run(title, digestId);
+    addVersion(db, digestId, { source: "generated", period_from: from, period_to: to, group_by: groupBy, idea_count: count, markdown });
+  })();
+  return getDigest(db, userId, digestId);
+}
+
+// Rename a draft, and with markdown, save a hand-edited version
+export function updateDigest(db: Database, userId: number, digestId: number, input: { title?: unknown; markdown?: unknown }): Digest {
+  const { title: currentTitle, version: latest } = getDigest(db, userId, digestId);
+  const title = cleanTitle(input.title, currentTitle);
+  const markdown = input.markdown === undefined ? null : cleanMarkdown(input.markdown);
+
+  db.transaction(() => {
+    db.query("UPDATE digests SET title = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(title, digestId);
+    if (markdown !== null && markdown !== latest.markdown) {
+      addVersion(db, digestId, { ...latest, source: "edited", markdown });
+    }
+  })();
+  return getDigest(db, userId, digestId);
+}
+
+export function deleteDigest(db: Database, userId: number, digestId: number) {
+  requireDigest(db, userId, digestId);
+  db.transaction(() => {
+    db.query("DELETE FROM digest_versions WHERE digest_id = ?").run(digestId);
+    db.query("DELETE FROM digests WHERE id = ?").run(digestId);
+  })();
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+const EMAIL_FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const EMAIL_STYLES: TagStyles = {
+  h1: `margin: 0 0 8px; font-family: ${EMAIL_FONT}; font-size: 26px; line-height: 1.25; color: #111111;`,
+  h2: `margin: 28px 0 8px; padding-bottom: 6px; border-bottom: 2px solid #4ecdc4; font-family: ${EMAIL_FONT}; font-size: 20px; color: #111111;`,
+  h3: `margin: 20px 0 4px; font-family: ${EMAIL_FONT}; font-size: 17px; line-height: 1.35; color: #111111;`,
+  h4: `margin: 16px 0 4px; font-family: ${EMAIL_FONT}; font-size: 15px; color: #111111;`,
+  p: `margin: 0 0 12px; font-family: ${EMAIL_FONT}; font-size: 15px; line-height: 1.6; color: #333333;`,
+  a: "color: #0b7a75; text-decoration: underline;",
+  blockquote: "margin: 0 0 12px; padding: 2px 0 2px 12px; border-left: 3px solid #feca57; color: #555555; font-style: italic;",
+  ul: "margin: 0 0 12px; padding-left: 22px;",
+  ol: "margin: 0 0 12px; padding-left: 22px;",
+  li: `margin: 0 0 6px; font-family: ${EMAIL_FONT}; font-size: 15px; line-height: 1.5; color: #333333;`,
+  hr: "border: none; border-top: 1px solid #e5e5e5; margin: 24px 0;",
+  pre: "margin: 0 0 12px; padding: 12px; background: #f6f6f6; border-radius: 4px; overflow-x: auto;",
+  code: "font-family: Menlo, Consolas, monospace; font-size: 13px;",
+  img: "max-width: 100%; height: auto; border: 0;",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function webPage(title: string, markdown: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 720px; margin: 40px auto; padding: 0 20px; line-height: 1.6; color: #222; }
+    h2 { margin-top: 2em; padding-bottom: 4px; border-bottom: 2px solid #4ecdc4; }
+    h3 { margin-bottom: 0.2em; }
+    a { color: #0b7a75; }
+    blockquote { border-left: 3px solid #feca57; margin: 8px 0; padding-left: 12px; color: #555; font-style: italic; }
+    img { max-width: 100%; }
+  </style>
+</head>
+<body>
+${markdownToHtml(markdown)}
+</body>
+</html>
+`;
+}
+
+// Table layout and inline styles, which is what survives Gmail and Outlook
+function emailPage(title: string, markdown: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f4f4f4;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background: #f4f4f4;">
+    <tr>
+      <td align="center" style="padding: 24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="width: 100%; max-width: 600px; background: #ffffff; border-radius: 8px;">
+          <tr>
+            <td style="padding: 32px;">
+${markdownToHtml(markdown, EMAIL_STYLES)}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+export function renderDigest(digest: Digest, format: DigestFormat): { body: string; contentType: string; extension: string } {
+  const markdown = digest.version.markdown;
+  switch (format) {
+    case "md":
+      return { body: markdown, contentType: "text/markdown; charset=utf-8", extension: "md" };
+    case "html":
+      return { body: webPage(digest.title, markdown), contentType: "text/html; charset=utf-8", extension: "html" };
+    case "email":
+      return { body: emailPage(digest.title, markdown), contentType: "text/html; charset=utf-8", extension: "email.html" };
+  }
+}
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  DEFAULT_EMAIL_DIGEST, getLinkSecret, inQuietHours, sendDueDigests, signEmailAction, verifyEmailAction,
+  type EmailAction, type EmailActionClaims, type EmailDigestSettings,
+} from "./email-digest";
+import { MailError, type MailMessage, type MailTransport } from "./mail";
+
+const SECRET = "test-secret";
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+describe("signed links", () => {
+  const claims: EmailActionClaims = { action: "save", userId: 7, ideaId: 42, expires: NOW / 1000 + 3600 };
+
+  test("a signed token verifies to its claims until it expires", () => {
+    const token = signEmailAction(SECRET, claims);
+    expect(verifyEmailAction(SECRET, token, NOW)).toEqual(claims);
+    expect(verifyEmailAction(SECRET, token, NOW + 3599 * 1000)).toEqual(claims);
+    expect(verifyEmailAction(SECRET, token, NOW + 3600 * 1000)).toBeNull();
+  });
+
+  test("rejects tampered, forged and mangled tokens", () => {
+    const [payload, signature] = signEmailAction(SECRET, claims).split(".") as [string, string];
+    const otherUser = Buffer.from(`save.8.42.${claims.expires}`).toString("base64url");
+    const flipped = signature.slice(0, -1) + (signature.endsWith("A") ? "B" : "A");
+    for (const token of [`${otherUser}.${signature}`, `${payload}.${flipped}`, `${payload}.`, payload, "", "a.b.c"]) {
+      expect(verifyEmailAction(SECRET, token, NOW)).toBeNull();
+    }
+    expect(verifyEmailAction("another-secret", `${payload}.${signature}`, NOW)).toBeNull();
+  });
+
+  test("rejects validly signed tokens with unknown actions or ids", () => {
+    expect(verifyEmailAction(SECRET, signEmailAction(SECRET, { ...claims, action: "delete" as EmailAction }), NOW)).toBeNull();
+    expect(verifyEmailAction(SECRET, signEmailAction(SECRET, { ...claims, userId: 1.5 }), NOW)).toBeNull();
+  });
+});
+
+describe("inQuietHours", () => {
+  const settings = (quietHours: EmailDigestSettings["quietHours"], timezone: string): EmailDigestSettings =>
+    ({ ...DEFAULT_EMAIL_DIGEST, cadence: "daily", quietHours, timezone });
+
+  test("handles hours that wrap midnight in the user's time zone", () => {
+    // New York is on EDT (UTC-4) from 8 March 2026
+    const night = settings({ start: "22:00", end: "07:00" }, "America/New_York");
+    expect(inQuietHours(night, new Date("2026-03-10T02:30:00Z"))).toBe(true);    // 22:30
+    expect(inQuietHours(night, new Date("2026-03-10T10:59:00Z"))).toBe(true);    // 06:59
+    expect(inQuietHours(night, new Date("2026-03-10T11:00:00Z"))).toBe(false);   // 07:00, the end is outside
+    expect(inQuietHours(night, new Date("2026-03-10T01:59:00Z"))).toBe(false);   // 21:59
+    // 23:00 UTC is only 19:00 in New York
+    expect(inQuietHours(night, new Date("2026-03-10T23:00:00Z"))).toBe(false);
+  });
+
+  test("handles same-day hours and half-hour offsets", () => {
+    const lunch = settings({ start: "13:00", end: "14:00" }, "Asia/Kolkata");
+    expect(inQuietHours(lunch, new Date("2026-03-10T07:45:00Z"))).toBe(true);    // 13:15
+    expect(inQuietHours(lunch, new Date("2026-03-10T08:30:00Z"))).toBe(false);   // 14:00
+    expect(inQuietHours(settings(null, "UTC"))).toBe(false);
+  });
+});
+
+// The tables digests read and write, as server.ts creates them
+const SCHEMA = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, preferences JSON DEFAULT '{}');
+  CREATE TABLE ideas (
+    id INTEGER PRIMARY KEY, title TEXT NOT NULL, source TEXT NOT NULL, summary TEXT NOT NULL, url TEXT, category TEXT,
+    content_type TEXT DEFAULT 'article', published_at DATETIME, ingested_at DATETIME DEFAULT CURRENT_TIMESTAMP, generated_summary TEXT
+  );
+  CREATE TABLE swipes (id INTEGER PRIMARY KEY, user_id INTEGER, idea_id INTEGER, direction TEXT, swiped_at DATETIME);
+  CREATE TABLE user_pending (user_id INTEGER, idea_id INTEGER, added_at DATETIME, filter_action TEXT, UNIQUE(user_id, idea_id));
+  CREATE TABLE ranking_models (user_id INTEGER PRIMARY KEY, bias REAL NOT NULL DEFAULT 0, swipes INTEGER NOT NULL DEFAULT 0, updated_at DATETIME);
+  CREATE TABLE ranking_weights (user_id INTEGER, feature TEXT, weight REAL, PRIMARY KEY (user_id, feature));
+  CREATE TABLE email_digest_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL, kind TEXT NOT NULL, status TEXT NOT NULL,
+    idea_count INTEGER NOT NULL DEFAULT 0, error TEXT, sent_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE app_secrets (name TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+const BASE_URL = "https://ideas.example.com";
+
+let db: Database;
+let sent: MailMessage[];
+let failWith: string | null;
+
+// Records every message instead of sending it, or fails like a dead server
+const transport: MailTransport = {
+  name: "stub",
+  async send(message) {
+    if (failWith) throw new MailError(failWith);
+    sent.push(message);
+  },
+};
+
+function addUser(id: number, digest: Partial<EmailDigestSettings>) {
+  db.query("INSERT INTO users (id, email, preferences) VALUES (?, ?, ?)")
+    .run(id, `user${id}@example.com`, JSON.stringify({ emailDigest: { ...DEFAULT_EMAIL_DIGEST, ...digest } }));
+}
+
+function queue(userId: number, ideaId: number, addedAt: string) {
+  db.query("INSERT OR IGNORE INTO ideas (id, title, source, summary, url) VALUES (?, ?, 'Blog', 'A summary.', ?)")
+    .run(ideaId, `Idea ${ideaId}`, `https://example.com/${ideaId}`);
+  db.query("INSERT INTO user_pending (user_id, idea_id, added_at) VALUES (?, ?, ?)").run(userId, ideaId, addedAt);
+}
+
+const at = (hoursAfterNow: number) => new Date(NOW + hoursAfterNow * 3600 * 1000);
+const run = (hoursAfterNow = 0) => sendDueDigests(db, transport, { baseUrl: BASE_URL, now: at(hoursAfterNow) });
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  db.exec(SCHEMA);
+  sent = [];
+  failWith = null;
+});
+
+describe("sendDueDigests", () => {
+  test("emails opted-in users with signed save, dismiss and unsubscribe links", async () => {
+    addUser(1, { cadence: "daily" });
+    addUser(2, { cadence: "off" });
+    queue(1, 10, "2026-03-09 08:00:00");
+    queue(2, 10, "2026-03-09 08:00:00");
+
+    expect(await run()).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(sent.map(message => message.to)).toEqual(["user1@example.com"]);
+    expect(sent[0]!.subject).toBe("1 new idea waiting in Idea Tinder");
+
+    const tokens = [...sent[0]!.text.matchAll(/token=([\w.-]+)/g)].map(match => match[1]!);
+    const secret = getLinkSecret(db);
+    expect(tokens.map(token => verifyEmailAction(secret, token, NOW))).toMatchObject([
+      { action: "save", userId: 1, ideaId: 10 },
+      { action: "dismiss", userId: 1, ideaId: 10 },
+      { action: "unsubscribe", userId: 1, ideaId: 0 },
+    ]);
+    expect(db.query("SELECT user_id, kind, status, idea_count, sent_at FROM email_digest_log").all()).toEqual([
+      { user_id: 1, kind: "scheduled", status: "sent", idea_count: 1, sent_at: "2026-03-10 12:00:00" },
+    ]);
+  });
+
+  test("waits for the cadence interval and only sends what's new since the last email", async () => {
+    addUser(1, { cadence: "daily" });
+    addUser(2, { cadence: "weekly" });
+    queue(1, 10, "2026-03-09 08:00:00");
+    queue(2, 10, "2026-03-09 08:00:00");
+    expect(await run()).toMatchObject({ sent: 2 });
+
+    queue(1, 11, "2026-03-10 13:00:00");
+    queue(2, 11, "2026-03-10 13:00:00");
+    expect(await run(1)).toEqual({ sent: 0, skipped: 2, failed: 0 });
+    expect(await run(23)).toEqual({ sent: 0, skipped: 2, failed: 0 });
+
+    // A run up to 30 minutes early still counts, so a 15-minute cron never slips a whole day
+    expect(await run(23.75)).toEqual({ sent: 1, skipped: 1, failed: 0 });
+    expect(sent.at(-1)!.to).toBe("user1@example.com");
+    expect(sent.at(-1)!.text).toContain("Idea 11");
+    expect(sent.at(-1)!.text).not.toContain("* Idea 10");
+
+    expect(await run(24 * 6)).toMatchObject({ sent: 0 });
+    expect(await run(24 * 7)).toMatchObject({ sent: 1 });
+    expect(sent.at(-1)!.to).toBe("user2@example.com");
+  });
+
+  test("skips users with nothing new or inside their quiet hours", async () => {
+    addUser(1, { cadence: "daily" });
+    addUser(2, { cadence: "daily", quietHours: { start: "07:00", end: "09:00" }, timezone: "America/New_York" });
+    queue(2, 10, "2026-03-09 08:00:00");
+
+    // 12:00 UTC is 08:00 in New York
+    expect(await run()).toEqual({ sent: 0, skipped: 2, failed: 0 });
+    expect(await run(1)).toEqual({ sent: 1, skipped: 1, failed: 0 });
+  });
+
+  test("logs failed sends and retries them on the next run", async () => {
+    addUser(1, { cadence: "daily" });
+    queue(1, 10, "2026-03-09 08:00:00");
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    try {
+      failWith = "SMTP RCPT TO:<user1@example.com>: 550 no such user";
+      expect(await run()).toEqual({ sent: 0, skipped: 0, failed: 1 });
+      expect(log).toHaveBeenCalledTimes(1);
+    } finally {
+      log.mockRestore();
+    }
+    expect(db.query("SELECT status, error, idea_count FROM email_digest_log").all()).toEqual([
+      { status: "failed", error: "SMTP RCPT TO:<user1@example.com>: 550 no such user", idea_count: 1 },
+    ]);
+
+    failWith = null;
+    expect(await run(0.25)).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,452 @@
+#!/usr/bin/env bun
+/**
+ * Idea Tinder - Email Digests
+ *
+ * Opt-in emails listing the top-ranked ideas that reached a user's queue
+ * since their last email, each with one-click "save" and "dismiss" links.
+ * Run every 15 minutes via cron: 0,15,30,45 * * * *
+ *
+ * Settings live in users.preferences as emailDigest:
+ *
+ *   cadence     off (default), daily or weekly
+ *   quietHours  { start: "22:00", end: "07:00" } in the user's timezone, or
+ *               null; a digest that falls due inside them waits until they end
+ *   timezone    IANA name, e.g. America/New_York
+ *   maxItems    ideas per email, 1-25
+ *
+ * Links carry a signed token (user, idea, action, expiry), so they work
+ * without a session; server.ts checks them at /email/action and runs the
+ * swipe through the same code as /api/swipe. Every send is logged to
+ * email_digest_log (created by server.ts). Mail goes out through the
+ * transport configured in mail.ts.
+ */
+
+import { Database } from "bun:sqlite";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { loadModel, scoreIdea, type RankableIdea } from "./ranking";
+import { FILTER_BOOST_POINTS } from "./filters";
+import { getMailTransport, type MailMessage, type MailTransport } from "./mail";
+
+export const EMAIL_CADENCES = ["off", "daily", "weekly"] as const;
+export type EmailCadence = typeof EMAIL_CADENCES[number];
+
+export const EMAIL_ACTIONS = ["save", "dismiss", "unsubscribe"] as const;
+export type EmailAction = typeof EMAIL_ACTIONS[number];
+
+const CADENCE_HOURS: Record<Exclude<EmailCadence, "off">, number> = { daily: 24, weekly: 24 * 7 };
+// Cron runs every 15 minutes, so allow a little early rather than a whole run late
+const CADENCE_SLACK_MINUTES = 30;
+const LINK_LIFETIME_DAYS = 14;
+const MAX_ITEMS = 25;
+const SUMMARY_CHARS = 240;
+
+export interface EmailDigestSettings {
+  cadence: EmailCadence;
+  quietHours: { start: string; end: string } | null;
+  timezone: string;
+  maxItems: number;
+}
+
+export const DEFAULT_EMAIL_DIGEST: EmailDigestSettings = {
+  cadence: "off",
+  quietHours: null,
+  timezone: "UTC",
+  maxItems: 10,
+};
+
+export interface EmailActionClaims {
+  action: EmailAction;
+  userId: number;
+  ideaId: number;               // 0 for unsubscribe
+  expires: number;              // unix seconds
+}
+
+export interface EmailIdea {
+  id: number;
+  title: string;
+  source: string;
+  url: string | null;
+  category: string | null;
+  summary: string | null;
+  score: number;
+}
+
+// status is the HTTP status the API should answer with
+export class EmailDigestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "EmailDigestError";
+  }
+}
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+export function emailDigestSettings(preferences: string | null): EmailDigestSettings {
+  try {
+    const saved = (JSON.parse(preferences || "{}") as { emailDigest?: Partial<EmailDigestSettings> }).emailDigest;
+    return { ...DEFAULT_EMAIL_DIGEST, ...saved };
+  } catch {
+    return { ...DEFAULT_EMAIL_DIGEST };
+  }
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply a partial update from the API to a user's settings. Throws
+ * EmailDigestError for anything invalid.
+ */
+export function updateEmailDigestSettings(current: EmailDigestSettings, input: unknown): EmailDigestSettings {
+  if (!input || typeof input !== "object") throw new EmailDigestError("emailDigest must be an object");
+  const changes = input as Record<string, unknown>;
+  const next = { ...current };
+
+  if (changes.cadence !== undefined) {
+    if (!EMAIL_CADENCES.includes(changes.cadence as EmailCadence)) {
+      throw new EmailDigestError(`cadence must be one of: ${EMAIL_CADENCES.join(", ")}`);
+    }
+    next.cadence = changes.cadence as EmailCadence;
+  }
+  if (changes.quietHours !== undefined) {
+    const quiet = changes.quietHours as { start?: unknown; end?: unknown } | null;
+    if (quiet !== null && (typeof quiet !== "object" || !isTime(quiet.start) || !isTime(quiet.end))) {
+      throw new EmailDigestError('quietHours must be null or { "start": "HH:MM", "end": "HH:MM" }');
+    }
+    next.quietHours = quiet && quiet.start !== quiet.end ? { start: quiet.start as string, end: quiet.end as string } : null;
+  }
+  if (changes.timezone !== undefined) {
+    if (typeof changes.timezone !== "string" || !isTimezone(changes.timezone)) {
+      throw new EmailDigestError("timezone must be an IANA time zone, e.g. America/New_York");
+    }
+    next.timezone = changes.timezone;
+  }
+  if (changes.maxItems !== undefined) {
+    const maxItems = Number(changes.maxItems);
+    if (!Number.isInteger(maxItems) || maxItems < 1 || maxItems > MAX_ITEMS) {
+      throw new EmailDigestError(`maxItems must be a whole number from 1 to ${MAX_ITEMS}`);
+    }
+    next.maxItems = maxItems;
+  }
+  return next;
+}
+
+// Minutes since midnight in the given zone
+function localMinutes(timezone: string, now: Date): number {
+  const parts = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+    .formatToParts(now);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? "0", 10);
+  return part("hour") * 60 + part("minute");
+}
+
+// Quiet hours may wrap midnight (22:00-07:00); the end minute is outside them
+export function inQuietHours(settings: EmailDigestSettings, now = new Date()): boolean {
+  if (!settings.quietHours) return false;
+  const minutes = (time: string) => parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(3), 10);
+  const start = minutes(settings.quietHours.start);
+  const end = minutes(settings.quietHours.end);
+  const current = localMinutes(settings.timezone, now);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+// Turn digests off, from the unsubscribe link
+export function unsubscribe(db: Database, userId: number) {
+  const row = db.query("SELECT preferences FROM users WHERE id = ?").get(userId) as { preferences: string | null } | null;
+  if (!row) return;
+  let preferences: Record<string, unknown> = {};
+  try {
+    preferences = JSON.parse(row.preferences || "{}") as Record<string, unknown>;
+  } catch {
+    // Unreadable preferences are replaced
+  }
+  preferences.emailDigest = { ...emailDigestSettings(row.preferences), cadence: "off" };
+  db.query("UPDATE users SET preferences = ? WHERE id = ?").run(JSON.stringify(preferences), userId);
+}
+
+// =============================================================================
+// SIGNED LINKS
+// =============================================================================
+
+/**
+ * The key that signs email links: EMAIL_LINK_SECRET if set, otherwise one
+ * generated on first use and kept in app_secrets, so the cron job and the
+ * server agree without any setup.
+ */
+export function getLinkSecret(db: Database, env: Record<string, string | undefined> = process.env): string {
+  if (env.EMAIL_LINK_SECRET) return env.EMAIL_LINK_SECRET;
+  db.query("INSERT OR IGNORE INTO app_secrets (name, value) VALUES ('email_links', ?)").run(randomBytes(32).toString("hex"));
+  return (db.query("SELECT value FROM app_secrets WHERE name = 'email_links'").get() as { value: string }).value;
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function signEmailAction(secret: string, claims: EmailActionClaims): string {
+  const payload = Buffer.from(`${claims.action}.${claims.userId}.${claims.ideaId}.${claims.expires}`).toString("base64url");
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+// The token's claims, or null if it's forged, mangled or expired
+export function verifyEmailAction(secret: string, token: string, now = Date.now()): EmailActionClaims | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(secret, payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  const [action, userId, ideaId, expires] = Buffer.from(payload, "base64url").toString().split(".");
+  const claims = { action: action as EmailAction, userId: Number(userId), ideaId: Number(ideaId), expires: Number(expires) };
+  if (!EMAIL_ACTIONS.includes(claims.action) || !Number.isInteger(claims.userId) || !Number.isInteger(claims.ideaId)) return null;
+  return claims.expires * 1000 > now ? claims : null;
+}
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+function lastSentAt(db: Database, userId: number): string | null {
+  const row = db.query("SELECT MAX(sent_at) as sent_at FROM email_digest_log WHERE user_id = ? AND kind = 'scheduled' AND status = 'sent'")
+    .get(userId) as { sent_at: string | null };
+  return row.sent_at;
+}
+
+/**
+ * The user's unswiped, unmuted queue items added after since (all of them
+ * when null), best first, ranked the same way as /api/ideas.
+ */
+export function pendingForEmail(db: Database, userId: number, since: string | null, limit: number): { ideas: EmailIdea[]; total: number } {
+  const rows = db.query(`
+    SELECT i.id, i.title, i.source, i.url, i.category, i.content_type, i.published_at, i.ingested_at,
+           COALESCE(i.generated_summary, i.summary) as summary, up.filter_action
+    FROM user_pending up
+    JOIN ideas i ON i.id = up.idea_id
+    WHERE up.user_id = ?1
+    AND up.idea_id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?1)
+    AND up.filter_action IS NOT 'mute'
+    AND (?2 IS NULL OR up.added_at > ?2)
+    ORDER BY up.added_at DESC
+  `).all(userId, since) as (RankableIdea & { url: string | null; filter_action: string | null })[];
+
+  const model = loadModel(db, userId);
+  const now = Date.now();
+  const ranked = rows.map(({ filter_action, ...idea }) => {
+    const { score } = scoreIdea(model, idea, now);
+    return {
+      id: idea.id,
+      title: idea.title,
+      source: idea.source,
+      url: idea.url,
+      category: idea.category,
+      summary: idea.summary,
+      score: filter_action === "boost" ? Math.min(100, score + FILTER_BOOST_POINTS) : score,
+    };
+  });
+  ranked.sort((a, b) => b.score - a.score);
+  return { ideas: ranked.slice(0, limit), total: ranked.length };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function shorten(text: string | null): string {
+  const clean = (text ?? "").replace(/\s+/g, " ").trim();
+  return clean.length > SUMMARY_CHARS ? clean.substring(0, SUMMARY_CHARS - 1).trimEnd() + "…" : clean;
+}
+
+const FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+function button(href: string, label: string, color: string): string {
+  return `<a href="${escapeHtml(href)}" style="display: inline-block; padding: 8px 16px; margin-right: 8px; border-radius: 6px; background: ${color}; color: #ffffff; font-family: ${FONT}; font-size: 14px; font-weight: 600; text-decoration: none;">${label}</a>`;
+}
+
+export function buildDigestEmail(options: {
+  to: string;
+  userId: number;
+  ideas: EmailIdea[];
+  total: number;
+  baseUrl: string;
+  secret: string;
+  now?: number;
+}): MailMessage {
+  const { ideas, total, baseUrl, secret, userId } = options;
+  const expires = Math.floor((options.now ?? Date.now()) / 1000) + LINK_LIFETIME_DAYS * 86400;
+  const link = (action: EmailAction, ideaId = 0) =>
+    `${baseUrl}/email/action?token=${signEmailAction(secret, { action, userId, ideaId, expires })}`;
+  const unsubscribeUrl = link("unsubscribe");
+  const subject = `${total} new idea${total === 1 ? "" : "s"} waiting in Idea Tinder`;
+  const more = total > ideas.length ? total - ideas.length : 0;
+
+  const text = [
+    `${subject}. The best ${ideas.length === 1 ? "one" : ideas.length}:`,
+    "",
+    ...ideas.flatMap(idea => [
+      `* ${idea.title} (${idea.source})`,
+      ...(idea.url ? [`  ${idea.url}`] : []),
+      ...(idea.summary ? [`  ${shorten(idea.summary)}`] : []),
+      `  Save: ${link("save", idea.id)}`,
+      `  Dismiss: ${link("dismiss", idea.id)}`,
+      "",
+    ]),
+    ...(more ? [`${more} more in the app: ${baseUrl}`, ""] : [`Open Idea Tinder: ${baseUrl}`, ""]),
+    `Stop these emails: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  const cards = ideas.map(idea => `
+          <tr>
+            <td style="padding: 16px 0; border-bottom: 1px solid #eeeeee;">
+              <div style="font-family: ${FONT}; font-size: 17px; font-weight: 600; line-height: 1.35; color: #111111;">${idea.url ? `<a href="${escapeHtml(idea.url)}" style="color: #111111; text-decoration: none;">${escapeHtml(idea.title)}</a>` : escapeHtml(idea.title)}</div>
+              <div style="margin: 4px 0 8px; font-family: ${FONT}; font-size: 13px; color: #888888;">${escapeHtml([idea.source, idea.category].filter(Boolean).join(" · "))} · ${idea.score}% match</div>
+              ${idea.summary ? `<div style="margin-bottom: 12px; font-family: ${FONT}; font-size: 15px; line-height: 1.5; color: #333333;">${escapeHtml(shorten(idea.summary))}</div>` : ""}
+              ${button(link("save", idea.id), "✅ Save", "#0b7a75")}${button(link("dismiss", idea.id), "👎 Dismiss", "#999999")}
+            </td>
+          </tr>`).join("");
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f4f4f4;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background: #f4f4f4;">
+    <tr>
+      <td align="center" style="padding: 24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="width: 100%; max-width: 600px; background: #ffffff; border-radius: 8px; padding: 8px 32px 24px;">
+          <tr>
+            <td style="padding: 24px 0 8px; font-family: ${FONT}; font-size: 22px; font-weight: 700; color: #111111;">💡 ${escapeHtml(subject)}</td>
+          </tr>${cards}
+          <tr>
+            <td style="padding-top: 20px; font-family: ${FONT}; font-size: 14px; color: #333333;">
+              <a href="${escapeHtml(baseUrl)}" style="color: #0b7a75;">${more ? `${more} more in the app →` : "Open Idea Tinder →"}</a>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding-top: 24px; font-family: ${FONT}; font-size: 12px; color: #999999;">
+              You get this because you turned on email digests in Idea Tinder's settings.
+              <a href="${escapeHtml(unsubscribeUrl)}" style="color: #999999;">Stop these emails</a>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+  return {
+    to: options.to,
+    subject,
+    text,
+    html,
+    // One-click unsubscribe (RFC 8058) from the mail client's own button
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+// =============================================================================
+// SENDING
+// =============================================================================
+
+async function deliver(
+  db: Database,
+  transport: MailTransport,
+  user: { id: number; email: string },
+  ideas: { ideas: EmailIdea[]; total: number },
+  kind: "scheduled" | "test",
+  baseUrl: string,
+  now: Date,
+): Promise<boolean> {
+  const message = buildDigestEmail({ to: user.email, userId: user.id, ...ideas, baseUrl, secret: getLinkSecret(db), now: now.getTime() });
+  try {
+    await transport.send(message);
+    db.query("INSERT INTO email_digest_log (user_id, kind, status, idea_count, sent_at) VALUES (?, ?, 'sent', ?, ?)")
+      .run(user.id, kind, ideas.ideas.length, now.toISOString().replace("T", " ").substring(0, 19));
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    db.query("INSERT INTO email_digest_log (user_id, kind, status, idea_count, error, sent_at) VALUES (?, ?, 'failed', ?, ?, ?)")
+      .run(user.id, kind, ideas.ideas.length, reason, now.toISOString().replace("T", " ").substring(0, 19));
+    console.log(`   ⚠ ${transport.name} failed for ${user.email}: ${reason}`);
+    return false;
+  }
+}
+
+/**
+ * Email every opted-in user whose cadence has come round, outside their
+ * quiet hours, if anything new reached their queue since the last email.
+ */
+export async function sendDueDigests(
+  db: Database,
+  transport: MailTransport,
+  options: { baseUrl: string; now?: Date },
+): Promise<{ sent: number; skipped: number; failed: number }> {
+  const now = options.now ?? new Date();
+  const users = db.query(`
+    SELECT id, email, preferences FROM users
+    WHERE json_valid(preferences) AND json_extract(preferences, '$.emailDigest.cadence') IN ('daily', 'weekly')
+  `).all() as { id: number; email: string; preferences: string }[];
+  const result = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const user of users) {
+    const settings = emailDigestSettings(user.preferences);
+    if (settings.cadence === "off") continue;
+    const last = lastSentAt(db, user.id);
+    const interval = (CADENCE_HOURS[settings.cadence] * 60 - CADENCE_SLACK_MINUTES) * 60000;
+    if ((last && now.getTime() - Date.parse(last.replace(" ", "T") + "Z") < interval) || inQuietHours(settings, now)) {
+      result.skipped++;
+      continue;
+    }
+    const pending = pendingForEmail(db, user.id, last, settings.maxItems);
+    if (pending.total === 0) {
+      result.skipped++;
+      continue;
+    }
+    if (await deliver(db, transport, user, pending, "scheduled", options.baseUrl, now)) result.sent++;
+    else result.failed++;
+  }
+  return result;
+}
+
+// Send a digest of the current queue right away, whatever the schedule says
+export async function sendTestDigest(db: Database, transport: MailTransport, userId: number, baseUrl: string) {
+  const user = db.query("SELECT id, email, preferences FROM users WHERE id = ?").get(userId) as { id: number; email: string; preferences: string };
+  const pending = pendingForEmail(db, userId, null, emailDigestSettings(user.preferences).maxItems);
+  if (pending.total === 0) throw new EmailDigestError("Your queue is empty, so there's nothing to send");
+  if (!await deliver(db, transport, user, pending, "test", baseUrl, new Date())) {
+    throw new EmailDigestError(`Sending through ${transport.name} failed; see email_digest_log`, 502);
+  }
+  return { sent: pending.ideas.length, to: user.email };
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const transport = getMailTransport();
+  if (!transport) {
+    console.log("✉️  Mail is off (MAIL_TRANSPORT=none)");
+  } else {
+    const db = new Database("/home/eli/idea-tinder/ideas.db");
+    const baseUrl = process.env.BASE_URL || "https://idea-tinder.eli-inside.ai";
+    sendDueDigests(db, transport, { baseUrl })
+      .then(({ sent, skipped, failed }) => console.log(`✉️  ${transport.name}: ${sent} sent, ${skipped} not due or nothing new, ${failed} failed`))
+      .catch(console.error);
+  }
+}
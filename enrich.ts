@@ -0,0 +1,137 @@
+/**
+ * Idea Tinder - Link Enrichment
+ *
+ * Reads Open Graph / Twitter card metadata from an idea's page, plus oEmbed
+ * for video hosts, so cards can show a thumbnail, the site's name and
+ * favicon, and a video's length. The page itself is fetched by ingestion
+ * while resolving canonical URLs; this module only parses.
+ */
+
+import { decodeEntities } from "./feed-parser";
+import { findCanonicalLink } from "./dedupe";
+
+const OEMBED_TIMEOUT_MS = 5000;
+
+export interface PageMeta {
+  canonical: string | null;
+  image: string | null;
+  siteName: string | null;
+  type: string | null;            // og:type, or "video" from oEmbed
+  durationSeconds: number | null;
+  favicon: string | null;
+  isPaper: boolean;               // carries Highwire/Google Scholar citation tags
+}
+
+function resolve(href: string | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// "PT1H2M3S" -> 3723
+export function parseIsoDuration(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || !match.slice(1).some(Boolean)) return null;
+  const [, days, hours, minutes, seconds] = match;
+  return Math.round(
+    Number(days ?? 0) * 86400 + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)
+  );
+}
+
+/**
+ * Pull card metadata out of a page's <meta> and <link> tags. Only the first
+ * occurrence of each property counts, which is what scrapers like Slack's do.
+ */
+export function parsePageMeta(html: string, pageUrl: string): PageMeta {
+  const meta = new Map<string, string>();
+  const icons: { rel: string; href: string; sizes: number }[] = [];
+
+  for (const tag of html.matchAll(/<(meta|link)\b[^>]*>/gi)) {
+    const attrs: Record<string, string> = {};
+    for (const attr of tag[0].matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+      attrs[attr[1]!.toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? "");
+    }
+    if (tag[1]!.toLowerCase() === "meta") {
+      const key = (attrs.property || attrs.name || attrs.itemprop || "").toLowerCase();
+      if (key && attrs.content?.trim() && !meta.has(key)) meta.set(key, attrs.content.trim());
+    } else {
+      const rel = (attrs.rel || "").toLowerCase();
+      if (attrs.href && /(^|\s)(icon|apple-touch-icon)(\s|$)/.test(rel)) {
+        icons.push({ rel, href: attrs.href, sizes: parseInt(attrs.sizes || "0", 10) || 0 });
+      }
+    }
+  }
+
+  // Prefer a small real favicon over a large touch icon
+  icons.sort((a, b) => Number(a.rel.includes("apple")) - Number(b.rel.includes("apple")) || a.sizes - b.sizes);
+  const favicon = resolve(icons[0]?.href, pageUrl) ?? resolve("/favicon.ico", pageUrl);
+
+  const duration = meta.get("og:video:duration") ?? meta.get("video:duration");
+  return {
+    canonical: findCanonicalLink(html, pageUrl),
+    image: resolve(meta.get("og:image") ?? meta.get("og:image:url") ?? meta.get("twitter:image") ?? meta.get("twitter:image:src"), pageUrl),
+    siteName: meta.get("og:site_name") ?? meta.get("application-name") ?? null,
+    type: meta.get("og:type")?.toLowerCase() ?? null,
+    durationSeconds: duration && /^\d+$/.test(duration) ? parseInt(duration, 10) : parseIsoDuration(meta.get("duration")),
+    favicon,
+    isPaper: meta.has("citation_title") || meta.has("citation_doi") || meta.has("citation_pdf_url"),
+  };
+}
+
+// oEmbed endpoints for the video hosts we know; null for everything else
+export function oembedEndpoint(link: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.replace(/^(www|m)\./, "");
+  if (host === "youtube.com" || host === "youtu.be") {
+    return `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(link)}`;
+  }
+  if (host === "vimeo.com") {
+    return `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(link)}`;
+  }
+  return null;
+}
+
+/**
+ * Fill gaps in page metadata from the link's oEmbed response. YouTube's
+ * oEmbed has no duration; Vimeo's does.
+ */
+export async function fetchOEmbed(link: string, meta: PageMeta): Promise<PageMeta> {
+  const endpoint = oembedEndpoint(link);
+  if (!endpoint) return meta;
+  try {
+    const response = await fetch(endpoint, {
+      headers: { "User-Agent": "IdeaTinder/1.0 (news aggregator)" },
+      signal: AbortSignal.timeout(OEMBED_TIMEOUT_MS),
+    });
+    if (!response.ok) return meta;
+    const data = await response.json() as {
+      type?: string; provider_name?: string; thumbnail_url?: string; duration?: number;
+    };
+    return {
+      ...meta,
+      image: meta.image ?? resolve(data.thumbnail_url, link),
+      siteName: meta.siteName ?? data.provider_name ?? null,
+      type: data.type === "video" ? "video" : meta.type,
+      durationSeconds: meta.durationSeconds ?? (typeof data.duration === "number" ? Math.round(data.duration) : null),
+    };
+  } catch {
+    return meta;
+  }
+}
+
+// What the metadata says about the content type, when it says anything
+export function contentTypeFromMeta(meta: PageMeta | null | undefined): "video" | "paper" | null {
+  if (!meta) return null;
+  if (meta.type?.startsWith("video") || meta.durationSeconds) return "video";
+  if (meta.isPaper) return "paper";
+  return null;
+}
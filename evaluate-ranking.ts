@@ -0,0 +1,105 @@
+#!/usr/bin/env bun
+/**
+ * Idea Tinder - Ranking Evaluation
+ *
+ * Replays historical swipes to measure how well the queue ranking
+ * (ranking.ts) would have done. For each user, swipes are grouped into
+ * days and walked in order: each day's swiped ideas are ranked with a model
+ * trained only on earlier days, then the model learns that day's swipes.
+ *
+ * Reports precision@k (how many of the top k were saved) for the ranking
+ * versus the old newest-first order, plus the users' base save rate.
+ *
+ * Usage: bun evaluate-ranking.ts [--k 5] [--user <id>]
+ * Read-only; nothing in the database changes.
+ */
+
+import { Database } from "bun:sqlite";
+import { newModel, learn, ideaFeatures, scoreIdea, type RankableIdea } from "./ranking";
+
+const db = new Database("/home/eli/idea-tinder/ideas.db", { readonly: true });
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const K = parseInt(argValue("--k") || "5", 10);
+const ONLY_USER = argValue("--user");
+const MIN_HISTORY = 10;   // don't score days until the model has seen this many swipes
+
+type Swipe = RankableIdea & { direction: string; swiped_at: string };
+
+interface Tally {
+  days: number;
+  ranked: number;      // saved ideas among the ranking's top k
+  baseline: number;    // saved ideas among the newest-first top k
+  slots: number;       // sum of k over scored days
+  saves: number;
+  swipes: number;
+}
+
+function precision(hits: number, slots: number): string {
+  return slots === 0 ? "  n/a" : `${(100 * hits / slots).toFixed(1)}%`.padStart(6);
+}
+
+function evaluateUser(userId: number): Tally {
+  const swipes = db.query(`
+    SELECT i.id, i.title, i.summary, i.source, i.category, i.content_type, i.published_at, i.ingested_at,
+           s.direction, s.swiped_at
+    FROM swipes s JOIN ideas i ON i.id = s.idea_id
+    WHERE s.user_id = ?
+    ORDER BY s.swiped_at, s.id
+  `).all(userId) as Swipe[];
+
+  const days = new Map<string, Swipe[]>();
+  for (const swipe of swipes) {
+    const day = swipe.swiped_at.substring(0, 10);
+    if (!days.has(day)) days.set(day, []);
+    days.get(day)!.push(swipe);
+  }
+
+  const tally: Tally = { days: 0, ranked: 0, baseline: 0, slots: 0, saves: 0, swipes: swipes.length };
+  const model = newModel();
+  for (const [day, daySwipes] of days) {
+    if (model.swipes >= MIN_HISTORY && daySwipes.length > K) {
+      // Score as of the start of that day, so freshness matches what the queue would have shown
+      const now = new Date(`${day}T00:00:00Z`).getTime();
+      const ranked = [...daySwipes].sort((a, b) => scoreIdea(model, b, now).score - scoreIdea(model, a, now).score);
+      const newestFirst = [...daySwipes].sort((a, b) => (b.ingested_at ?? "").localeCompare(a.ingested_at ?? ""));
+      tally.days++;
+      tally.slots += K;
+      tally.ranked += ranked.slice(0, K).filter(s => s.direction === "right").length;
+      tally.baseline += newestFirst.slice(0, K).filter(s => s.direction === "right").length;
+    }
+    for (const swipe of daySwipes) learn(model, ideaFeatures(swipe), swipe.direction === "right");
+  }
+  tally.saves = swipes.filter(s => s.direction === "right").length;
+  return tally;
+}
+
+const users = (ONLY_USER
+  ? [{ id: parseInt(ONLY_USER, 10), email: "" }]
+  : db.query("SELECT id, email FROM users ORDER BY id").all()) as { id: number; email: string }[];
+
+console.log(`📊 Ranking evaluation (precision@${K})\n`);
+console.log("User".padEnd(32) + "Days  Ranked  Newest  Base rate");
+const total: Tally = { days: 0, ranked: 0, baseline: 0, slots: 0, saves: 0, swipes: 0 };
+for (const user of users) {
+  const tally = evaluateUser(user.id);
+  if (tally.swipes === 0) continue;
+  for (const key of Object.keys(total) as (keyof Tally)[]) total[key] += tally[key];
+  console.log(
+    `${user.id} ${user.email}`.substring(0, 31).padEnd(32) +
+    String(tally.days).padStart(4) + "  " + precision(tally.ranked, tally.slots) + "  " +
+    precision(tally.baseline, tally.slots) + "  " + precision(tally.saves, tally.swipes)
+  );
+}
+console.log("━".repeat(60));
+console.log(
+  "All users".padEnd(32) + String(total.days).padStart(4) + "  " + precision(total.ranked, total.slots) + "  " +
+  precision(total.baseline, total.slots) + "  " + precision(total.saves, total.swipes)
+);
+if (total.days === 0) {
+  console.log(`\nNo days to score yet: need ${MIN_HISTORY}+ earlier swipes and more than ${K} swipes in a day.`);
+}
@@ -0,0 +1,287 @@
+/**
+ * Idea Tinder - Article Extraction
+ *
+ * Pulls the readable main content out of an article page, Readability style:
+ * paragraphs score their ancestors, the best-scoring container wins, and its
+ * subtree is re-serialized through a tag whitelist so it's safe to render.
+ * Also picks up the title, byline and lead image from the page's metadata.
+ */
+
+import { decodeEntities } from "./feed-parser";
+
+const WORDS_PER_MINUTE = 230;
+const MIN_PARAGRAPH_CHARS = 25;
+const MIN_ARTICLE_CHARS = 250;
+
+export interface ExtractedArticle {
+  title: string;
+  byline: string | null;
+  leadImage: string | null;
+  contentHtml: string;   // sanitized, safe to drop into the page
+  text: string;
+  wordCount: number;
+  readingMinutes: number;
+}
+
+// =============================================================================
+// HTML TREE
+// =============================================================================
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlChild[];
+  parent: HtmlElement | null;
+}
+type HtmlChild = HtmlElement | string;
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title", "noscript"]);
+const BLOCK_TAGS = new Set(["p", "div", "li", "h1", "h2", "h3", "h4", "h5", "h6", "tr", "td", "th", "blockquote", "pre", "section", "article", "figcaption", "ul", "ol"]);
+// Opening one of these closes an open <p>, as browsers do
+const CLOSES_P = new Set(["p", "div", "ul", "ol", "table", "h1", "h2", "h3", "h4", "h5", "h6", "pre", "blockquote", "section", "article", "figure", "header", "footer"]);
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[match[1]!.toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+// A forgiving HTML parser: unknown end tags are ignored, unclosed ones close with their parent
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [], parent: null };
+  let current = root;
+  const lower = html.toLowerCase();
+  const tagPattern = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html))) {
+    if (match.index > last) current.children.push(html.slice(last, match.index));
+    last = tagPattern.lastIndex;
+    if (!match[2]) continue; // comment, doctype, processing instruction
+
+    const tag = match[2].toLowerCase();
+    if (match[1]) {
+      // Close the nearest open element with this name, if there is one
+      for (let node: HtmlElement | null = current; node && node !== root; node = node.parent) {
+        if (node.tag === tag) {
+          current = node.parent!;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (CLOSES_P.has(tag)) {
+      for (let node: HtmlElement | null = current; node && node !== root; node = node.parent) {
+        if (node.tag === "p") {
+          current = node.parent!;
+          break;
+        }
+        if (node.tag !== "span" && node.tag !== "a" && node.tag !== "em" && node.tag !== "strong") break;
+      }
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttrs(match[3] ?? ""), children: [], parent: current };
+    current.children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lower.indexOf(`</${tag}`, last);
+      const stop = end === -1 ? html.length : end;
+      element.children.push(html.slice(last, stop));
+      const close = html.indexOf(">", stop);
+      last = tagPattern.lastIndex = close === -1 ? html.length : close + 1;
+    } else if (!VOID_TAGS.has(tag) && !match[3]?.trim().endsWith("/")) {
+      current = element;
+    }
+  }
+  if (last < html.length) current.children.push(html.slice(last));
+  return root;
+}
+
+function* elements(node: HtmlElement): Generator<HtmlElement> {
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    yield child;
+    yield* elements(child);
+  }
+}
+
+function textOf(node: HtmlChild): string {
+  if (typeof node === "string") return decodeEntities(node);
+  if (RAW_TEXT_TAGS.has(node.tag)) return "";
+  if (node.tag === "br") return "\n";
+  const inner = node.children.map(textOf).join("");
+  return BLOCK_TAGS.has(node.tag) ? `${inner}\n` : inner;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// =============================================================================
+// METADATA
+// =============================================================================
+function metaContent(root: HtmlElement, ...keys: string[]): string | null {
+  const metas = [...elements(root)].filter(el => el.tag === "meta");
+  for (const key of keys) {
+    const meta = metas.find(el => (el.attrs.property ?? el.attrs.name ?? "").toLowerCase() === key && el.attrs.content?.trim());
+    if (meta) return meta.attrs.content!.trim();
+  }
+  return null;
+}
+
+function resolve(href: string | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function findByline(root: HtmlElement): string | null {
+  const meta = metaContent(root, "author", "article:author", "parsely-author", "sailthru.author", "twitter:creator");
+  if (meta && !/^https?:/.test(meta)) return meta;
+
+  for (const el of elements(root)) {
+    const marker = `${el.attrs.rel ?? ""} ${el.attrs.class ?? ""} ${el.attrs.itemprop ?? ""}`.toLowerCase();
+    if (/\b(author|byline)\b/.test(marker)) {
+      const text = cleanText(textOf(el)).replace(/^by\s+/i, "");
+      if (text && text.length < 100) return text;
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// CONTENT SCORING
+// =============================================================================
+const UNLIKELY = /\b(comment|sidebar|footer|nav|menu|share|social|related|promo|advert|ad-|sponsor|newsletter|subscribe|cookie|popup|modal|breadcrumb|widget)/i;
+const LIKELY = /\b(article|content|entry|post|story|main|body|text|prose)/i;
+const DROP_TAGS = new Set(["script", "style", "noscript", "iframe", "form", "nav", "aside", "footer", "svg", "canvas", "button", "select", "input", "template", "object", "embed"]);
+
+function classWeight(el: HtmlElement): number {
+  const marker = `${el.attrs.class ?? ""} ${el.attrs.id ?? ""}`;
+  let weight = 0;
+  if (UNLIKELY.test(marker)) weight -= 25;
+  if (LIKELY.test(marker)) weight += 25;
+  return weight;
+}
+
+function linkDensity(el: HtmlElement): number {
+  const text = cleanText(textOf(el)).length;
+  if (text === 0) return 0;
+  let linked = 0;
+  for (const child of elements(el)) if (child.tag === "a") linked += cleanText(textOf(child)).length;
+  return linked / text;
+}
+
+function pickContentRoot(root: HtmlElement): HtmlElement | null {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const el of elements(root)) {
+    if (el.tag !== "p" && el.tag !== "pre" && el.tag !== "td") continue;
+    const text = cleanText(textOf(el));
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+
+    const score = 1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent;
+    const grandparent = parent?.parent;
+    for (const [ancestor, share] of [[parent, 1], [grandparent, 0.5]] as const) {
+      if (!ancestor || ancestor.tag === "#root") continue;
+      if (!scores.has(ancestor)) scores.set(ancestor, classWeight(ancestor) + (ancestor.tag === "article" ? 10 : 0));
+      scores.set(ancestor, scores.get(ancestor)! + score * share);
+    }
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+// =============================================================================
+// SANITIZED OUTPUT
+// =============================================================================
+const KEEP_TAGS = new Set([
+  "p", "br", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "code",
+  "em", "strong", "b", "i", "a", "img", "figure", "figcaption", "table", "thead", "tbody", "tr", "th", "td", "hr",
+]);
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function serialize(node: HtmlChild, base: string): string {
+  if (typeof node === "string") return escapeHtml(decodeEntities(node));
+  if (DROP_TAGS.has(node.tag) || UNLIKELY.test(`${node.attrs.class ?? ""} ${node.attrs.id ?? ""}`) && linkDensity(node) > 0.3) {
+    return "";
+  }
+
+  // h1 is the page title, which the reader view shows separately
+  if (node.tag === "h1") return "";
+  const inner = node.children.map(child => serialize(child, base)).join("");
+  const tag = node.tag;
+  if (!KEEP_TAGS.has(tag)) {
+    return /^(div|section|article|main|header|tr|li)$/.test(node.tag) && inner.trim() ? `${inner}\n` : inner;
+  }
+
+  if (tag === "img") {
+    const src = resolve(node.attrs["data-src"] || node.attrs.src, base);
+    return src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(node.attrs.alt ?? "")}" loading="lazy">` : "";
+  }
+  if (tag === "br" || tag === "hr") return `<${tag}>`;
+  if (tag === "a") {
+    const href = resolve(node.attrs.href, base);
+    return href ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener">${inner}</a>` : inner;
+  }
+  if (tag === "p" && !inner.trim()) return "";
+  return `<${tag}>${inner}</${tag}>`;
+}
+
+/**
+ * Extract the readable article from a page. Returns null when nothing on the
+ * page looks like running text (link hubs, app shells, video pages).
+ */
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle | null {
+  const root = parseHtml(html);
+  const baseHref = [...elements(root)].find(el => el.tag === "base")?.attrs.href;
+  const base = resolve(baseHref, pageUrl) ?? pageUrl;
+
+  const content = pickContentRoot(root);
+  if (!content) return null;
+  const text = cleanText(textOf(content));
+  if (text.length < MIN_ARTICLE_CHARS) return null;
+
+  const h1 = [...elements(root)].find(el => el.tag === "h1");
+  const titleTag = [...elements(root)].find(el => el.tag === "title");
+  const title = cleanText(
+    metaContent(root, "og:title", "twitter:title")
+    ?? (h1 ? textOf(h1) : null)
+    ?? (titleTag ? decodeEntities(titleTag.children.join("")) : "")
+  );
+
+  const contentHtml = serialize(content, base).replace(/\n{2,}/g, "\n").trim();
+  const firstImage = contentHtml.match(/<img src="([^"]+)"/)?.[1]?.replace(/&amp;/g, "&");
+  const wordCount = text.split(" ").filter(Boolean).length;
+
+  return {
+    title,
+    byline: findByline(root),
+    leadImage: resolve(metaContent(root, "og:image", "twitter:image", "twitter:image:src") ?? undefined, base) ?? firstImage ?? null,
+    contentHtml,
+    text,
+    wordCount,
+    readingMinutes: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+  };
+}
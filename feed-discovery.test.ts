@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { discoverFeeds, FeedDiscoveryError, findFeedLinks, normalizeInputUrl, previewFeed } from "./feed-discovery";
+
+// An IP literal skips DNS, so the guard passes it without network access
+const PUBLIC_URL = "http://93.184.216.34/feed";
+
+afterEach(() => mock.restore());
+
+// Answer every fetch with `respond()`
+const stubFetch = (respond: () => Response) =>
+  spyOn(globalThis, "fetch").mockImplementation((async () => respond()) as unknown as typeof fetch);
+
+describe("normalizeInputUrl", () => {
+  test("adds https to bare domains and rejects other schemes", () => {
+    expect(normalizeInputUrl(" bun.sh/blog ")).toBe("https://bun.sh/blog");
+    expect(() => normalizeInputUrl("ftp://example.com/feed")).toThrow(FeedDiscoveryError);
+  });
+});
+
+describe("findFeedLinks", () => {
+  test("resolves advertised feeds against <base href>", () => {
+    const html = `<head><base href="https://example.com/blog/">
+      <link rel="alternate" type="application/rss+xml" href="feed.xml?a=1&amp;b=2">
+      <link rel="stylesheet" href="style.css"></head>`;
+    expect(findFeedLinks(html, "https://example.com/")).toEqual(["https://example.com/blog/feed.xml?a=1&b=2"]);
+  });
+});
+
+describe("internal hosts", () => {
+  test("previewFeed refuses loopback and private URLs", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch");
+    for (const url of ["http://127.0.0.1/", "localhost:3001/feed", "http://192.168.1.1/rss"]) {
+      const preview = await previewFeed(url);
+      expect(preview.ok).toBe(false);
+      expect(preview.errors[0]).toStartWith("Refusing to fetch internal host");
+      expect(preview.items).toEqual([]);
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test("previewFeed refuses a redirect to an internal host", async () => {
+    const fetchSpy = stubFetch(() =>
+      new Response(null, { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data/" } }));
+    const preview = await previewFeed(PUBLIC_URL);
+    expect(preview.ok).toBe(false);
+    expect(preview.errors).toEqual(["Refusing to fetch internal host 169.254.169.254"]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("discoverFeeds refuses internal URLs", async () => {
+    await expect(discoverFeeds("http://127.0.0.1/")).rejects.toThrow(FeedDiscoveryError);
+  });
+});
+
+describe("previewFeed", () => {
+  test("previews a public feed", async () => {
+    stubFetch(() => new Response(
+      `<?xml version="1.0"?><rss version="2.0"><channel><title>Notes</title>
+        <item><title>Hello</title><link>https://example.com/hello</link><pubDate>${new Date().toUTCString()}</pubDate></item>
+      </channel></rss>`,
+      { headers: { "content-type": "application/rss+xml" } }
+    ));
+    const preview = await previewFeed(PUBLIC_URL);
+    expect(preview).toMatchObject({ ok: true, format: "rss", title: "Notes", itemCount: 1, errors: [], warnings: [] });
+    expect(preview.items[0]!.link).toBe("https://example.com/hello");
+  });
+});
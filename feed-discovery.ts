@@ -0,0 +1,299 @@
+/**
+ * Idea Tinder - Feed Autodiscovery
+ *
+ * Turns whatever the user pasted (a feed URL, a blog URL, a bare domain)
+ * into a list of working feeds. Candidates come from the page's
+ * <link rel="alternate"> tags, falling back to common feed paths, and each
+ * one is fetched and run through the feed parser before it's offered.
+ */
+
+import { parseFeed, type FeedFormat } from "./feed-parser";
+import { fetchPublic, readLimited, UnsafeUrlError } from "./public-url";
+
+const USER_AGENT = "IdeaTinder/1.0 (news aggregator)";
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;   // big podcast feeds run to a few MB
+const MAX_CANDIDATES = 8;
+
+const FEED_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/json",
+  "application/rdf+xml",
+];
+
+// Tried in order when a page advertises no feeds
+const COMMON_FEED_PATHS = ["feed", "rss", "feed.xml", "rss.xml", "atom.xml", "index.xml", "feed.json"];
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string;
+  format: FeedFormat;
+  itemCount: number;
+}
+
+export class FeedDiscoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedDiscoveryError";
+  }
+}
+
+export interface FetchedDocument {
+  url: string;           // final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+// Accept "bun.sh/blog" as well as full URLs
+export function normalizeInputUrl(input: string): string {
+  const trimmed = input.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new FeedDiscoveryError("That doesn't look like a valid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new FeedDiscoveryError("Only http and https URLs are supported");
+  }
+  return url.toString();
+}
+
+export async function fetchDocument(url: string): Promise<FetchedDocument> {
+  let fetched: { response: Response; url: string };
+  try {
+    fetched = await fetchPublic(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        "Accept": "application/rss+xml, application/atom+xml, application/feed+json, text/html;q=0.9, */*;q=0.8",
+      },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) throw new FeedDiscoveryError(error.message);
+    const message = error instanceof Error && error.name === "TimeoutError"
+      ? `Timed out after ${FETCH_TIMEOUT_MS / 1000}s`
+      : `Could not reach ${new URL(url).host}`;
+    throw new FeedDiscoveryError(message);
+  }
+  const { response } = fetched;
+  return {
+    url: fetched.url,
+    status: response.status,
+    contentType: response.headers.get("content-type") || "",
+    body: await readLimited(response, MAX_DOCUMENT_BYTES),
+  };
+}
+
+/**
+ * Feed links advertised by an HTML page, resolved against the page URL
+ * (or its <base href>).
+ */
+export function findFeedLinks(html: string, pageUrl: string): string[] {
+  const baseMatch = html.match(/<base\b[^>]*href\s*=\s*["']([^"']+)["']/i);
+  let base = pageUrl;
+  if (baseMatch) {
+    try {
+      base = new URL(baseMatch[1]!, pageUrl).toString();
+    } catch {
+      // Keep the page URL
+    }
+  }
+
+  const links: string[] = [];
+  for (const tag of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attrs: Record<string, string> = {};
+    for (const attr of tag[0].matchAll(/([a-z-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+      attrs[attr[1]!.toLowerCase()] = attr[2] ?? attr[3] ?? attr[4] ?? "";
+    }
+    const rel = (attrs.rel || "").toLowerCase().split(/\s+/);
+    const type = (attrs.type || "").toLowerCase().split(";")[0]!.trim();
+    if (!rel.includes("alternate") || !FEED_TYPES.includes(type) || !attrs.href) continue;
+    try {
+      const resolved = new URL(attrs.href.replace(/&amp;/g, "&"), base).toString();
+      if (!links.includes(resolved)) links.push(resolved);
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  }
+  return links;
+}
+
+function guessFeedUrls(pageUrl: string): string[] {
+  const url = new URL(pageUrl);
+  const dirs = new Set([`${url.origin}/`]);
+  if (url.pathname !== "/") dirs.add(`${url.origin}${url.pathname.replace(/\/?$/, "/")}`);
+  return [...dirs].reverse().flatMap(dir => COMMON_FEED_PATHS.map(path => dir + path));
+}
+
+async function validateCandidate(url: string): Promise<DiscoveredFeed | null> {
+  try {
+    const doc = await fetchDocument(url);
+    if (doc.status < 200 || doc.status >= 300) return null;
+    const feed = parseFeed(doc.body, doc.url);
+    return { url, title: feed.title, format: feed.format, itemCount: feed.items.length };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the feeds behind a URL. Returns a single entry when the URL is itself
+ * a feed, every valid advertised feed for an HTML page, and an empty list
+ * when nothing usable turns up.
+ */
+export async function discoverFeeds(input: string): Promise<DiscoveredFeed[]> {
+  const url = normalizeInputUrl(input);
+  const doc = await fetchDocument(url);
+  if (doc.status < 200 || doc.status >= 300) {
+    throw new FeedDiscoveryError(`HTTP ${doc.status} from ${new URL(doc.url).host}`);
+  }
+
+  // The URL may already be a feed
+  try {
+    const feed = parseFeed(doc.body, doc.url);
+    return [{ url: doc.url, title: feed.title, format: feed.format, itemCount: feed.items.length }];
+  } catch {
+    // Not a feed; look for advertised ones
+  }
+
+  const advertised = findFeedLinks(doc.body, doc.url).slice(0, MAX_CANDIDATES);
+  if (advertised.length > 0) {
+    const results = await Promise.all(advertised.map(validateCandidate));
+    const feeds = results.filter((feed): feed is DiscoveredFeed => feed !== null);
+    if (feeds.length > 0) return feeds;
+  }
+
+  // Nothing advertised (or nothing that parsed): try the usual suspects, one at a time
+  for (const candidate of guessFeedUrls(doc.url)) {
+    const feed = await validateCandidate(candidate);
+    if (feed) return [feed];
+  }
+  return [];
+}
+
+// =============================================================================
+// PREVIEW
+// =============================================================================
+const PREVIEW_ITEM_COUNT = 5;
+const STALE_AFTER_DAYS = 90;
+
+export interface FeedPreview {
+  url: string;                    // the URL that would be saved
+  ok: boolean;
+  format?: FeedFormat;
+  title?: string;
+  itemCount: number;
+  items: { title: string; link: string; pubDate?: string }[];
+  errors: string[];
+  warnings: string[];
+  candidates?: DiscoveredFeed[];  // set when a page offers several feeds
+}
+
+function looksLikeHtml(doc: FetchedDocument): boolean {
+  return doc.contentType.includes("html") && !doc.contentType.includes("xhtml+xml")
+    || /^\s*(<!doctype html|<html)/i.test(doc.body);
+}
+
+/**
+ * Fetch and parse a candidate feed without subscribing, reporting what a user
+ * should know first: format, title, the newest few items, and anything that
+ * will make the feed misbehave (wrong content type, undated items, a web page
+ * instead of a feed).
+ */
+export async function previewFeed(input: string): Promise<FeedPreview> {
+  const preview: FeedPreview = { url: input, ok: false, itemCount: 0, items: [], errors: [], warnings: [] };
+
+  let doc: FetchedDocument;
+  try {
+    preview.url = normalizeInputUrl(input);
+    doc = await fetchDocument(preview.url);
+  } catch (error) {
+    preview.errors.push(error instanceof Error ? error.message : String(error));
+    return preview;
+  }
+
+  if (doc.status < 200 || doc.status >= 300) {
+    preview.errors.push(`HTTP ${doc.status} from ${new URL(doc.url).host}`);
+    return preview;
+  }
+  if (doc.url !== preview.url) {
+    preview.warnings.push(`Redirected to ${doc.url}; that URL will be saved instead`);
+    preview.url = doc.url;
+  }
+
+  let feed;
+  try {
+    feed = parseFeed(doc.body, doc.url);
+  } catch (error) {
+    if (!looksLikeHtml(doc)) {
+      preview.errors.push(error instanceof Error ? error.message : String(error));
+      return preview;
+    }
+
+    // A web page: see whether it points at a feed we can preview instead
+    let feeds: DiscoveredFeed[] = [];
+    try {
+      feeds = await discoverFeeds(doc.url);
+    } catch {
+      // Treated as "no feeds found" below
+    }
+    if (feeds.length === 1 && feeds[0]!.url !== doc.url) {
+      const inner = await previewFeed(feeds[0]!.url);
+      inner.warnings.unshift(`${doc.url} is a web page; using its feed at ${inner.url}`);
+      return inner;
+    }
+    if (feeds.length > 1) {
+      preview.warnings.push(`${doc.url} is a web page with ${feeds.length} feeds; pick one`);
+      preview.candidates = feeds;
+      return preview;
+    }
+    preview.errors.push("Got an HTML page instead of a feed, and no feed links were found on it");
+    return preview;
+  }
+
+  preview.ok = true;
+  preview.format = feed.format;
+  preview.title = feed.title;
+  preview.itemCount = feed.items.length;
+
+  const contentType = doc.contentType.split(";")[0]!.trim().toLowerCase();
+  if (!contentType) {
+    preview.warnings.push("Server sent no Content-Type header");
+  } else if (feed.format === "json" ? !contentType.includes("json") : !contentType.includes("xml")) {
+    preview.warnings.push(`Served as ${contentType} rather than ${feed.format === "json" ? "application/feed+json" : `application/${feed.format === "atom" ? "atom" : "rss"}+xml`}`);
+  }
+
+  if (!feed.title) preview.warnings.push("Feed has no title; enter a name yourself");
+  if (feed.items.length === 0) preview.warnings.push("Feed has no items yet");
+
+  const unusable = feed.items.filter(item => !item.title || !item.link).length;
+  if (unusable > 0) {
+    preview.warnings.push(`${unusable} of ${feed.items.length} items have no title or link and will be skipped`);
+  }
+
+  const undated = feed.items.filter(item => !item.pubDate).length;
+  if (undated > 0) {
+    preview.warnings.push(undated === feed.items.length
+      ? "No items have dates; they'll be dated by when Idea Tinder first sees them"
+      : `${undated} of ${feed.items.length} items have no date`);
+  }
+
+  const sorted = [...feed.items].sort((a, b) => (b.pubDate?.getTime() ?? 0) - (a.pubDate?.getTime() ?? 0));
+  const newest = sorted[0]?.pubDate;
+  if (newest && Date.now() - newest.getTime() > STALE_AFTER_DAYS * 24 * 60 * 60 * 1000) {
+    preview.warnings.push(`Newest item is from ${newest.toISOString().split("T")[0]}; the feed may be inactive`);
+  }
+
+  preview.items = sorted.slice(0, PREVIEW_ITEM_COUNT).map(item => ({
+    title: item.title,
+    link: item.link,
+    pubDate: item.pubDate?.toISOString(),
+  }));
+
+  return preview;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { decodeEntities, FeedParseError, parseFeed } from "./feed-parser";
+
+const fixture = (name: string) => Bun.file(`${import.meta.dir}/fixtures/feeds/${name}`).text();
+
+describe("decodeEntities", () => {
+  test("decodes decimal, hex and named entities", () => {
+    expect(decodeEntities("Caf&#233; &#x2014; &#8220;hi&#8221; &amp; &hellip;")).toBe("Café — “hi” & …");
+  });
+
+  test("leaves unknown and out-of-range entities alone", () => {
+    expect(decodeEntities("&bogus; &#0; &#x110000;")).toBe("&bogus; &#0; &#x110000;");
+  });
+});
+
+describe("RSS 2.0", () => {
+  test("decodes numeric entities in titles", async () => {
+    const feed = parseFeed(await fixture("rss-content-media.xml"), "https://blog.example.com/feed/");
+    expect(feed.format).toBe("rss");
+    expect(feed.title).toBe("The Engineering Blog – Notes");
+    expect(feed.items[0]!.title).toBe("Café — faster SQLite writes with WAL “checkpoints”");
+  });
+
+  test("keeps content:encoded as HTML and uses the description for the summary", async () => {
+    const [item] = parseFeed(await fixture("rss-content-media.xml")).items;
+    expect(item!.description).toBe("Checkpoints decide when the WAL is folded back in…");
+    expect(item!.content).toContain("<code>PRAGMA wal_autocheckpoint</code>");
+    expect(item!.author).toBe("Ada Lovelace");
+    expect(item!.categories).toEqual(["Databases", "SQLite"]);
+    expect(item!.pubDate?.toISOString()).toBe("2026-03-10T14:30:00.000Z");
+  });
+
+  test("reads media:content, enclosures and media:group", async () => {
+    const items = parseFeed(await fixture("rss-content-media.xml"), "https://blog.example.com/feed/").items;
+    expect(items[0]!.enclosure).toEqual({ url: "https://cdn.example.com/wal-diagram.png", type: "image/*", length: 48213 });
+    // A real <enclosure> wins over media:thumbnail
+    expect(items[1]!.enclosure).toEqual({ url: "https://cdn.example.com/ep42.mp3", type: "audio/mpeg", length: 31457280 });
+    expect(items[2]!.enclosure).toEqual({ url: "https://cdn.example.com/wal.mp4", type: "video/mp4", length: undefined });
+  });
+
+  test("resolves relative links and falls back to a permalink guid", async () => {
+    const items = parseFeed(await fixture("rss-content-media.xml"), "https://blog.example.com/feed/").items;
+    expect(items[1]!.link).toBe("https://blog.example.com/podcast/42/");
+    expect(items[2]!.link).toBe("https://blog.example.com/video/wal-internals");
+  });
+});
+
+describe("Atom", () => {
+  test("links to rel=alternate, not rel=self or replies", async () => {
+    const feed = parseFeed(await fixture("atom-links.xml"), "https://releases.example.org/releases.atom");
+    expect(feed.format).toBe("atom");
+    expect(feed.link).toBe("https://releases.example.org/releases");
+    expect(feed.items[0]!.link).toBe("https://releases.example.org/releases/tag/v1.2.0");
+    // A link without rel is an alternate
+    expect(feed.items[1]!.link).toBe("https://releases.example.org/releases/tag/v1.1.9");
+  });
+
+  test("handles html, xhtml and text constructs", async () => {
+    const [release, hotfix] = parseFeed(await fixture("atom-links.xml")).items;
+    expect(release!.content).toBe("<h2>Highlights</h2><p>Faster installs &amp; a new test runner.</p>");
+    expect(release!.description).toBe("Highlights Faster installs & a new test runner.");
+    expect(hotfix!.title).toBe("v1.1.9 hotfix");
+    expect(hotfix!.description).toBe("Fixes a crash when x < 0.");
+  });
+
+  test("reads authors, categories, enclosures and prefers published over updated", async () => {
+    const [release, hotfix] = parseFeed(await fixture("atom-links.xml")).items;
+    expect(release!.author).toBe("octocat");
+    expect(release!.categories).toEqual(["Release"]);
+    expect(hotfix!.enclosure).toEqual({ url: "https://releases.example.org/v1.1.9.tar.gz", type: "application/gzip", length: 1048576 });
+    expect(hotfix!.pubDate?.toISOString()).toBe("2026-02-28T09:15:00.000Z");
+  });
+});
+
+describe("RSS 1.0 (RDF)", () => {
+  test("finds items beside the channel and reads Dublin Core", async () => {
+    const feed = parseFeed(await fixture("rdf.xml"));
+    expect(feed.format).toBe("rdf");
+    expect(feed.title).toBe("cs.CL updates on papers.example.org");
+    expect(feed.items).toHaveLength(2);
+    const [paper, noLink] = feed.items;
+    expect(paper!.description).toBe("We propose a sparse attention scheme — linear in length.");
+    expect(paper!.author).toBe("Grace Hopper, Alan Turing");
+    expect(paper!.categories).toEqual(["Computation and Language"]);
+    expect(paper!.pubDate?.toISOString()).toBe("2026-03-10T05:00:00.000Z");
+    // No <link>: rdf:about is the item's URL
+    expect(noLink!.link).toBe("https://papers.example.org/abs/2603.05678");
+  });
+});
+
+describe("JSON Feed", () => {
+  test("maps items, authors, tags and attachments", async () => {
+    const feed = parseFeed(await fixture("json-feed.json"), "https://micro.example.net/feed.json");
+    expect(feed.format).toBe("json");
+    expect(feed.link).toBe("https://micro.example.net/");
+    const [post] = feed.items;
+    expect(post).toMatchObject({
+      title: "A long post about <feeds>",
+      link: "https://micro.example.net/2026/03/10/long-post.html",
+      description: "Why JSON Feed is still around",
+      content: "<p>JSON Feed is <em>still</em> around.</p>",
+      author: "Manton, Brent",
+      guid: "2026031001",
+      categories: ["feeds", "json"],
+      enclosure: { url: "https://micro.example.net/media/episode.m4a", type: "audio/x-m4a", length: 8910233 },
+    });
+  });
+
+  test("titles untitled posts from their text and skips malformed entries", async () => {
+    const items = parseFeed(await fixture("json-feed.json")).items;
+    expect(items).toHaveLength(3);
+    expect(items[1]!.title).toBe("Just shipped the new version of the app. It syncs faster, starts faster and f...");
+    expect(items[1]!.author).toBe("Manton");
+    expect(items[2]!.link).toBe("https://elsewhere.example.com/article");
+    // A numeric date isn't RFC 3339; it is dropped rather than guessed at
+    expect(items[2]!.pubDate).toBeUndefined();
+  });
+
+  test("rejects JSON that isn't a feed", () => {
+    expect(() => parseFeed('{"version": "1"}')).toThrow(FeedParseError);
+    expect(() => parseFeed("{not json")).toThrow(FeedParseError);
+  });
+});
+
+describe("parseFeed", () => {
+  test("rejects empty bodies, HTML pages and unknown roots", () => {
+    expect(() => parseFeed("  ")).toThrow(FeedParseError);
+    expect(() => parseFeed("<!DOCTYPE html><html><body>hi</body></html>")).toThrow("HTML page");
+    expect(() => parseFeed("<opml version=\"2.0\"></opml>")).toThrow("<opml>");
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Idea Tinder - Feed Parser
+ *
+ * Parses RSS 2.0, RSS 1.0 (RDF), Atom and JSON Feed documents into a
+ * common item shape. Uses a small lenient XML reader rather than regexes so
+ * CDATA, numeric entities and namespaced tags (content:encoded, dc:*, media:*)
+ * come through intact.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+export type FeedFormat = "rss" | "rdf" | "atom" | "json";
+
+export interface RSSEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+}
+
+export interface RSSItem {
+  title: string;
+  link: string;
+  description: string;   // plain text summary (untruncated)
+  content?: string;      // full HTML body when the feed provides one
+  author?: string;
+  guid?: string;
+  categories: string[];
+  enclosure?: RSSEnclosure;
+  pubDate?: Date;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  link?: string;
+  description?: string;
+  items: RSSItem[];
+}
+
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedParseError";
+  }
+}
+
+// =============================================================================
+// ENTITIES & TEXT
+// =============================================================================
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", bull: "•", middot: "·",
+  lsquo: "‘", rsquo: "’", sbquo: "‚", ldquo: "“", rdquo: "”", bdquo: "„",
+  laquo: "«", raquo: "»", copy: "©", reg: "®", trade: "™", deg: "°",
+  times: "×", divide: "÷", plusmn: "±", para: "¶", sect: "§", euro: "€",
+  pound: "£", yen: "¥", cent: "¢", shy: "", zwj: "‍", zwnj: "‌",
+  eacute: "é", egrave: "è", ecirc: "ê", euml: "ë", aacute: "á", agrave: "à",
+  acirc: "â", auml: "ä", aring: "å", atilde: "ã", ccedil: "ç", iacute: "í",
+  igrave: "ì", icirc: "î", iuml: "ï", oacute: "ó", ograve: "ò", ocirc: "ô",
+  ouml: "ö", otilde: "õ", oslash: "ø", uacute: "ú", ugrave: "ù", ucirc: "û",
+  uuml: "ü", ntilde: "ñ", szlig: "ß", Eacute: "É", Auml: "Ä", Ouml: "Ö", Uuml: "Ü",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (!Number.isFinite(code) || code <= 0 || code > 0x10ffff) return match;
+      return String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Turn an HTML fragment into a single line of readable text
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<[^>]+>/g, " ")
+  ).replace(/\s+/g, " ").trim();
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function resolveUrl(link: string, base?: string): string {
+  if (!link) return "";
+  try {
+    return new URL(link, base).toString();
+  } catch {
+    return link;
+  }
+}
+
+// =============================================================================
+// XML READER
+// =============================================================================
+export interface XmlNode {
+  name: string;                  // lowercased qualified name, e.g. "content:encoded"
+  attrs: Record<string, string>; // lowercased attribute names
+  children: XmlNode[];
+  text: string;                  // decoded direct text, CDATA included
+  inner: string;                 // raw markup between the open and close tags
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=\/]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    const name = match[1]!.toLowerCase();
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+// Index of the ">" closing a tag that starts at `from`, skipping quoted values
+function findTagEnd(xml: string, from: number): number {
+  let quote = "";
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#document", attrs: {}, children: [], text: "", inner: "" };
+  const stack: { node: XmlNode; start: number }[] = [{ node: root, start: 0 }];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const current = stack[stack.length - 1]!.node;
+    const lt = xml.indexOf("<", pos);
+    if (lt === -1) {
+      current.text += decodeEntities(xml.slice(pos));
+      break;
+    }
+    if (lt > pos) current.text += decodeEntities(xml.slice(pos, lt));
+
+    if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      pos = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      current.text += xml.slice(lt + 9, end === -1 ? xml.length : end);
+      pos = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      pos = end === -1 ? xml.length : end + 2;
+    } else if (xml.startsWith("<!", lt)) {
+      // DOCTYPE, possibly with an internal subset
+      const bracket = xml.indexOf("[", lt);
+      const close = xml.indexOf(">", lt);
+      if (bracket !== -1 && close !== -1 && bracket < close) {
+        const end = xml.indexOf("]>", bracket);
+        pos = end === -1 ? xml.length : end + 2;
+      } else {
+        pos = close === -1 ? xml.length : close + 1;
+      }
+    } else if (xml[lt + 1] === "/") {
+      const end = xml.indexOf(">", lt);
+      const name = xml.slice(lt + 2, end === -1 ? xml.length : end).trim().toLowerCase();
+      // Pop back to the matching open tag; stray close tags are ignored
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i]!.node.name === name) {
+          for (let j = stack.length - 1; j >= i; j--) {
+            stack[j]!.node.inner = xml.slice(stack[j]!.start, lt);
+          }
+          stack.length = i;
+          break;
+        }
+      }
+      pos = end === -1 ? xml.length : end + 1;
+    } else {
+      const end = findTagEnd(xml, lt + 1);
+      if (end === -1) {
+        current.text += decodeEntities(xml.slice(lt));
+        break;
+      }
+      const body = xml.slice(lt + 1, end);
+      const selfClosing = body.endsWith("/");
+      const tag = (selfClosing ? body.slice(0, -1) : body).trim();
+      const nameEnd = tag.search(/\s/);
+      const name = (nameEnd === -1 ? tag : tag.slice(0, nameEnd)).toLowerCase();
+      if (!name) {
+        // A bare "<" in text content
+        current.text += "<";
+        pos = lt + 1;
+        continue;
+      }
+      const node: XmlNode = {
+        name,
+        attrs: nameEnd === -1 ? {} : parseAttributes(tag.slice(nameEnd)),
+        children: [],
+        text: "",
+        inner: "",
+      };
+      current.children.push(node);
+      if (!selfClosing) stack.push({ node, start: end + 1 });
+      pos = end + 1;
+    }
+  }
+
+  return root;
+}
+
+function child(node: XmlNode | undefined, ...names: string[]): XmlNode | undefined {
+  if (!node) return undefined;
+  for (const name of names) {
+    const found = node.children.find(c => c.name === name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function childrenNamed(node: XmlNode, name: string): XmlNode[] {
+  return node.children.filter(c => c.name === name);
+}
+
+function childText(node: XmlNode | undefined, ...names: string[]): string {
+  return child(node, ...names)?.text.trim() ?? "";
+}
+
+// =============================================================================
+// RSS 2.0 / RSS 1.0 (RDF)
+// =============================================================================
+function parseMediaEnclosure(item: XmlNode, base?: string): RSSEnclosure | undefined {
+  const enclosure = child(item, "enclosure");
+  if (enclosure?.attrs.url) {
+    const length = parseInt(enclosure.attrs.length ?? "", 10);
+    return {
+      url: resolveUrl(enclosure.attrs.url, base),
+      type: enclosure.attrs.type || undefined,
+      length: Number.isFinite(length) ? length : undefined,
+    };
+  }
+
+  const media = child(item, "media:content") ?? child(child(item, "media:group"), "media:content")
+    ?? child(item, "media:thumbnail");
+  if (media?.attrs.url) {
+    const length = parseInt(media.attrs.filesize ?? "", 10);
+    return {
+      url: resolveUrl(media.attrs.url, base),
+      type: media.attrs.type || (media.attrs.medium ? `${media.attrs.medium}/*` : undefined),
+      length: Number.isFinite(length) ? length : undefined,
+    };
+  }
+  return undefined;
+}
+
+function parseRssItem(item: XmlNode, base?: string): RSSItem {
+  const guidNode = child(item, "guid");
+  const guid = guidNode?.text.trim() || undefined;
+
+  let link = childText(item, "link");
+  if (!link) {
+    // Some feeds only publish an atom:link or a permalink GUID
+    const atomLink = childrenNamed(item, "atom:link").find(l => !l.attrs.rel || l.attrs.rel === "alternate");
+    if (atomLink?.attrs.href) link = atomLink.attrs.href;
+    else if (guid && guidNode?.attrs.ispermalink !== "false" && /^https?:\/\//i.test(guid)) link = guid;
+  }
+  if (!link && item.attrs["rdf:about"]) link = item.attrs["rdf:about"];
+
+  const content = child(item, "content:encoded")?.text.trim() || undefined;
+  const descriptionHtml = childText(item, "description", "dc:description", "itunes:summary");
+
+  const categories = [
+    ...childrenNamed(item, "category"),
+    ...childrenNamed(item, "dc:subject"),
+  ].map(c => htmlToText(c.text)).filter(Boolean);
+
+  return {
+    title: htmlToText(childText(item, "title", "dc:title")),
+    link: resolveUrl(link, base),
+    description: htmlToText(descriptionHtml || content || ""),
+    content,
+    author: htmlToText(childText(item, "dc:creator", "author", "itunes:author")) || undefined,
+    guid,
+    categories,
+    enclosure: parseMediaEnclosure(item, base),
+    pubDate: parseDate(childText(item, "pubdate", "dc:date", "published", "updated", "dcterms:modified")),
+  };
+}
+
+function parseRss(root: XmlNode, base?: string): ParsedFeed {
+  const channel = child(root, "channel");
+  const link = childText(channel, "link");
+  const feedBase = base ?? (link || undefined);
+  return {
+    format: "rss",
+    title: htmlToText(childText(channel, "title")),
+    link: link || undefined,
+    description: htmlToText(childText(channel, "description")) || undefined,
+    items: (channel ? childrenNamed(channel, "item") : []).map(item => parseRssItem(item, feedBase)),
+  };
+}
+
+function parseRdf(root: XmlNode, base?: string): ParsedFeed {
+  // RSS 1.0 puts items beside the channel rather than inside it
+  const channel = child(root, "channel");
+  const link = childText(channel, "link");
+  const items = [...childrenNamed(root, "item"), ...(channel ? childrenNamed(channel, "item") : [])];
+  return {
+    format: "rdf",
+    title: htmlToText(childText(channel, "title")),
+    link: link || undefined,
+    description: htmlToText(childText(channel, "description")) || undefined,
+    items: items.map(item => parseRssItem(item, base ?? (link || undefined))),
+  };
+}
+
+// =============================================================================
+// ATOM
+// =============================================================================
+function atomTextToHtml(node: XmlNode | undefined): string {
+  if (!node) return "";
+  const type = (node.attrs.type || "text").toLowerCase();
+  if (type === "xhtml" || type.includes("xhtml")) return node.inner.trim();
+  if (type === "html" || type === "text/html") return node.text.trim();
+  return node.text.trim()
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function atomAlternateLink(node: XmlNode): XmlNode | undefined {
+  const links = childrenNamed(node, "link").filter(l => l.attrs.href);
+  const alternates = links.filter(l => !l.attrs.rel || l.attrs.rel === "alternate");
+  return alternates.find(l => !l.attrs.type || l.attrs.type.includes("html")) ?? alternates[0];
+}
+
+function parseAtomEntry(entry: XmlNode, base?: string): RSSItem {
+  const entryBase = entry.attrs["xml:base"] ? resolveUrl(entry.attrs["xml:base"], base) : base;
+  const contentNode = child(entry, "content");
+  const summaryNode = child(entry, "summary");
+
+  // <content src="..."> points elsewhere and carries no body
+  const content = contentNode && !contentNode.attrs.src ? atomTextToHtml(contentNode) || undefined : undefined;
+  const summary = summaryNode ? atomTextToHtml(summaryNode) : "";
+
+  const enclosureLink = childrenNamed(entry, "link").find(l => l.attrs.rel === "enclosure" && l.attrs.href);
+  let enclosure: RSSEnclosure | undefined;
+  if (enclosureLink) {
+    const length = parseInt(enclosureLink.attrs.length ?? "", 10);
+    enclosure = {
+      url: resolveUrl(enclosureLink.attrs.href!, entryBase),
+      type: enclosureLink.attrs.type || undefined,
+      length: Number.isFinite(length) ? length : undefined,
+    };
+  } else {
+    enclosure = parseMediaEnclosure(entry, entryBase);
+  }
+
+  const author = child(entry, "author");
+  const categories = childrenNamed(entry, "category")
+    .map(c => c.attrs.label || c.attrs.term || c.text.trim())
+    .filter(Boolean);
+
+  return {
+    title: htmlToText(atomTextToHtml(child(entry, "title"))),
+    link: resolveUrl(atomAlternateLink(entry)?.attrs.href ?? "", entryBase),
+    description: htmlToText(summary || content || ""),
+    content,
+    author: htmlToText(childText(author, "name") || childText(entry, "dc:creator")) || undefined,
+    guid: childText(entry, "id") || undefined,
+    categories,
+    enclosure,
+    pubDate: parseDate(childText(entry, "published", "updated", "issued", "modified")),
+  };
+}
+
+function parseAtom(root: XmlNode, base?: string): ParsedFeed {
+  const feedBase = root.attrs["xml:base"] ? resolveUrl(root.attrs["xml:base"], base) : base;
+  const link = atomAlternateLink(root)?.attrs.href;
+  return {
+    format: "atom",
+    title: htmlToText(atomTextToHtml(child(root, "title"))),
+    link: link ? resolveUrl(link, feedBase) : undefined,
+    description: htmlToText(atomTextToHtml(child(root, "subtitle"))) || undefined,
+    items: childrenNamed(root, "entry").map(entry => parseAtomEntry(entry, feedBase)),
+  };
+}
+
+// =============================================================================
+// JSON FEED
+// =============================================================================
+
+// Only the fields we read. Everything is unknown until checked, since feeds
+// in the wild put numbers in ids and objects where strings belong.
+interface JsonFeedItem {
+  id?: unknown;
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  content_html?: unknown;
+  content_text?: unknown;
+  summary?: unknown;
+  date_published?: unknown;
+  date_modified?: unknown;
+  author?: unknown;
+  authors?: unknown;
+  tags?: unknown;
+  attachments?: unknown;
+}
+
+interface JsonFeed {
+  title?: unknown;
+  home_page_url?: unknown;
+  description?: unknown;
+  items: unknown[];
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function stringOf(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function isJsonFeed(doc: unknown): doc is JsonFeed {
+  return isObject(doc) && Array.isArray(doc.items);
+}
+
+function parseJsonFeedItem(item: JsonFeedItem, base?: string): RSSItem {
+  const content = stringOf(item.content_html);
+  const description = htmlToText(stringOf(item.summary) || content || stringOf(item.content_text) || "");
+  const authors = Array.isArray(item.authors) ? item.authors : item.author ? [item.author] : [];
+  const attachment = Array.isArray(item.attachments) && isObject(item.attachments[0]) ? item.attachments[0] : undefined;
+  const url = item.url ?? item.external_url;
+
+  // Title-less microblog posts get their opening words as a title
+  let title = htmlToText(stringOf(item.title) ?? "");
+  if (!title && description) {
+    title = description.length > 80 ? description.substring(0, 77) + "..." : description;
+  }
+
+  return {
+    title,
+    link: resolveUrl(url === undefined || url === null ? "" : String(url), base),
+    description,
+    content,
+    author: authors.map(a => isObject(a) ? stringOf(a.name) : undefined).filter(Boolean).join(", ") || undefined,
+    guid: item.id !== undefined && item.id !== null ? String(item.id) : undefined,
+    categories: Array.isArray(item.tags) ? item.tags.map(String) : [],
+    enclosure: attachment?.url ? {
+      url: resolveUrl(String(attachment.url), base),
+      type: stringOf(attachment.mime_type) || undefined,
+      length: typeof attachment.size_in_bytes === "number" ? attachment.size_in_bytes : undefined,
+    } : undefined,
+    pubDate: parseDate(stringOf(item.date_published) ?? stringOf(item.date_modified)),
+  };
+}
+
+function parseJsonFeed(doc: unknown, base?: string): ParsedFeed {
+  if (!isJsonFeed(doc)) {
+    throw new FeedParseError("JSON document is not a JSON Feed (missing items array)");
+  }
+
+  return {
+    format: "json",
+    title: htmlToText(stringOf(doc.title) ?? ""),
+    link: stringOf(doc.home_page_url),
+    description: stringOf(doc.description),
+    items: doc.items.filter(isObject).map(item => parseJsonFeedItem(item, base)),
+  };
+}
+
+// =============================================================================
+// ENTRY POINT
+// =============================================================================
+
+/**
+ * Parse a feed document. `baseUrl` (usually the feed URL) is used to resolve
+ * relative links. Throws FeedParseError when the body is not a recognizable feed.
+ */
+export function parseFeed(body: string, baseUrl?: string): ParsedFeed {
+  const trimmed = body.replace(/^\uFEFF/, "").trim();
+  if (!trimmed) throw new FeedParseError("Empty response body");
+
+  if (trimmed.startsWith("{")) {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(trimmed);
+    } catch (e) {
+      throw new FeedParseError(`Invalid JSON: ${(e as Error).message}`);
+    }
+    return parseJsonFeed(doc, baseUrl);
+  }
+
+  const root = parseXml(trimmed).children[0];
+  if (!root) throw new FeedParseError("No XML root element found");
+
+  switch (root.name) {
+    case "rss":
+      return parseRss(root, baseUrl);
+    case "rdf:rdf":
+      return parseRdf(root, baseUrl);
+    case "feed":
+      return parseAtom(root, baseUrl);
+    case "html":
+      throw new FeedParseError("Got an HTML page instead of a feed");
+    default:
+      throw new FeedParseError(`Unrecognized feed root element <${root.name}>`);
+  }
+}
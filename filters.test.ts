@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { compileFilters, FilterRuleError, unsafeRegexReason, validateFilterRule } from "./filters";
+
+const idea = (title: string) => ({ title, summary: null, source: "Test", url: "https://example.com/post", content_type: null });
+
+describe("regex filter rules", () => {
+  test("accepts ordinary patterns", () => {
+    for (const pattern of ["\\bgpt-?[45]\\b", "^Show HN:", "rust|zig", "v\\d+\\.\\d+", "(alpha|beta) release", "(?:foo)+bar", "[a-z(|)+]+x", "(ab){0,1}c"]) {
+      expect(unsafeRegexReason(pattern)).toBeNull();
+      expect(validateFilterRule("mute", "regex", pattern).pattern).toBe(pattern);
+    }
+  });
+
+  test("rejects nested quantifiers, repeated alternation and backreferences", () => {
+    for (const pattern of ["(a+)+$", "(\\w*\\s?)*x", "((ab)*c)+", "(x{1,5}){2,}", "(a|ab)*c", "(a|aa)+$", "(\\w)\\1", "(?<w>\\w)\\k<w>"]) {
+      expect(unsafeRegexReason(pattern)).not.toBeNull();
+      expect(() => validateFilterRule("mute", "regex", pattern)).toThrow(FilterRuleError);
+    }
+  });
+
+  test("unsafe rules saved before the check never match", () => {
+    const filters = compileFilters([{ id: 1, action: "mute", kind: "regex", pattern: "(a+)+$" }]);
+    expect(filters.match(idea("a".repeat(40) + "!"))).toBeNull();
+  });
+
+  test("safe rules still match", () => {
+    const filters = compileFilters([{ id: 1, action: "boost", kind: "regex", pattern: "^Show HN:" }]);
+    expect(filters.match(idea("Show HN: a thing"))?.id).toBe(1);
+    expect(filters.match(idea("Ask HN: a question"))).toBeNull();
+  });
+});
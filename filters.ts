@@ -0,0 +1,236 @@
+/**
+ * Idea Tinder - Mute / Boost Filters
+ *
+ * Per-user rules that act on ideas as they enter the queue:
+ *
+ *   mute   The idea is queued but hidden; GET /api/filters/muted lists them
+ *   boost  The idea is ranked higher and its card says which rule matched
+ *
+ * A rule matches by keyword (whole words in title or summary), regex, feed
+ * source name, link domain or content type. Boost beats mute, so a boost
+ * rule can carve an exception out of a broad mute. Rules live in
+ * filter_rules (created by server.ts); the outcome is recorded on the
+ * user_pending row.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const FILTER_ACTIONS = ["mute", "boost"] as const;
+export type FilterAction = typeof FILTER_ACTIONS[number];
+export const FILTER_KINDS = ["keyword", "regex", "source", "domain", "content_type"] as const;
+export type FilterKind = typeof FILTER_KINDS[number];
+
+// Score points a boosted idea gets on top of its ranking score (max 100)
+export const FILTER_BOOST_POINTS = 20;
+
+const MAX_PATTERN_LENGTH = 200;
+
+export interface FilterRule {
+  id: number;
+  action: FilterAction;
+  kind: FilterKind;
+  pattern: string;
+}
+
+export interface FilterableIdea {
+  title: string;
+  summary: string | null;
+  source: string;
+  url: string | null;
+  content_type: string | null;
+}
+
+export class FilterRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterRuleError";
+  }
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function domainOf(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a regex could backtrack catastrophically, or null if it can't. Filters
+ * run inside the shared ingestion job, so one user's `(a+)+$` must not stall
+ * everybody's feeds. Conservative on purpose: a repeated group may not hold
+ * another quantifier or an alternation, and backreferences are out.
+ */
+export function unsafeRegexReason(pattern: string): string | null {
+  // One entry per open group: does it contain a quantifier / an alternation?
+  const groups: { quantified: boolean; alternation: boolean }[] = [{ quantified: false, alternation: false }];
+  let closed: { quantified: boolean; alternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    const current = groups[groups.length - 1]!;
+    const repeat = pattern.slice(i).match(/^(?:[*+]|\{(\d+)(?:(,)(\d*))?\})/);
+
+    if (repeat) {
+      const max = repeat[1] === undefined ? Infinity : repeat[2] ? (repeat[3] ? Number(repeat[3]) : Infinity) : Number(repeat[1]);
+      if (max > 1) {
+        if (closed && (closed.quantified || closed.alternation)) {
+          return closed.quantified
+            ? "nested quantifiers like (a+)+ can take forever to match"
+            : "repeating a group with alternatives like (a|ab)* can take forever to match";
+        }
+        current.quantified = true;
+      }
+      i += repeat[0].length - 1;
+      closed = null;
+      continue;
+    }
+    closed = null;
+
+    if (ch === "\\") {
+      const next = pattern[i + 1] ?? "";
+      if (/[1-9]/.test(next) || (next === "k" && pattern[i + 2] === "<")) return "backreferences aren't supported";
+      i++;
+    } else if (ch === "[") {
+      // Skip the character class; nothing inside it is a group or quantifier
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      groups.push({ quantified: false, alternation: false });
+    } else if (ch === ")" && groups.length > 1) {
+      closed = groups.pop()!;
+      const parent = groups[groups.length - 1]!;
+      parent.quantified ||= closed.quantified;
+      parent.alternation ||= closed.alternation;
+    } else if (ch === "|") {
+      current.alternation = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a rule's pattern and return it normalized. Throws FilterRuleError
+ * for anything that can't be matched.
+ */
+export function validateFilterRule(action: unknown, kind: unknown, pattern: unknown): { action: FilterAction; kind: FilterKind; pattern: string } {
+  if (!FILTER_ACTIONS.includes(action as FilterAction)) {
+    throw new FilterRuleError(`action must be one of: ${FILTER_ACTIONS.join(", ")}`);
+  }
+  if (!FILTER_KINDS.includes(kind as FilterKind)) {
+    throw new FilterRuleError(`kind must be one of: ${FILTER_KINDS.join(", ")}`);
+  }
+  let value = typeof pattern === "string" ? pattern.trim() : "";
+  if (!value) throw new FilterRuleError("pattern is required");
+  if (value.length > MAX_PATTERN_LENGTH) throw new FilterRuleError(`pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+
+  if (kind === "regex") {
+    try {
+      new RegExp(value, "i");
+    } catch (error) {
+      throw new FilterRuleError(`Invalid regex: ${error instanceof Error ? error.message : error}`);
+    }
+    const unsafe = unsafeRegexReason(value);
+    if (unsafe) throw new FilterRuleError(`Unsafe regex: ${unsafe}`);
+  } else if (kind === "domain") {
+    value = domainOf(value.includes("://") ? value : `https://${value}`) ?? "";
+    if (!value) throw new FilterRuleError("Not a valid domain");
+  } else if (kind !== "source") {
+    value = value.toLowerCase();
+  }
+  return { action: action as FilterAction, kind: kind as FilterKind, pattern: value };
+}
+
+type Matcher = (idea: FilterableIdea, text: string, domain: string | null) => boolean;
+
+function compile(rule: FilterRule): Matcher {
+  switch (rule.kind) {
+    case "keyword": {
+      const lower = rule.pattern.toLowerCase();
+      const start = /^\w/.test(lower) ? "\\b" : "";
+      const end = /\w$/.test(lower) ? "\\b" : "";
+      const pattern = new RegExp(start + escapeRegExp(lower) + end, "i");
+      return (_, text) => pattern.test(text);
+    }
+    case "regex": {
+      // Rules saved before the safety check are skipped rather than run
+      if (unsafeRegexReason(rule.pattern)) return () => false;
+      const pattern = new RegExp(rule.pattern, "i");
+      return (_, text) => pattern.test(text);
+    }
+    case "source":
+      return idea => idea.source.toLowerCase() === rule.pattern.toLowerCase();
+    case "domain":
+      return (_, __, domain) => domain !== null && (domain === rule.pattern || domain.endsWith(`.${rule.pattern}`));
+    case "content_type":
+      return idea => (idea.content_type || "article") === rule.pattern;
+  }
+}
+
+export function filterLabel(rule: Pick<FilterRule, "kind" | "pattern">): string {
+  return rule.kind === "regex" ? `regex /${rule.pattern}/` : `${rule.kind.replace("_", " ")} "${rule.pattern}"`;
+}
+
+export interface FilterSet {
+  match(idea: FilterableIdea): FilterRule | null;
+}
+
+export function compileFilters(rules: FilterRule[]): FilterSet {
+  // Boosts first, so they win over mutes
+  const compiled = [...rules]
+    .sort((a, b) => (a.action === b.action ? a.id - b.id : a.action === "boost" ? -1 : 1))
+    .map(rule => ({ rule, matches: compile(rule) }));
+  return {
+    match(idea) {
+      if (compiled.length === 0) return null;
+      const text = `${idea.title} ${idea.summary ?? ""}`;
+      const domain = domainOf(idea.url);
+      return compiled.find(({ matches }) => matches(idea, text, domain))?.rule ?? null;
+    },
+  };
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+export function loadFilters(db: Database, userId: number): FilterSet {
+  const rules = db.query("SELECT id, action, kind, pattern FROM filter_rules WHERE user_id = ? ORDER BY id").all(userId) as FilterRule[];
+  return compileFilters(rules);
+}
+
+/**
+ * Re-run a user's rules over their unswiped queue, after rules change.
+ * Items the user chose to see anyway stay visible.
+ */
+export function applyFiltersToQueue(db: Database, userId: number): { muted: number; boosted: number } {
+  const filters = loadFilters(db, userId);
+  const rows = db.query(`
+    SELECT up.idea_id, i.title, i.summary, i.source, i.url, i.content_type FROM user_pending up
+    JOIN ideas i ON i.id = up.idea_id
+    WHERE up.user_id = ?1 AND up.filter_action IS NOT 'allowed'
+    AND up.idea_id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?1)
+  `).all(userId) as (FilterableIdea & { idea_id: number })[];
+
+  const update = db.query("UPDATE user_pending SET filter_action = ?, filter_rule_id = ? WHERE user_id = ? AND idea_id = ?");
+  const counts = { muted: 0, boosted: 0 };
+  db.transaction(() => {
+    for (const row of rows) {
+      const rule = filters.match(row);
+      update.run(rule?.action ?? null, rule?.id ?? null, userId, row.idea_id);
+      if (rule?.action === "mute") counts.muted++;
+      if (rule?.action === "boost") counts.boosted++;
+    }
+  })();
+  return counts;
+}
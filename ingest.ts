@@ -7,13 +7,31 @@
  * 
  * Flow:
  * 1. Collect all unique enabled feed URLs from user_feeds
- * 2. Fetch each feed once
- * 3. Insert new items into global ideas table
- * 4. Add items to user_pending for each user with that feed
- * 5. Clean up old unswiped items (7+ days)
+ * 2. Fetch each feed once (bounded pool, limited per host)
+ * 3. Resolve new links' canonical URLs and metadata (same pool limits)
+ * 4. Insert new items into global ideas table
+ * 5. Add items to user_pending for each user with that feed
+ * 6. Extract article text for new items (reader view)
+ * 7. Summarize new items from their article text (see summarize.ts)
+ * 8. Recommend items other opted-in users saved (see recommend.ts)
+ * 9. Tag new items with each user's topic rules and classifier (see tagging.ts)
+ * 10. Clean up old unswiped items (7+ days)
+ *
+ * Every fetch is logged to feed_fetch_log; feeds that fail
+ * AUTO_DISABLE_AFTER_FAILURES times in a row are switched off.
  */
 
 import { Database } from "bun:sqlite";
+import type { RSSItem } from "./feed-parser";
+import { parseSource, sourceRequestHeaders, type SourceType } from "./sources";
+import { canonicalizeUrl, titleTokens, isSameStory } from "./dedupe";
+import { extractArticle } from "./extract";
+import { fetchPublic, readLimited, UnsafeUrlError } from "./public-url";
+import { parsePageMeta, fetchOEmbed, contentTypeFromMeta, type PageMeta } from "./enrich";
+import { getSummarizer, summarizeWith } from "./summarize";
+import { tagIdeasForUser } from "./tagging";
+import { injectRecommendations } from "./recommend";
+import { loadFilters, type FilterSet, type FilterRule, type FilterableIdea } from "./filters";
 
 const db = new Database("/home/eli/idea-tinder/ideas.db");
 
@@ -28,6 +46,11 @@ db.exec(`
     user_id INTEGER NOT NULL,
     idea_id INTEGER NOT NULL,
     added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    tagged_at DATETIME,
+    recommended_score REAL,
+    recommended_reason TEXT,
+    filter_action TEXT,
+    filter_rule_id INTEGER,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
     UNIQUE(user_id, idea_id)
@@ -36,6 +59,81 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_user_pending_added ON user_pending(added_at);
 `);
 
+// First time we saw each undated item, so it can still be windowed by age
+db.exec(`
+  CREATE TABLE IF NOT EXISTS feed_items_seen (
+    feed_url TEXT NOT NULL,
+    item_key TEXT NOT NULL,
+    first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (feed_url, item_key)
+  );
+`);
+
+// Every feed/URL an idea arrived from, so merged duplicates keep their sources
+db.exec(`
+  CREATE TABLE IF NOT EXISTS idea_sources (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    idea_id INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    url TEXT NOT NULL,
+    source_feed TEXT,
+    title TEXT,
+    added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
+    UNIQUE(idea_id, url)
+  );
+  CREATE INDEX IF NOT EXISTS idx_idea_sources_idea ON idea_sources(idea_id);
+  CREATE INDEX IF NOT EXISTS idx_idea_sources_feed ON idea_sources(source_feed, added_at);
+`);
+
+// Per-URL fetch state, shared by every user subscribed to the feed
+db.exec(`
+  CREATE TABLE IF NOT EXISTS feed_state (
+    url TEXT PRIMARY KEY,
+    etag TEXT,
+    last_modified TEXT,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    next_fetch_at DATETIME,
+    last_status INTEGER,
+    last_error TEXT,
+    last_success_at DATETIME,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// One row per fetch attempt, for the feed health dashboard
+db.exec(`
+  CREATE TABLE IF NOT EXISTS feed_fetch_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_url TEXT NOT NULL,
+    fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    status TEXT NOT NULL,
+    latency_ms INTEGER,
+    item_count INTEGER,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_feed_fetch_log_feed ON feed_fetch_log(feed_url, fetched_at);
+`);
+
+// Readable full text of each idea's linked page, for the reader view
+db.exec(`
+  CREATE TABLE IF NOT EXISTS idea_content (
+    idea_id INTEGER PRIMARY KEY,
+    status TEXT NOT NULL,
+    url TEXT,
+    title TEXT,
+    byline TEXT,
+    lead_image TEXT,
+    content_html TEXT,
+    text_content TEXT,
+    word_count INTEGER,
+    reading_minutes INTEGER,
+    error TEXT,
+    extracted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+  );
+`);
+
 // =============================================================================
 // DEFAULT FEEDS (seeded for new users)
 // =============================================================================
@@ -55,100 +153,291 @@ export const DEFAULT_FEEDS = [
 ];
 
 // =============================================================================
-// RSS PARSER
+// RSS FETCHING
 // =============================================================================
-interface RSSItem {
-  title: string;
-  link: string;
-  description: string;
-  pubDate?: Date;
+const BACKOFF_BASE_SECONDS = 30 * 60;        // first retry after 30 minutes
+const BACKOFF_MAX_SECONDS = 24 * 60 * 60;    // never wait more than a day
+
+type FetchResult =
+  | { status: "ok"; items: RSSItem[] }
+  | { status: "not_modified" }
+  | { status: "backoff"; until: string }
+  | { status: "error"; error: string };
+
+interface FeedState {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  consecutive_failures: number;
+  next_fetch_at: string | null;
 }
 
-function decodeEntities(text: string): string {
-  return text
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&amp;/g, "&")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, " ");
+function getFeedState(url: string): FeedState | null {
+  return db.query(`
+    SELECT url, etag, last_modified, consecutive_failures, next_fetch_at
+    FROM feed_state WHERE url = ?
+  `).get(url) as FeedState | null;
 }
 
-async function fetchRSS(url: string): Promise<RSSItem[]> {
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = parseInt(header, 10);
+  if (!isNaN(seconds) && /^\d+$/.test(header.trim())) return seconds;
+  const date = new Date(header);
+  if (isNaN(date.getTime())) return null;
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+function recordFetchSuccess(url: string, status: number, etag: string | null, lastModified: string | null) {
+  db.query(`
+    INSERT INTO feed_state (url, etag, last_modified, consecutive_failures, next_fetch_at, last_status, last_error, last_success_at, updated_at)
+    VALUES (?, ?, ?, 0, NULL, ?, NULL, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT(url) DO UPDATE SET
+      etag = COALESCE(excluded.etag, etag),
+      last_modified = COALESCE(excluded.last_modified, last_modified),
+      consecutive_failures = 0,
+      next_fetch_at = NULL,
+      last_status = excluded.last_status,
+      last_error = NULL,
+      last_success_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(url, etag, lastModified, status);
+}
+
+function recordFetchFailure(url: string, status: number | null, error: string, retryAfterSeconds: number | null) {
+  const failures = (getFeedState(url)?.consecutive_failures ?? 0) + 1;
+  // Exponential backoff, unless the server told us exactly how long to wait
+  const delay = retryAfterSeconds ?? Math.min(BACKOFF_BASE_SECONDS * 2 ** (failures - 1), BACKOFF_MAX_SECONDS);
+  db.query(`
+    INSERT INTO feed_state (url, consecutive_failures, next_fetch_at, last_status, last_error, updated_at)
+    VALUES (?, ?, datetime('now', '+' || ? || ' seconds'), ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(url) DO UPDATE SET
+      consecutive_failures = excluded.consecutive_failures,
+      next_fetch_at = excluded.next_fetch_at,
+      last_status = excluded.last_status,
+      last_error = excluded.last_error,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(url, failures, Math.min(delay, BACKOFF_MAX_SECONDS), status, error);
+}
+
+// Feeds failing this many times in a row are disabled for every subscriber
+export const AUTO_DISABLE_AFTER_FAILURES = parseInt(process.env.FEED_AUTO_DISABLE_FAILURES || "10", 10);
+
+function logFetch(url: string, result: FetchResult, latencyMs: number) {
+  if (result.status === "backoff") return; // nothing was fetched
+  db.query(`
+    INSERT INTO feed_fetch_log (feed_url, status, latency_ms, item_count, error)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(
+    url,
+    result.status,
+    latencyMs,
+    result.status === "ok" ? result.items.length : null,
+    result.status === "error" ? result.error : null,
+  );
+}
+
+/**
+ * Disable a feed that keeps failing. Returns how many subscriptions were
+ * switched off; their owners see a notice next time they open the app.
+ */
+function disableIfDead(url: string, error: string): number {
+  const failures = getFeedState(url)?.consecutive_failures ?? 0;
+  if (failures < AUTO_DISABLE_AFTER_FAILURES) return 0;
+  return db.query(`
+    UPDATE user_feeds
+    SET enabled = 0, disabled_reason = ?, disabled_at = CURRENT_TIMESTAMP, disabled_notified = 0
+    WHERE url = ? AND enabled = 1
+  `).run(`Failed ${failures} times in a row: ${error}`, url).changes;
+}
+
+/**
+ * Fetch and parse a feed, honoring stored validators and backoff.
+ * Pass `conditional: false` when some subscriber has never received this
+ * feed's items, so a 304 doesn't leave them with an empty queue.
+ * Validators are shared by every subscriber of the URL, so a fetch whose
+ * items reach only some of them passes `storeValidators: false`; otherwise
+ * the next cron run would get a 304 and the rest would never see the items.
+ * Non-RSS sources (GitHub, YouTube, arXiv, HN) go through their adapter.
+ */
+async function fetchRSS(url: string, options: { conditional?: boolean; storeValidators?: boolean; type?: SourceType } = {}): Promise<FetchResult> {
+  const type = options.type ?? "rss";
+  const state = getFeedState(url);
+  
+  if (state?.next_fetch_at) {
+    const waiting = db.query("SELECT ? > datetime('now') as waiting").get(state.next_fetch_at) as { waiting: number };
+    if (waiting.waiting) {
+      return { status: "backoff", until: state.next_fetch_at };
+    }
+  }
+  
+  const headers: Record<string, string> = {
+    "User-Agent": "IdeaTinder/1.0 (news aggregator)",
+    ...sourceRequestHeaders(type),
+  };
+  if (options.conditional !== false) {
+    if (state?.etag) headers["If-None-Match"] = state.etag;
+    if (state?.last_modified) headers["If-Modified-Since"] = state.last_modified;
+  }
+  
+  let response: Response;
   try {
-    const response = await fetch(url, {
-      headers: { "User-Agent": "IdeaTinder/1.0 (news aggregator)" },
+    response = await fetch(url, {
+      headers,
       signal: AbortSignal.timeout(15000), // 15 second timeout
     });
-    
-    if (!response.ok) {
-      console.log(`  ⚠ HTTP ${response.status} for ${url}`);
-      return [];
-    }
-    
-    const xml = await response.text();
-    const items: RSSItem[] = [];
-    
-    // Parse RSS (handles both RSS 2.0 and Atom)
-    const itemMatches = xml.matchAll(/<item>([\s\S]*?)<\/item>|<entry>([\s\S]*?)<\/entry>/gi);
-    
-    for (const match of itemMatches) {
-      const itemXml = match[1] || match[2];
-      
-      // Extract title
-      const titleMatch = itemXml.match(/<title[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/title>/i);
-      const title = titleMatch ? decodeEntities(titleMatch[1].trim()) : "";
-      
-      // Extract link
-      const linkMatch = itemXml.match(/<link[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/link>|<link[^>]*href="([^"]+)"/i);
-      const link = linkMatch ? (linkMatch[1] || linkMatch[2] || "").trim() : "";
-      
-      // Extract description/summary/content
-      const descMatch = itemXml.match(/<(?:description|summary|content)[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/(?:description|summary|content)>/i);
-      let description = descMatch ? decodeEntities(descMatch[1].trim()) : "";
-      
-      // Strip HTML tags
-      description = description.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
-      
-      // Handle HN-style descriptions (Article URL: ... Comments URL: ... Points: N # Comments: M)
-      const hnMatch = description.match(/Points:\s*(\d+)\s*#\s*Comments:\s*(\d+)/i);
-      if (hnMatch || description.startsWith("Article URL:")) {
-        const points = hnMatch ? hnMatch[1] : "?";
-        const comments = hnMatch ? hnMatch[2] : "?";
-        description = `${points} points · ${comments} comments on Hacker News`;
-      }
-      
-      // Truncate
-      if (description.length > 300) {
-        description = description.substring(0, 297) + "...";
-      }
-      
-      // Extract date
-      const dateMatch = itemXml.match(/<(?:pubDate|published|updated)[^>]*>([\s\S]*?)<\/(?:pubDate|published|updated)>/i);
-      const pubDate = dateMatch ? new Date(dateMatch[1].trim()) : undefined;
-      
-      if (title && link) {
-        items.push({ title, link, description, pubDate });
-      }
-    }
-    
-    return items;
   } catch (error) {
-    console.log(`  ✗ Error fetching ${url}: ${error}`);
-    return [];
+    const message = error instanceof Error && error.name === "TimeoutError"
+      ? "Timed out after 15s"
+      : `Network error: ${error instanceof Error ? error.message : error}`;
+    recordFetchFailure(url, null, message, null);
+    return { status: "error", error: message };
   }
+  
+  if (response.status === 304) {
+    recordFetchSuccess(url, 304, response.headers.get("etag"), response.headers.get("last-modified"));
+    return { status: "not_modified" };
+  }
+  
+  if (!response.ok) {
+    const retryAfter = response.status === 429 || response.status === 503
+      ? parseRetryAfter(response.headers.get("retry-after"))
+      : null;
+    const message = response.status === 429
+      ? "HTTP 429 Too Many Requests (rate limited)"
+      : `HTTP ${response.status} ${response.statusText}`.trim();
+    recordFetchFailure(url, response.status, message, retryAfter);
+    return { status: "error", error: message };
+  }
+  
+  let items: RSSItem[];
+  try {
+    items = parseSource(type, await response.text(), url).items;
+  } catch (error) {
+    const message = `Parse error: ${error instanceof Error ? error.message : error}`;
+    recordFetchFailure(url, response.status, message, null);
+    return { status: "error", error: message };
+  }
+  
+  if (options.storeValidators === false) {
+    recordFetchSuccess(url, response.status, null, null);
+  } else {
+    recordFetchSuccess(url, response.status, response.headers.get("etag"), response.headers.get("last-modified"));
+  }
+  
+  return {
+    status: "ok",
+    items: items
+      .filter(item => item.title && item.link)
+      .map(item => {
+        let description = item.description;
+        
+        // Handle HN-style descriptions (Article URL: ... Comments URL: ... Points: N # Comments: M)
+        const hnMatch = description.match(/Points:\s*(\d+)\s*#\s*Comments:\s*(\d+)/i);
+        if (hnMatch || description.startsWith("Article URL:")) {
+          const points = hnMatch ? hnMatch[1] : "?";
+          const comments = hnMatch ? hnMatch[2] : "?";
+          description = `${points} points · ${comments} comments on Hacker News`;
+        }
+        
+        // Truncate
+        if (description.length > 300) {
+          description = description.substring(0, 297) + "...";
+        }
+        
+        return { ...item, description };
+      }),
+  };
 }
 
 // =============================================================================
 // HELPERS
 // =============================================================================
 
+const CANONICAL_FETCH_TIMEOUT_MS = 8000;
+const CANONICAL_MAX_BYTES = 256 * 1024;     // <head> is near the top; don't download whole pages
+const DUPLICATE_WINDOW_DAYS = 3;            // how far back title matching looks
+
 function ideaExistsByUrl(url: string): number | null {
-  const result = db.query("SELECT id FROM ideas WHERE url = ?").get(url) as { id: number } | null;
+  const canonical = canonicalizeUrl(url);
+  const result = db.query("SELECT id FROM ideas WHERE canonical_url = ? OR url = ? OR url = ? LIMIT 1")
+    .get(canonical, url, canonical) as { id: number } | null;
   return result?.id || null;
 }
 
-function inferContentType(url: string, source: string): string {
+interface ResolvedPage {
+  canonicalUrl: string;
+  meta: PageMeta | null;   // null when the page wasn't fetched or isn't HTML
+}
+
+/**
+ * Canonical URL for an item link: follows redirects and the page's
+ * rel=canonical, then strips tracking params. The same fetch supplies the
+ * Open Graph metadata (plus oEmbed for video hosts) used to enrich new ideas.
+ * Only hits the network for links we don't already know, and never for
+ * internal hosts (those keep their link as-is and get no metadata).
+ */
+async function resolvePage(link: string): Promise<ResolvedPage> {
+  const normalized = canonicalizeUrl(link);
+  if (ideaExistsByUrl(link)) return { canonicalUrl: normalized, meta: null };
+  
+  try {
+    const { response, url: finalUrl } = await fetchPublic(link, {
+      headers: { "User-Agent": "IdeaTinder/1.0 (news aggregator)", "Accept": "text/html" },
+      signal: AbortSignal.timeout(CANONICAL_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok || !(response.headers.get("content-type") || "").includes("html")) {
+      response.body?.cancel().catch(() => {});
+      return { canonicalUrl: canonicalizeUrl(finalUrl), meta: null };
+    }
+    const html = await readLimited(response, CANONICAL_MAX_BYTES);
+    const meta = await fetchOEmbed(finalUrl, parsePageMeta(html, finalUrl));
+    return { canonicalUrl: canonicalizeUrl(meta.canonical ?? finalUrl), meta };
+  } catch {
+    return { canonicalUrl: normalized, meta: null };
+  }
+}
+
+/**
+ * Resolve every distinct link in one pool, so page and oEmbed fetches share
+ * the global and per-host limits instead of running one by one per feed.
+ */
+async function resolvePages(items: RSSItem[]): Promise<Map<string, ResolvedPage>> {
+  const pages = new Map<string, ResolvedPage>();
+  const links = [...new Set(items.map(item => item.link))].map(url => ({ url }));
+  if (links.length === 0) return pages;
+  
+  console.log(`🔗 Resolving ${links.length} links...\n`);
+  await runPool(links, async ({ url }) => {
+    pages.set(url, await resolvePage(url));
+  });
+  return pages;
+}
+
+interface RecentIdea {
+  id: number;
+  tokens: Set<string>;
+}
+
+function loadRecentIdeas(): RecentIdea[] {
+  const rows = db.query(`
+    SELECT id, title FROM ideas
+    WHERE ingested_at > datetime('now', '-' || ? || ' days')
+  `).all(DUPLICATE_WINDOW_DAYS) as { id: number; title: string }[];
+  return rows.map(row => ({ id: row.id, tokens: titleTokens(row.title) }));
+}
+
+function recordIdeaSource(ideaId: number, source: { name: string; url: string; feedUrl: string; title: string }) {
+  db.query(`
+    INSERT OR IGNORE INTO idea_sources (idea_id, source, url, source_feed, title)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(ideaId, source.name, source.url, source.feedUrl, source.title);
+}
+
+function inferContentType(url: string, source: string, meta?: PageMeta | null): string {
+  const fromMeta = contentTypeFromMeta(meta);
+  if (fromMeta) return fromMeta;
   if (url.includes('youtube.com') || url.includes('youtu.be')) return 'video';
   if (url.includes('arxiv.org') || url.includes('/paper')) return 'paper';
   if (source.toLowerCase().includes('changelog') || url.includes('/changelog')) return 'changelog';
@@ -156,18 +445,31 @@ function inferContentType(url: string, source: string): string {
   return 'article';
 }
 
-function insertIdea(idea: { title: string; source: string; summary: string; url: string; category: string; sourceFeed: string; publishedAt?: Date }): number | null {
+function insertIdea(idea: { title: string; source: string; summary: string; url: string; canonicalUrl?: string; category: string; sourceFeed: string; publishedAt?: Date; meta?: PageMeta | null; image?: string }): number | null {
   try {
-    const contentType = inferContentType(idea.url, idea.source);
+    const contentType = inferContentType(idea.url, idea.source, idea.meta);
     const publishedAt = idea.publishedAt ? idea.publishedAt.toISOString() : null;
+    let favicon = idea.meta?.favicon ?? null;
+    if (!favicon) {
+      try {
+        favicon = new URL("/favicon.ico", idea.url).toString();
+      } catch {
+        // Unparseable link; no favicon
+      }
+    }
     const stmt = db.query(`
-      INSERT INTO ideas (title, source, summary, url, category, source_feed, content_type, published_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO ideas (title, source, summary, url, canonical_url, category, source_feed, content_type, published_at,
+                         image_url, site_name, favicon_url, duration_seconds)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
-    stmt.run(idea.title, idea.source, idea.summary, idea.url, idea.category, idea.sourceFeed, contentType, publishedAt);
+    stmt.run(
+      idea.title, idea.source, idea.summary, idea.url, idea.canonicalUrl ?? canonicalizeUrl(idea.url), idea.category, idea.sourceFeed, contentType, publishedAt,
+      idea.meta?.image ?? idea.image ?? null, idea.meta?.siteName ?? null, favicon, idea.meta?.durationSeconds ?? null,
+    );
     
     // Get the inserted ID
     const result = db.query("SELECT last_insert_rowid() as id").get() as { id: number };
+    recordIdeaSource(result.id, { name: idea.source, url: idea.url, feedUrl: idea.sourceFeed, title: idea.title });
     return result.id;
   } catch (error) {
     console.log(`  ✗ Error inserting: ${error}`);
@@ -175,30 +477,445 @@ function insertIdea(idea: { title: string; source: string; summary: string; url:
   }
 }
 
-function addToUserPending(userId: number, ideaId: number): boolean {
+/**
+ * Queue an idea for a user, running it through their mute/boost filters.
+ * Returns the rule that matched, if any.
+ */
+function addToUserPending(userId: number, ideaId: number, filters: FilterSet): FilterRule | null {
   try {
-    db.query("INSERT OR IGNORE INTO user_pending (user_id, idea_id) VALUES (?, ?)").run(userId, ideaId);
-    return true;
+    const idea = db.query("SELECT title, summary, source, url, content_type FROM ideas WHERE id = ?").get(ideaId) as FilterableIdea | null;
+    const rule = idea ? filters.match(idea) : null;
+    const result = db.query(`
+      INSERT OR IGNORE INTO user_pending (user_id, idea_id, filter_action, filter_rule_id) VALUES (?, ?, ?, ?)
+    `).run(userId, ideaId, rule?.action ?? null, rule?.id ?? null);
+    return result.changes > 0 ? rule : null;
   } catch {
-    return false;
+    return null;
+  }
+}
+
+// =============================================================================
+// WORKER POOL
+// =============================================================================
+const FETCH_CONCURRENCY = 6;
+const PER_HOST_CONCURRENCY = 2;   // be polite to shared hosts like medium.com
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Run `worker` over `tasks` with at most `concurrency` in flight overall and
+ * at most `perHost` in flight against any single host.
+ */
+async function runPool<T extends { url: string }>(
+  tasks: T[],
+  worker: (task: T) => Promise<void>,
+  concurrency = FETCH_CONCURRENCY,
+  perHost = PER_HOST_CONCURRENCY,
+) {
+  const queue = [...tasks];
+  const activePerHost = new Map<string, number>();
+  const running = new Set<Promise<void>>();
+  
+  while (queue.length > 0 || running.size > 0) {
+    const index = running.size < concurrency
+      ? queue.findIndex(task => (activePerHost.get(hostOf(task.url)) ?? 0) < perHost)
+      : -1;
+    
+    if (index === -1) {
+      await Promise.race(running);
+      continue;
+    }
+    
+    const task = queue.splice(index, 1)[0]!;
+    const host = hostOf(task.url);
+    activePerHost.set(host, (activePerHost.get(host) ?? 0) + 1);
+    
+    const job: Promise<void> = worker(task)
+      .catch(error => console.log(`  ✗ Unexpected error for ${task.url}: ${error}`))
+      .finally(() => {
+        activePerHost.set(host, (activePerHost.get(host) ?? 1) - 1);
+        running.delete(job);
+      });
+    running.add(job);
   }
 }
 
+// =============================================================================
+// FULL-TEXT EXTRACTION
+// =============================================================================
+const EXTRACT_TIMEOUT_MS = 15000;
+const EXTRACT_MAX_BYTES = 2 * 1024 * 1024;
+const EXTRACT_BATCH_SIZE = 50;
+
+export interface IdeaContent {
+  idea_id: number;
+  status: "ok" | "skipped" | "failed";
+  url: string | null;
+  title: string | null;
+  byline: string | null;
+  lead_image: string | null;
+  content_html: string | null;
+  word_count: number | null;
+  reading_minutes: number | null;
+  error: string | null;
+  extracted_at: string;
+}
+
+function saveIdeaContent(ideaId: number, fields: Partial<Omit<IdeaContent, "idea_id" | "extracted_at">> & { status: IdeaContent["status"]; text_content?: string }) {
+  db.query(`
+    INSERT OR REPLACE INTO idea_content
+      (idea_id, status, url, title, byline, lead_image, content_html, text_content, word_count, reading_minutes, error, extracted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `).run(
+    ideaId, fields.status, fields.url ?? null, fields.title ?? null, fields.byline ?? null, fields.lead_image ?? null,
+    fields.content_html ?? null, fields.text_content ?? null, fields.word_count ?? null, fields.reading_minutes ?? null,
+    fields.error ?? null,
+  );
+}
+
+/**
+ * Fetch an idea's page and store its readable content. Videos and non-HTML
+ * links are marked skipped; pages with nothing article-like are too, so the
+ * reader view can fall back to the summary.
+ */
+export async function extractIdeaContent(ideaId: number): Promise<IdeaContent | null> {
+  const idea = db.query("SELECT id, url, content_type FROM ideas WHERE id = ?").get(ideaId) as
+    { id: number; url: string | null; content_type: string | null } | null;
+  if (!idea) return null;
+  
+  if (!idea.url || idea.content_type === "video") {
+    saveIdeaContent(ideaId, { status: "skipped", url: idea.url, error: idea.url ? "Videos have no article text" : "No link" });
+  } else {
+    try {
+      // Readers trigger this fetch, so only ever reach the public web
+      const { response, url: finalUrl } = await fetchPublic(idea.url, {
+        headers: { "User-Agent": "IdeaTinder/1.0 (news aggregator)", "Accept": "text/html,application/xhtml+xml" },
+        signal: AbortSignal.timeout(EXTRACT_TIMEOUT_MS),
+      });
+      const contentType = response.headers.get("content-type") || "";
+      if (!response.ok) {
+        response.body?.cancel().catch(() => {});
+        saveIdeaContent(ideaId, { status: "failed", url: finalUrl, error: `HTTP ${response.status}` });
+      } else if (!contentType.includes("html")) {
+        response.body?.cancel().catch(() => {});
+        saveIdeaContent(ideaId, { status: "skipped", url: finalUrl, error: `Not a web page (${contentType.split(";")[0] || "unknown type"})` });
+      } else {
+        const article = extractArticle(await readLimited(response, EXTRACT_MAX_BYTES), finalUrl);
+        if (article) {
+          saveIdeaContent(ideaId, {
+            status: "ok",
+            url: finalUrl,
+            title: article.title,
+            byline: article.byline,
+            lead_image: article.leadImage,
+            content_html: article.contentHtml,
+            text_content: article.text,
+            word_count: article.wordCount,
+            reading_minutes: article.readingMinutes,
+          });
+        } else {
+          saveIdeaContent(ideaId, { status: "skipped", url: finalUrl, error: "No article text found on the page" });
+        }
+      }
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) {
+        saveIdeaContent(ideaId, { status: "skipped", url: idea.url, error: error.message });
+      } else {
+        const message = error instanceof Error && error.name === "TimeoutError"
+          ? `Timed out after ${EXTRACT_TIMEOUT_MS / 1000}s`
+          : `Network error: ${error instanceof Error ? error.message : error}`;
+        saveIdeaContent(ideaId, { status: "failed", url: idea.url, error: message });
+      }
+    }
+  }
+  
+  return db.query(`
+    SELECT idea_id, status, url, title, byline, lead_image, content_html, word_count, reading_minutes, error, extracted_at
+    FROM idea_content WHERE idea_id = ?
+  `).get(ideaId) as IdeaContent;
+}
+
+// Extract recent ideas that are still waiting in someone's queue (and not muted there),
+// or only in one user's queue after a manual refresh
+async function extractPendingContent(userId?: number) {
+  const ideas = db.query(`
+    SELECT DISTINCT i.id, i.url FROM ideas i
+    JOIN user_pending up ON up.idea_id = i.id AND up.filter_action IS NOT 'mute'
+    LEFT JOIN idea_content c ON c.idea_id = i.id
+    WHERE c.idea_id IS NULL AND i.url IS NOT NULL AND (?2 IS NULL OR up.user_id = ?2)
+    ORDER BY i.id DESC
+    LIMIT ?1
+  `).all(EXTRACT_BATCH_SIZE, userId ?? null) as { id: number; url: string }[];
+  if (ideas.length === 0) return;
+  
+  console.log(`📖 Extracting article text for ${ideas.length} ideas...`);
+  const counts = new Map<string, number>();
+  await runPool(ideas, async idea => {
+    const content = await extractIdeaContent(idea.id);
+    if (content) counts.set(content.status, (counts.get(content.status) ?? 0) + 1);
+  });
+  console.log(`   ${[...counts].map(([status, count]) => `${status}: ${count}`).join(", ")}\n`);
+}
+
+// =============================================================================
+// SUMMARIZATION
+// =============================================================================
+const SUMMARIZE_BATCH_SIZE = 50;
+const SUMMARIZE_CONCURRENCY = 2;
+
+/**
+ * Summarize pending ideas whose extraction has run, from the article text if
+ * there is any and the feed's own summary otherwise. Every idea is attempted
+ * once; summarized_at is set even when the text was too short to bother.
+ */
+async function summarizePendingIdeas(userId?: number) {
+  const summarizer = getSummarizer();
+  if (!summarizer) return;
+
+  const ideas = db.query(`
+    SELECT DISTINCT i.id, COALESCE(i.url, '') AS url, i.title, i.summary, c.text_content FROM ideas i
+    JOIN user_pending up ON up.idea_id = i.id
+    JOIN idea_content c ON c.idea_id = i.id
+    WHERE i.summarized_at IS NULL AND (?2 IS NULL OR up.user_id = ?2)
+    ORDER BY i.id DESC
+    LIMIT ?1
+  `).all(SUMMARIZE_BATCH_SIZE, userId ?? null) as { id: number; url: string; title: string; summary: string | null; text_content: string | null }[];
+  if (ideas.length === 0) return;
+
+  console.log(`✍️  Summarizing ${ideas.length} ideas with ${summarizer.name}...`);
+  const save = db.query(`
+    UPDATE ideas SET generated_summary = ?, summary_backend = ?, summarized_at = CURRENT_TIMESTAMP WHERE id = ?
+  `);
+  let summarized = 0;
+  await runPool(ideas, async idea => {
+    try {
+      const result = await summarizeWith(summarizer, { title: idea.title, text: idea.text_content || idea.summary || "" });
+      save.run(result?.summary ?? null, result?.backend ?? null, idea.id);
+      if (result) summarized++;
+    } catch (error) {
+      console.log(`   ✗ ${idea.title}: ${error instanceof Error ? error.message : error}`);
+    }
+  }, SUMMARIZE_CONCURRENCY);
+  console.log(`   Summarized: ${summarized}, too short: ${ideas.length - summarized}\n`);
+}
+
+// =============================================================================
+// TOPIC TAGGING
+// =============================================================================
+
+// Tag every queued idea that hasn't been tagged yet, one user at a time
+function tagPendingIdeas(userId?: number) {
+  const batches = db.query(`
+    SELECT user_id, json_group_array(idea_id) as idea_ids FROM user_pending
+    WHERE tagged_at IS NULL AND (?1 IS NULL OR user_id = ?1)
+    GROUP BY user_id
+  `).all(userId ?? null) as { user_id: number; idea_ids: string }[];
+  if (batches.length === 0) return;
+
+  console.log(`🏷️  Tagging new ideas for ${batches.length} users...`);
+  const markTagged = db.query("UPDATE user_pending SET tagged_at = CURRENT_TIMESTAMP WHERE user_id = ? AND idea_id = ?");
+  for (const batch of batches) {
+    const ideaIds = JSON.parse(batch.idea_ids) as number[];
+    const tagged = tagIdeasForUser(db, batch.user_id, ideaIds);
+    db.transaction(() => {
+      for (const ideaId of ideaIds) markTagged.run(batch.user_id, ideaId);
+    })();
+    console.log(`   User ${batch.user_id}: ${tagged}/${ideaIds.length} ideas tagged`);
+  }
+  console.log("");
+}
+
 // =============================================================================
 // MAIN INGESTION
 // =============================================================================
 
+interface FeedTiming {
+  name: string;
+  status: FetchResult["status"];
+  ms: number;
+}
+
+export const BACKFILL_MODES = ["none", "latest", "all"] as const;
+export type BackfillMode = typeof BACKFILL_MODES[number];
+export const DEFAULT_LOOKBACK_HOURS = 24;
+export const DEFAULT_MAX_ITEMS = 10;
+const BACKFILL_ALL_LIMIT = 100;
+
+// Per-subscription ingestion settings from user_feeds
+interface FeedSubscription {
+  user_id: number;
+  lookback_hours: number | null;
+  max_items: number | null;
+  backfill_mode: BackfillMode | null;
+  first_ingested_at: string | null;
+}
+
+type DatedItem = RSSItem & { seenAt: Date };
+
+/**
+ * Give every item an effective date: its pubDate, or for undated items the
+ * time this feed first showed it to us (remembered across runs).
+ */
+function resolveItemDates(feedUrl: string, items: RSSItem[]): DatedItem[] {
+  const insertSeen = db.query("INSERT OR IGNORE INTO feed_items_seen (feed_url, item_key) VALUES (?, ?)");
+  const getSeen = db.query("SELECT first_seen_at FROM feed_items_seen WHERE feed_url = ? AND item_key = ?");
+  
+  return db.transaction(() => items.map(item => {
+    if (item.pubDate) return { ...item, seenAt: item.pubDate };
+    const key = item.guid || item.link;
+    insertSeen.run(feedUrl, key);
+    const row = getSeen.get(feedUrl, key) as { first_seen_at: string };
+    return { ...item, seenAt: new Date(row.first_seen_at.replace(" ", "T") + "Z") };
+  }))();
+}
+
+// Pick the items one subscriber should get, newest first
+function selectItemsFor(sub: FeedSubscription, items: DatedItem[]): RSSItem[] {
+  const maxItems = sub.max_items ?? DEFAULT_MAX_ITEMS;
+  const backfill = sub.backfill_mode ?? "latest";
+  const sorted = items
+    .filter(item => item.title && item.link)
+    .sort((a, b) => b.seenAt.getTime() - a.seenAt.getTime());
+  
+  // A newly added feed can skip the lookback window once
+  if (!sub.first_ingested_at && backfill !== "none") {
+    return sorted.slice(0, backfill === "all" ? BACKFILL_ALL_LIMIT : maxItems);
+  }
+  
+  const cutoff = Date.now() - (sub.lookback_hours ?? DEFAULT_LOOKBACK_HOURS) * 60 * 60 * 1000;
+  return sorted
+    .filter(item => item.seenAt.getTime() > cutoff)
+    .slice(0, maxItems);
+}
+
+/**
+ * Insert new ideas from one feed and queue them for its subscribers.
+ * Items matching an existing idea by canonical URL, or by title within the
+ * last few days, are merged into it as an extra source instead.
+ * Runs as a single transaction so a feed is either fully stored or not at all.
+ */
+function storeFeedItems(
+  feed: { url: string; name: string; category: string },
+  deliveries: { userId: number; items: RSSItem[] }[],
+  pages: Map<string, ResolvedPage>,
+  log: string[],
+): { added: number; skipped: number } {
+  let added = 0;
+  let skipped = 0;
+  const ideaIds = new Map<string, number | null>();
+  
+  db.transaction(() => {
+    const recent = loadRecentIdeas();
+    
+    for (const { userId, items } of deliveries) {
+      const filters = loadFilters(db, userId);
+      for (const item of items) {
+        let ideaId = ideaIds.get(item.link);
+        
+        if (ideaId === undefined) {
+          const page = pages.get(item.link);
+          const canonicalUrl = page?.canonicalUrl ?? canonicalizeUrl(item.link);
+          const tokens = titleTokens(item.title);
+          
+          // Check if idea already exists globally, by URL and then by title
+          ideaId = ideaExistsByUrl(item.link) ?? ideaExistsByUrl(canonicalUrl);
+          if (!ideaId) {
+            const match = recent.find(idea => isSameStory(idea.tokens, tokens));
+            if (match) {
+              ideaId = match.id;
+              log.push(`   ≈ ${item.title.substring(0, 50)}... (merged into #${match.id})`);
+            }
+          }
+          
+          if (ideaId) {
+            skipped++;
+            recordIdeaSource(ideaId, { name: feed.name, url: item.link, feedUrl: feed.url, title: item.title });
+          } else {
+            ideaId = insertIdea({
+              title: item.title,
+              source: feed.name,
+              summary: item.description || `New update from ${feed.name}. Click to read more.`,
+              url: item.link,
+              canonicalUrl,
+              category: feed.category,
+              sourceFeed: feed.url,
+              publishedAt: item.pubDate,
+              meta: page?.meta,
+              // Feeds with media thumbnails (YouTube, podcasts) cover pages without og:image
+              image: item.enclosure?.type?.startsWith("image/") ? item.enclosure.url : undefined,
+            });
+            
+            if (ideaId) {
+              added++;
+              recent.push({ id: ideaId, tokens });
+              log.push(`   ✓ ${item.title.substring(0, 50)}...`);
+            }
+          }
+          ideaIds.set(item.link, ideaId);
+        }
+        
+        if (ideaId) {
+          const rule = addToUserPending(userId, ideaId, filters);
+          if (rule?.action === "mute") log.push(`   🔇 ${item.title.substring(0, 50)}... (muted for user ${userId})`);
+        }
+      }
+    }
+    
+    for (const { userId } of deliveries) {
+      db.query(`
+        UPDATE user_feeds SET first_ingested_at = COALESCE(first_ingested_at, CURRENT_TIMESTAMP)
+        WHERE user_id = ? AND url = ?
+      `).run(userId, feed.url);
+    }
+  })();
+  
+  return { added, skipped };
+}
+
+function printTimingSummary(timings: FeedTiming[], startedAt: number) {
+  const wallMs = Date.now() - startedAt;
+  const fetchMs = timings.reduce((sum, t) => sum + t.ms, 0);
+  const counts = new Map<string, number>();
+  for (const t of timings) counts.set(t.status, (counts.get(t.status) ?? 0) + 1);
+  
+  console.log(`⏱  ${timings.length} feeds in ${(wallMs / 1000).toFixed(1)}s (${(fetchMs / 1000).toFixed(1)}s of fetching)`);
+  console.log(`   ${[...counts].map(([status, count]) => `${status}: ${count}`).join(", ")}`);
+  const slowest = [...timings].sort((a, b) => b.ms - a.ms).slice(0, 3).filter(t => t.ms > 0);
+  if (slowest.length > 0) {
+    console.log(`   Slowest: ${slowest.map(t => `${t.name} ${(t.ms / 1000).toFixed(1)}s`).join(", ")}`);
+  }
+}
+
 async function ingest() {
+  const startedAt = Date.now();
   console.log("🔄 Starting news ingestion...\n");
   console.log(`📅 ${new Date().toISOString()}\n`);
   
   // Step 1: Get all unique enabled feeds with their users
-  const feedsWithUsers = db.query(`
-    SELECT url, name, category, GROUP_CONCAT(user_id) as user_ids
+  const subscriptions = db.query(`
+    SELECT url, name, category, type, user_id, lookback_hours, max_items, backfill_mode, first_ingested_at
     FROM user_feeds 
     WHERE enabled = 1
-    GROUP BY url
-  `).all() as { url: string; name: string; category: string; user_ids: string }[];
+    ORDER BY id
+  `).all() as ({ url: string; name: string; category: string; type: SourceType } & FeedSubscription)[];
+  
+  const feedsWithUsers: { url: string; name: string; category: string; type: SourceType; subscriptions: FeedSubscription[] }[] = [];
+  const byUrl = new Map<string, typeof feedsWithUsers[number]>();
+  for (const sub of subscriptions) {
+    let feed = byUrl.get(sub.url);
+    if (!feed) {
+      feed = { url: sub.url, name: sub.name, category: sub.category, type: sub.type, subscriptions: [] };
+      byUrl.set(sub.url, feed);
+      feedsWithUsers.push(feed);
+    }
+    feed.subscriptions.push(sub);
+  }
   
   console.log(`📡 Found ${feedsWithUsers.length} unique feeds across all users\n`);
   
@@ -209,76 +926,69 @@ async function ingest() {
   
   let totalNew = 0;
   let totalSkipped = 0;
+  const timings: FeedTiming[] = [];
+  const fetched: { feed: typeof feedsWithUsers[number]; deliveries: { userId: number; items: RSSItem[] }[]; log: string[] }[] = [];
   
-  // Step 2: Fetch each feed once, distribute to users
-  for (const feed of feedsWithUsers) {
-    const userIds = feed.user_ids.split(",").map(id => parseInt(id));
-    console.log(`📰 ${feed.name} (${userIds.length} users)`);
+  // Step 2: Fetch each feed once and pick what each subscriber gets
+  await runPool(feedsWithUsers, async feed => {
+    const userIds = feed.subscriptions.map(sub => sub.user_id);
+    const log = [`📰 ${feed.name} (${userIds.length} users)`];
     
-    const items = await fetchRSS(feed.url);
+    // Skip validators while any subscriber is still waiting for a first batch
+    const conditional = feed.subscriptions.every(sub => sub.first_ingested_at !== null);
+    const fetchStart = Date.now();
+    const result = await fetchRSS(feed.url, { conditional, type: feed.type });
+    timings.push({ name: feed.name, status: result.status, ms: Date.now() - fetchStart });
+    logFetch(feed.url, result, Date.now() - fetchStart);
     
-    if (items.length === 0) {
-      console.log("   No items found\n");
+    if (result.status === "backoff") {
+      log.push(`   Backing off until ${result.until}`);
+    } else if (result.status === "error") {
+      log.push(`   ✗ ${result.error}`);
+      db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = ? WHERE url = ?").run(result.error, feed.url);
+      const disabled = disableIfDead(feed.url, result.error);
+      if (disabled > 0) log.push(`   ⛔ Auto-disabled for ${disabled} users`);
+    } else if (result.status === "not_modified" || result.items.length === 0) {
+      log.push(result.status === "not_modified" ? "   Not modified" : "   No items found");
       // Update last_fetched anyway
-      db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP WHERE url = ?").run(feed.url);
-      continue;
+      db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = NULL WHERE url = ?").run(feed.url);
+    } else {
+      const items = resolveItemDates(feed.url, result.items);
+      const deliveries = feed.subscriptions.map(sub => ({ userId: sub.user_id, items: selectItemsFor(sub, items) }));
+      fetched.push({ feed, deliveries, log });
+      return;
     }
     
-    // Only take items from last 24 hours
-    const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
-    const sortedItems = items
-      .filter(item => item.title && item.link)
-      .filter(item => item.pubDate && item.pubDate.getTime() > oneDayAgo)
-      .sort((a, b) => {
-        if (!a.pubDate || !b.pubDate) return 0;
-        return b.pubDate.getTime() - a.pubDate.getTime();
-      })
-      .slice(0, 10);  // Allow more since we're filtering by time
-    
-    let added = 0;
-    let skipped = 0;
-    
-    for (const item of sortedItems) {
-      // Check if idea already exists globally
-      let ideaId = ideaExistsByUrl(item.link);
-      
-      if (ideaId) {
-        skipped++;
-        totalSkipped++;
-      } else {
-        // Insert new idea
-        ideaId = insertIdea({
-          title: item.title,
-          source: feed.name,
-          summary: item.description || `New update from ${feed.name}. Click to read more.`,
-          url: item.link,
-          category: feed.category,
-          sourceFeed: feed.url,
-          publishedAt: item.pubDate,
-        });
-        
-        if (ideaId) {
-          added++;
-          totalNew++;
-          console.log(`   ✓ ${item.title.substring(0, 50)}...`);
-        }
-      }
-      
-      // Add to pending for each user who has this feed (if idea exists)
-      if (ideaId) {
-        for (const userId of userIds) {
-          addToUserPending(userId, ideaId);
-        }
-      }
-    }
+    console.log(log.join("\n") + "\n");
+  });
+  
+  // Step 3: Resolve every feed's links in one pool, then store and distribute
+  const pages = await resolvePages(fetched.flatMap(f => f.deliveries.flatMap(d => d.items)));
+  for (const { feed, deliveries, log } of fetched) {
+    const { added, skipped } = storeFeedItems(feed, deliveries, pages, log);
+    totalNew += added;
+    totalSkipped += skipped;
     
     // Update last_fetched
     db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = NULL WHERE url = ?").run(feed.url);
-    
-    console.log(`   Added: ${added}, Existing: ${skipped}, Distributed to ${userIds.length} users\n`);
+    log.push(`   Added: ${added}, Existing: ${skipped}, Distributed to ${deliveries.length} users`);
+    console.log(log.join("\n") + "\n");
   }
   
-  // Step 3: Cleanup old unswiped items (7+ days)
+  // Step 4: Pull readable text for the reader view
+  await extractPendingContent();
+  
+  // Step 5: Summarize from the extracted text
+  await summarizePendingIdeas();
+  
+  // Step 6: Collaborative recommendations for users who opted in
+  const recommended = injectRecommendations(db);
+  if (recommended > 0) console.log(`✨ Recommended ${recommended} ideas from other users' saves\n`);
+  
+  // Step 7: Topic tags, now that summaries and recommendations are in
+  tagPendingIdeas();
+  
+  // Step 8: Cleanup old unswiped items (7+ days)
   console.log("🧹 Cleaning up old items...");
   const deleted = db.query(`
     DELETE FROM user_pending 
@@ -290,6 +1000,8 @@ async function ingest() {
     )
   `).run();
   console.log(`   Removed ${deleted.changes} old unswiped items\n`);
+  db.query("DELETE FROM feed_items_seen WHERE first_seen_at < datetime('now', '-90 days')").run();
+  db.query("DELETE FROM feed_fetch_log WHERE fetched_at < datetime('now', '-90 days')").run();
   
   // Summary
   console.log("━".repeat(50));
@@ -301,70 +1013,68 @@ async function ingest() {
   const totalPending = db.query("SELECT COUNT(*) as count FROM user_pending").get() as { count: number };
   console.log(`   Total ideas in DB: ${totalIdeas.count}`);
   console.log(`   Total pending items: ${totalPending.count}`);
+  printTimingSummary(timings, startedAt);
 }
 
 // Export for use by server.ts refresh endpoint
 export async function ingestForUser(userId: number) {
+  const startedAt = Date.now();
   console.log(`🔄 Refreshing feeds for user ${userId}...\n`);
   
   // Get this user's enabled feeds
   const feeds = db.query(`
-    SELECT url, name, category FROM user_feeds 
+    SELECT url, name, category, type, user_id, lookback_hours, max_items, backfill_mode, first_ingested_at
+    FROM user_feeds 
     WHERE user_id = ? AND enabled = 1
-  `).all(userId) as { url: string; name: string; category: string }[];
+  `).all(userId) as ({ url: string; name: string; category: string; type: SourceType } & FeedSubscription)[];
   
   console.log(`📡 Found ${feeds.length} feeds\n`);
   
   let totalNew = 0;
+  const timings: FeedTiming[] = [];
+  const fetched: { feed: typeof feeds[number]; items: RSSItem[]; log: string[] }[] = [];
   
-  for (const feed of feeds) {
-    console.log(`📰 ${feed.name}`);
-    
-    const items = await fetchRSS(feed.url);
-    if (items.length === 0) {
-      console.log("   No items\n");
-      continue;
-    }
+  await runPool(feeds, async feed => {
+    const log = [`📰 ${feed.name}`];
     
-    // Only take items from last 24 hours
-    const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
-    const sortedItems = items
-      .filter(item => item.title && item.link)
-      .filter(item => item.pubDate && item.pubDate.getTime() > oneDayAgo)
-      .sort((a, b) => {
-        if (!a.pubDate || !b.pubDate) return 0;
-        return b.pubDate.getTime() - a.pubDate.getTime();
-      })
-      .slice(0, 10);
+    // Only this user gets the items, so fetch in full and leave the shared validators alone
+    const fetchStart = Date.now();
+    const result = await fetchRSS(feed.url, { conditional: false, storeValidators: false, type: feed.type });
+    timings.push({ name: feed.name, status: result.status, ms: Date.now() - fetchStart });
+    logFetch(feed.url, result, Date.now() - fetchStart);
     
-    for (const item of sortedItems) {
-      let ideaId = ideaExistsByUrl(item.link);
-      
-      if (!ideaId) {
-        ideaId = insertIdea({
-          title: item.title,
-          source: feed.name,
-          summary: item.description || `New update from ${feed.name}.`,
-          url: item.link,
-          category: feed.category,
-          sourceFeed: feed.url,
-          publishedAt: item.pubDate,
-        });
-        if (ideaId) {
-          totalNew++;
-          console.log(`   ✓ ${item.title.substring(0, 50)}...`);
-        }
-      }
-      
-      if (ideaId) {
-        addToUserPending(userId, ideaId);
-      }
+    if (result.status === "backoff") {
+      log.push(`   Backing off until ${result.until}`);
+    } else if (result.status === "error") {
+      log.push(`   ✗ ${result.error}`);
+      db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = ? WHERE user_id = ? AND url = ?").run(result.error, userId, feed.url);
+      if (disableIfDead(feed.url, result.error) > 0) log.push("   ⛔ Auto-disabled");
+    } else if (result.status === "not_modified" || result.items.length === 0) {
+      log.push(result.status === "not_modified" ? "   Not modified" : "   No items");
+      db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = NULL WHERE user_id = ? AND url = ?").run(userId, feed.url);
+    } else {
+      fetched.push({ feed, items: selectItemsFor(feed, resolveItemDates(feed.url, result.items)), log });
+      return;
     }
     
-    db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP WHERE user_id = ? AND url = ?").run(userId, feed.url);
+    console.log(log.join("\n"));
+  });
+  
+  const pages = await resolvePages(fetched.flatMap(f => f.items));
+  for (const { feed, items, log } of fetched) {
+    totalNew += storeFeedItems(feed, [{ userId, items }], pages, log).added;
+    db.query("UPDATE user_feeds SET last_fetched = CURRENT_TIMESTAMP, last_error = NULL WHERE user_id = ? AND url = ?").run(userId, feed.url);
+    console.log(log.join("\n"));
   }
   
-  console.log(`\n✅ Added ${totalNew} new items`);
+  console.log("");
+  // Same post-processing as the cron run, for this user's queue only
+  await extractPendingContent(userId);
+  await summarizePendingIdeas(userId);
+  tagPendingIdeas(userId);
+  
+  console.log(`✅ Added ${totalNew} new items`);
+  printTimingSummary(timings, startedAt);
   return totalNew;
 }
 
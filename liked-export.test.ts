@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "node:zlib";
+import { toCsv, toObsidianZip, type ExportIdea } from "./liked-export";
+
+const idea = (fields: Partial<ExportIdea>): ExportIdea => ({
+  id: 1,
+  title: "Untitled",
+  source: "Blog",
+  url: null,
+  category: null,
+  content_type: "article",
+  published_at: null,
+  summary: null,
+  generated_summary: null,
+  feedback: null,
+  swiped_at: "2026-03-10 08:00:00",
+  tags: [],
+  collections: [],
+  notes: [],
+  ...fields,
+});
+
+// File names and contents of an archive, walking its local headers
+function unzip(zip: Uint8Array): Map<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files = new Map<string, string>();
+  for (let offset = 0; view.getUint32(offset, true) === 0x04034b50;) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    files.set(name, new TextDecoder().decode(inflateRawSync(zip.subarray(start, start + size))));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe("toCsv", () => {
+  test("writes a header and one quoted row per idea", () => {
+    const csv = toCsv([idea({
+      title: 'Say "hi", world',
+      url: "https://example.com/a",
+      tags: ["dev", "ai"],
+      feedback: "Line one\nline two",
+      notes: [{ id: 1, idea_id: 1, kind: "highlight", quote: "Quoted", body: "Mine", created_at: "2026-03-11 09:00:00", updated_at: "2026-03-11 09:00:00" }],
+    })]);
+    const [header, row] = csv.split("\r\n");
+    expect(header).toBe("title,url,source,category,type,tags,collections,hot_take,notes,summary,published_at,saved_at");
+    expect(row).toStartWith('"Say ""hi"", world",https://example.com/a,Blog,,article,dev; ai,,"Line one\nline two","""Quoted"" — Mine",,,2026-03-10 08:00:00');
+    expect(csv).toEndWith("\r\n");
+  });
+
+  test("defuses cells that spreadsheets would run as formulas", () => {
+    const csv = toCsv([idea({
+      title: '=HYPERLINK("http://evil.example","click")',
+      source: "+cmd",
+      summary: "-2+3",
+      feedback: "@SUM(A1)",
+      category: "\tx",
+    })]);
+    const row = csv.split("\r\n")[1]!;
+    expect(row).toStartWith(`"'=HYPERLINK(""http://evil.example"",""click"")",,'+cmd,'\tx,`);
+    expect(row).toContain(",'@SUM(A1),,'-2+3,");
+    // Only a leading sign is a formula
+    expect(toCsv([idea({ title: "C++ vs -O2" })]).split("\r\n")[1]).toStartWith("C++ vs -O2,");
+  });
+});
+
+describe("toObsidianZip", () => {
+  test("writes a note per idea plus linked source and tag notes", () => {
+    const files = unzip(toObsidianZip([
+      idea({ title: "What's new in C#? [part 1/2]", url: "https://example.com/cs", tags: ["dev"], feedback: "Nice" }),
+      idea({ id: 2, title: "What's new in C#? [part 1/2]", source: "News: Daily" }),
+    ]));
+    expect([...files.keys()]).toEqual([
+      "Ideas/What's new in C part 1 2.md",
+      "Ideas/What's new in C part 1 2 (2).md",
+      "Sources/Blog.md",
+      "Sources/News Daily.md",
+      "Tags/dev.md",
+    ]);
+
+    const note = files.get("Ideas/What's new in C part 1 2.md")!;
+    expect(note).toStartWith('---\ntitle: "What\'s new in C#? [part 1/2]"\n');
+    expect(note).toContain("Source: [[Sources/Blog|Blog]]  \nTags: [[Tags/dev|dev]]  \nLink: https://example.com/cs\n");
+    expect(note).toContain("**Hot take:** Nice");
+    expect(files.get("Sources/News Daily.md")).toBe("# News Daily\n\n- [[Ideas/What's new in C part 1 2 (2)|What's new in C part 1 2 (2)]]\n");
+    expect(files.get("Tags/dev.md")).toBe("# #dev\n\n- [[Ideas/What's new in C part 1 2|What's new in C part 1 2]]\n");
+  });
+
+  test("names untitled ideas", () => {
+    expect([...unzip(toObsidianZip([idea({ title: "///" })])).keys()]).toContain("Ideas/Untitled.md");
+  });
+});
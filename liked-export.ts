@@ -0,0 +1,282 @@
+/**
+ * Idea Tinder - Saved Ideas Export
+ *
+ * Saved ideas in formats that drop straight into a writing workflow, for
+ * GET /api/liked/export:
+ *
+ *   md        One Markdown file; each idea is a section with YAML front matter
+ *   csv       One row per idea, for spreadsheets
+ *   html      A standalone page
+ *   obsidian  A zip vault: one note per idea under Ideas/, plus a note per
+ *             source and per tag that the idea notes link to, so Obsidian's
+ *             backlinks group ideas by source and tag
+ *
+ * The GDPR export (/api/export) stays raw JSON.
+ */
+
+import type { Database } from "bun:sqlite";
+import { notesByIdea, type IdeaNote } from "./notes";
+import { buildZip } from "./zip";
+
+export const EXPORT_FORMATS = ["md", "csv", "html", "obsidian"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportFilter {
+  from?: string | null;         // YYYY-MM-DD, on the save date
+  to?: string | null;
+  category?: string | null;
+  collection?: number | null;   // collection id
+}
+
+export interface ExportIdea {
+  id: number;
+  title: string;
+  source: string;
+  url: string | null;
+  category: string | null;
+  content_type: string | null;
+  published_at: string | null;
+  summary: string | null;
+  generated_summary: string | null;
+  feedback: string | null;
+  swiped_at: string;
+  tags: string[];
+  collections: string[];
+  notes: IdeaNote[];
+}
+
+export interface ExportFile {
+  body: string | Uint8Array;
+  contentType: string;
+  extension: string;
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+export function loadExportIdeas(db: Database, userId: number, filter: ExportFilter): ExportIdea[] {
+  const rows = db.query(`
+    SELECT i.id, i.title, i.source, i.url, i.category, i.content_type, i.published_at, i.summary, i.generated_summary,
+           s.feedback, s.swiped_at,
+           (SELECT json_group_array(t.tag) FROM idea_tags t WHERE t.user_id = ?1 AND t.idea_id = i.id) as tags_json,
+           (SELECT json_group_array(c.name) FROM collection_items ci JOIN collections c ON c.id = ci.collection_id
+            WHERE c.user_id = ?1 AND ci.idea_id = i.id) as collections_json
+    FROM swipes s
+    JOIN ideas i ON i.id = s.idea_id
+    WHERE s.user_id = ?1 AND s.direction = 'right'
+    AND (?2 IS NULL OR date(s.swiped_at) >= date(?2))
+    AND (?3 IS NULL OR date(s.swiped_at) <= date(?3))
+    AND (?4 IS NULL OR i.category = ?4)
+    AND (?5 IS NULL OR EXISTS (
+      SELECT 1 FROM collection_items ci JOIN collections c ON c.id = ci.collection_id
+      WHERE ci.collection_id = ?5 AND c.user_id = ?1 AND ci.idea_id = i.id
+    ))
+    ORDER BY s.swiped_at DESC
+  `).all(userId, filter.from || null, filter.to || null, filter.category || null, filter.collection ?? null) as
+    (Omit<ExportIdea, "tags" | "collections" | "notes"> & { tags_json: string; collections_json: string })[];
+
+  const notes = notesByIdea(db, userId);
+  return rows.map(({ tags_json, collections_json, ...idea }) => ({
+    ...idea,
+    tags: JSON.parse(tags_json) as string[],
+    collections: JSON.parse(collections_json) as string[],
+    notes: notes.get(idea.id) ?? [],
+  }));
+}
+
+// =============================================================================
+// FORMATS
+// =============================================================================
+
+// JSON strings are valid YAML double-quoted scalars
+function yamlValue(value: string | string[] | null): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `[${value.map(v => JSON.stringify(v)).join(", ")}]`;
+  return JSON.stringify(value);
+}
+
+function frontMatter(fields: Record<string, string | string[] | null>): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${yamlValue(value)}`);
+  return ["---", ...lines, "---"].join("\n");
+}
+
+function ideaSummary(idea: ExportIdea): string | null {
+  return idea.generated_summary || idea.summary;
+}
+
+function notesMarkdown(notes: IdeaNote[]): string[] {
+  if (notes.length === 0) return [];
+  const lines = ["## Notes", ""];
+  for (const note of notes) {
+    if (note.quote) lines.push(...note.quote.split("\n").map(line => `> ${line}`), "");
+    if (note.body) lines.push(note.body, "");
+    lines.push(`_${note.created_at}_`, "");
+  }
+  return lines;
+}
+
+function ideaFrontMatter(idea: ExportIdea): string {
+  return frontMatter({
+    title: idea.title,
+    url: idea.url,
+    source: idea.source,
+    category: idea.category,
+    type: idea.content_type,
+    published: idea.published_at,
+    saved: idea.swiped_at,
+    tags: idea.tags,
+    collections: idea.collections,
+  });
+}
+
+export function toMarkdown(ideas: ExportIdea[]): string {
+  return ideas.map(idea => [
+    ideaFrontMatter(idea),
+    "",
+    `# ${idea.title}`,
+    "",
+    ...(ideaSummary(idea) ? [ideaSummary(idea)!, ""] : []),
+    ...(idea.feedback ? [`**Hot take:** ${idea.feedback}`, ""] : []),
+    ...notesMarkdown(idea.notes),
+  ].join("\n").trimEnd()).join("\n\n") + "\n";
+}
+
+function csvCell(value: string | null): string {
+  let text = value ?? "";
+  // Spreadsheets run cells starting with these as formulas; a leading ' shows them as text
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(ideas: ExportIdea[]): string {
+  const header = ["title", "url", "source", "category", "type", "tags", "collections", "hot_take", "notes", "summary", "published_at", "saved_at"];
+  const rows = ideas.map(idea => [
+    idea.title,
+    idea.url,
+    idea.source,
+    idea.category,
+    idea.content_type,
+    idea.tags.join("; "),
+    idea.collections.join("; "),
+    idea.feedback,
+    idea.notes.map(note => [note.quote ? `"${note.quote}"` : "", note.body ?? ""].filter(Boolean).join(" — ")).join("\n\n"),
+    ideaSummary(idea),
+    idea.published_at,
+    idea.swiped_at,
+  ].map(csvCell).join(","));
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function toHtml(ideas: ExportIdea[], title = "Saved ideas"): string {
+  const items = ideas.map(idea => {
+    const heading = idea.url
+      ? `<a href="${escapeHtml(idea.url)}">${escapeHtml(idea.title)}</a>`
+      : escapeHtml(idea.title);
+    const meta = [idea.source, idea.category, `saved ${idea.swiped_at.substring(0, 10)}`].filter(Boolean).map(v => escapeHtml(v!)).join(" · ");
+    const notes = idea.notes.map(note =>
+      (note.quote ? `<blockquote>${escapeHtml(note.quote)}</blockquote>` : "") +
+      (note.body ? `<p class="note">${escapeHtml(note.body)}</p>` : "")
+    ).join("");
+    return `<article>
+  <h2>${heading}</h2>
+  <div class="meta">${meta}${idea.tags.length ? ` · ${idea.tags.map(t => `#${escapeHtml(t)}`).join(" ")}` : ""}</div>
+  ${ideaSummary(idea) ? `<p>${escapeHtml(ideaSummary(idea)!)}</p>` : ""}
+  ${idea.feedback ? `<p class="take">${escapeHtml(idea.feedback)}</p>` : ""}
+  ${notes}
+</article>`;
+  }).join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; line-height: 1.6; color: #222; }
+    article { border-bottom: 1px solid #eee; padding: 16px 0; }
+    h2 { font-size: 1.15em; margin: 0 0 4px; }
+    a { color: #0b7a75; }
+    .meta { color: #888; font-size: 0.85em; }
+    .take { font-style: italic; }
+    .take::before { content: "Hot take: "; font-weight: 600; font-style: normal; }
+    blockquote { border-left: 3px solid #e0b000; margin: 8px 0; padding-left: 12px; color: #555; }
+    .note { white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${ideas.length} idea${ideas.length === 1 ? "" : "s"} · exported ${new Date().toISOString().substring(0, 10)}</p>
+${items}
+</body>
+</html>
+`;
+}
+
+// A name that's safe as a file name and as an Obsidian [[link]]
+function noteName(text: string): string {
+  return text.replace(/[\\/:*?"<>|#^[\]]/g, " ").replace(/\s+/g, " ").trim().substring(0, 100).trim() || "Untitled";
+}
+
+export function toObsidianZip(ideas: ExportIdea[]): Uint8Array {
+  const files: { name: string; data: string }[] = [];
+  const taken = new Set<string>();
+  const bySource = new Map<string, string[]>();
+  const byTag = new Map<string, string[]>();
+
+  for (const idea of ideas) {
+    // Titles repeat across feeds; keep every note
+    let name = noteName(idea.title);
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${noteName(idea.title)} (${n})`;
+    taken.add(name.toLowerCase());
+
+    const source = noteName(idea.source);
+    if (!bySource.has(source)) bySource.set(source, []);
+    bySource.get(source)!.push(name);
+    for (const tag of idea.tags) {
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag)!.push(name);
+    }
+
+    const links = [`Source: [[Sources/${source}|${source}]]`];
+    if (idea.tags.length) links.push(`Tags: ${idea.tags.map(tag => `[[Tags/${noteName(tag)}|${tag}]]`).join(", ")}`);
+    files.push({
+      name: `Ideas/${name}.md`,
+      data: [
+        ideaFrontMatter(idea),
+        "",
+        `# ${idea.title}`,
+        "",
+        ...links.map(line => `${line}  `),
+        ...(idea.url ? [`Link: ${idea.url}`] : []),
+        "",
+        ...(ideaSummary(idea) ? [ideaSummary(idea)!, ""] : []),
+        ...(idea.feedback ? [`**Hot take:** ${idea.feedback}`, ""] : []),
+        ...notesMarkdown(idea.notes),
+      ].join("\n").trimEnd() + "\n",
+    });
+  }
+
+  const indexNote = (heading: string, names: string[]) =>
+    `# ${heading}\n\n${names.map(name => `- [[Ideas/${name}|${name}]]`).join("\n")}\n`;
+  for (const [source, names] of bySource) files.push({ name: `Sources/${source}.md`, data: indexNote(source, names) });
+  for (const [tag, names] of byTag) files.push({ name: `Tags/${noteName(tag)}.md`, data: indexNote(`#${tag}`, names) });
+
+  return buildZip(files);
+}
+
+export function renderExport(format: ExportFormat, ideas: ExportIdea[], title?: string): ExportFile {
+  switch (format) {
+    case "md":
+      return { body: toMarkdown(ideas), contentType: "text/markdown; charset=utf-8", extension: "md" };
+    case "csv":
+      return { body: toCsv(ideas), contentType: "text/csv; charset=utf-8", extension: "csv" };
+    case "html":
+      return { body: toHtml(ideas, title), contentType: "text/html; charset=utf-8", extension: "html" };
+    case "obsidian":
+      return { body: toObsidianZip(ideas), contentType: "application/zip", extension: "zip" };
+  }
+}
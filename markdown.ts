@@ -0,0 +1,145 @@
+/**
+ * Idea Tinder - Markdown to HTML
+ *
+ * The subset of Markdown that digests and notes use: headings, paragraphs,
+ * block quotes, lists, fenced code, rules, links, images, bold, italics and
+ * inline code. Raw HTML is escaped, never passed through.
+ *
+ * Email clients drop <style> blocks, so callers can pass a style per tag
+ * and get it inlined on every element.
+ */
+
+export type TagStyles = Partial<Record<
+  "h1" | "h2" | "h3" | "h4" | "p" | "a" | "blockquote" | "ul" | "ol" | "li" | "hr" | "pre" | "code" | "img",
+  string
+>>;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Only link to the web and mail; javascript: and friends lose their href
+function safeUrl(url: string): string | null {
+  return /^(https?:|mailto:|\/|#)/i.test(url) ? url : null;
+}
+
+function open(tag: keyof TagStyles, styles: TagStyles, attrs = ""): string {
+  const style = styles[tag];
+  return `<${tag}${attrs}${style ? ` style="${style}"` : ""}>`;
+}
+
+// A link target, bare or in angle brackets (which may hold spaces and parentheses); escaped HTML by now
+const TARGET = "(?:&lt;([^\\n]*?)&gt;|([^)\\s]+))";
+
+function inline(text: string, styles: TagStyles): string {
+  // Code spans and backslash escapes first, so nothing inside them is formatted.
+  // One pass, so an escaped backtick can't open a code span.
+  const held: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`|\\(&lt;|&gt;|&amp;|&quot;|[!-\/:-@[-`{-~])/g, (_, code?: string, escaped?: string) => {
+    held.push(code !== undefined ? `${open("code", styles)}${code}</code>` : escaped!);
+    return `\u0000${held.length - 1}\u0000`;
+  });
+
+  html = html.replace(new RegExp(`!\\[([^\\]]*)\\]\\(${TARGET}\\)`, "g"), (match, alt: string, bracketed?: string, bare?: string) => {
+    const url = safeUrl(bracketed?.replace(/ /g, "%20") ?? bare!);
+    return url ? open("img", styles, ` src="${url}" alt="${alt}"`).replace(/>$/, " />") : match;
+  });
+  html = html.replace(new RegExp(`\\[([^\\]]+)\\]\\(${TARGET}\\)`, "g"), (_, label: string, bracketed?: string, bare?: string) => {
+    const url = safeUrl(bracketed?.replace(/ /g, "%20") ?? bare!);
+    return url ? `${open("a", styles, ` href="${url}"`)}${label}</a>` : label;
+  });
+  html = html.replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) => `${open("a", styles, ` href="${url}"`)}${url}</a>`);
+  html = html
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\b__(.+?)__\b/g, "<strong>$1</strong>")
+    .replace(/\*([^*\s](?:[^*]*[^*\s])?)\*/g, "<em>$1</em>")
+    .replace(/\b_([^_\s](?:[^_]*[^_\s])?)_\b/g, "<em>$1</em>");
+  // Two trailing spaces break the line
+  html = html.replace(/ {2,}\n/g, "<br>\n");
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => held[Number(index)]!);
+}
+
+const BLOCK_START = /^(#{1,6}\s|>|[-*+]\s|\d+[.)]\s|```|(-{3,}|\*{3,}|_{3,})\s*$)/;
+
+export function markdownToHtml(markdown: string, styles: TagStyles = {}): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      // h5 and h6 get h4's style; nobody nests digests that deep
+      const level = Math.min(heading[1]!.length, 4) as 1 | 2 | 3 | 4;
+      blocks.push(`${open(`h${level}`, styles)}${inline(heading[2]!, styles)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      blocks.push(open("hr", styles).replace(/>$/, " />"));
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith("```")) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i]!.trim().startsWith("```"); i++) code.push(lines[i]!);
+      i++;
+      blocks.push(`${open("pre", styles)}${open("code", styles)}${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i]!.trim().startsWith(">"); i++) quoted.push(lines[i]!.trim().replace(/^>\s?/, ""));
+      blocks.push(`${open("blockquote", styles)}${markdownToHtml(quoted.join("\n"), styles)}</blockquote>`);
+      continue;
+    }
+
+    const listMarker = /^([-*+]|\d+[.)])\s+/;
+    if (listMarker.test(trimmed)) {
+      const ordered = /^\d/.test(trimmed);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i]!;
+        if (listMarker.test(current.trim()) && /^\d/.test(current.trim()) === ordered && !/^\s{2,}/.test(current)) {
+          items.push([current.trim().replace(listMarker, "")]);
+        } else if (current.trim() && (/^\s/.test(current) || !BLOCK_START.test(current.trim()))) {
+          items[items.length - 1]!.push(current.trim());
+        } else if (!current.trim() && /^\s{2,}\S/.test(lines[i + 1] ?? "")) {
+          items[items.length - 1]!.push("");
+        } else {
+          break;
+        }
+        i++;
+      }
+      const tag = ordered ? "ol" : "ul";
+      const lis = items.map(item => {
+        const body = item.join("\n");
+        // Loose items (with blank lines) hold paragraphs; tight ones just text
+        const content = item.includes("") ? markdownToHtml(body, styles) : inline(body, styles);
+        return `${open("li", styles)}${content}</li>`;
+      });
+      blocks.push(`${open(tag, styles)}\n${lis.join("\n")}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i]!.trim() && (paragraph.length === 0 || !BLOCK_START.test(lines[i]!.trim())); i++) {
+      paragraph.push(lines[i]!.replace(/^\s+/, ""));
+    }
+    blocks.push(`${open("p", styles)}${inline(paragraph.join("\n"), styles)}</p>`);
+  }
+
+  return blocks.join("\n");
+}
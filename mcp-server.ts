@@ -10,6 +10,10 @@
  */
 
 import { Database } from "bun:sqlite";
+import { searchIdeas, HIGHLIGHT_START, HIGHLIGHT_END } from "./search";
+import { notesByIdea } from "./notes";
+import { listCollections, collectionOutline, findCollection, addItem, updateItem, CollectionError } from "./collections";
+import { listDigests, getDigest, createDigest, updateDigest, DigestError, type Digest } from "./digest";
 
 const db = new Database("/home/eli/idea-tinder/ideas.db");
 const PORT = 3002;
@@ -61,10 +65,12 @@ function handleToolCall(session: Session, id: string | number, name: string, arg
     case "list_saved_ideas": {
       const limit = args?.limit || 10;
       const category = args?.category;
+      const tag = args?.tag;
 
       let query = `
-        SELECT i.title, i.source, i.summary, i.url, i.category, i.content_type,
-               s.feedback as hot_take, s.swiped_at
+        SELECT i.id, i.title, i.source, i.summary, i.generated_summary, i.url, i.category, i.content_type,
+               s.feedback as hot_take, s.swiped_at,
+               (SELECT json_group_array(t.tag) FROM idea_tags t WHERE t.user_id = s.user_id AND t.idea_id = i.id) as tags
         FROM ideas i
         JOIN swipes s ON i.id = s.idea_id
         WHERE s.user_id = ? AND s.direction = 'right'
@@ -76,10 +82,21 @@ function handleToolCall(session: Session, id: string | number, name: string, arg
         params.push(category);
       }
 
+      if (tag) {
+        query += " AND EXISTS (SELECT 1 FROM idea_tags t WHERE t.user_id = s.user_id AND t.idea_id = i.id AND t.tag = ?)";
+        params.push(String(tag).toLowerCase());
+      }
+
       query += " ORDER BY s.swiped_at DESC LIMIT ?";
       params.push(limit);
 
-      const ideas = db.query(query).all(...params);
+      const notes = notesByIdea(db, userId);
+      const ideas = (db.query(query).all(...params) as { id: number; tags: string }[])
+        .map(idea => ({
+          ...idea,
+          tags: JSON.parse(idea.tags) as string[],
+          notes: (notes.get(idea.id) ?? []).map(({ kind, body, quote, created_at }) => ({ kind, body, quote, created_at })),
+        }));
       sendResponse(session, id, {
         content: [{ type: "text", text: JSON.stringify(ideas, null, 2) }],
       });
@@ -96,17 +113,18 @@ function handleToolCall(session: Session, id: string | number, name: string, arg
         return;
       }
 
-      const pattern = `%${searchQuery}%`;
-      const ideas = db.query(`
-        SELECT i.title, i.source, i.summary, i.url, i.category,
-               s.feedback as hot_take, s.swiped_at
-        FROM ideas i
-        JOIN swipes s ON i.id = s.idea_id
-        WHERE s.user_id = ? AND s.direction = 'right'
-        AND (i.title LIKE ? OR i.summary LIKE ? OR s.feedback LIKE ?)
-        ORDER BY s.swiped_at DESC
-        LIMIT 20
-      `).all(userId, pattern, pattern, pattern);
+      // Same index as the web app's search; the snippet shows why it matched
+      const { results } = searchIdeas(db, userId, { query: String(searchQuery), direction: "right", limit: 20 });
+      const ideas = results.map(idea => ({
+        title: idea.title,
+        source: idea.source,
+        summary: idea.summary,
+        url: idea.url,
+        category: idea.category,
+        hot_take: idea.feedback,
+        swiped_at: idea.swiped_at,
+        match: idea.snippet.replaceAll(HIGHLIGHT_START, "**").replaceAll(HIGHLIGHT_END, "**"),
+      }));
 
       sendResponse(session, id, {
         content: [{ type: "text", text: JSON.stringify(ideas, null, 2) }],
@@ -141,6 +159,86 @@ function handleToolCall(session: Session, id: string | number, name: string, arg
       break;
     }
 
+    case "list_collections": {
+      const collections = listCollections(db, userId);
+      sendResponse(session, id, {
+        content: [{ type: "text", text: JSON.stringify(collections, null, 2) }],
+      });
+      break;
+    }
+
+    case "get_collection":
+    case "add_to_collection":
+    case "update_collection_item": {
+      const collection = findCollection(db, userId, args?.collection);
+      if (!collection) {
+        sendResponse(session, id, {
+          content: [{ type: "text", text: `Error: no collection "${args?.collection ?? ""}". Use list_collections to see yours.` }],
+          isError: true,
+        });
+        return;
+      }
+
+      let text: string;
+      try {
+        if (name === "get_collection") {
+          text = collectionOutline(db, userId, collection.id);
+        } else if (name === "add_to_collection") {
+          addItem(db, userId, collection.id, { ideaId: args?.idea_id, note: args?.note });
+          text = `Added idea ${args?.idea_id} to "${collection.name}".`;
+        } else {
+          const item = updateItem(db, userId, collection.id, Number(args?.idea_id), { note: args?.note, status: args?.status });
+          text = `Updated "${item.title}" in "${collection.name}": ${item.status}.`;
+        }
+      } catch (e) {
+        if (!(e instanceof CollectionError)) throw e;
+        sendResponse(session, id, {
+          content: [{ type: "text", text: `Error: ${e.message}` }],
+          isError: true,
+        });
+        return;
+      }
+
+      sendResponse(session, id, {
+        content: [{ type: "text", text }],
+      });
+      break;
+    }
+
+    case "build_digest":
+    case "get_digest":
+    case "update_digest": {
+      // get and update default to the most recently touched draft
+      const digestId = args?.digest_id ?? listDigests(db, userId)[0]?.id;
+      let digest: Digest;
+      try {
+        if (name === "build_digest") {
+          digest = createDigest(db, userId, { from: args?.from, to: args?.to, groupBy: args?.group_by, title: args?.title });
+        } else if (!digestId) {
+          throw new DigestError("No digest drafts yet. Use build_digest to make one.");
+        } else if (name === "get_digest") {
+          digest = getDigest(db, userId, Number(digestId), args?.version === undefined ? undefined : Number(args.version));
+        } else {
+          digest = updateDigest(db, userId, Number(digestId), { title: args?.title, markdown: args?.markdown });
+        }
+      } catch (e) {
+        if (!(e instanceof DigestError)) throw e;
+        sendResponse(session, id, {
+          content: [{ type: "text", text: `Error: ${e.message}` }],
+          isError: true,
+        });
+        return;
+      }
+
+      const { version } = digest;
+      const header = `Digest ${digest.id} "${digest.title}", version ${version.version} of ${digest.versions.length} ` +
+        `(${version.source}; ${version.idea_count} ideas saved ${version.period_from} to ${version.period_to}, grouped by ${version.group_by})`;
+      sendResponse(session, id, {
+        content: [{ type: "text", text: `${header}\n\n${version.markdown}` }],
+      });
+      break;
+    }
+
     case "add_idea": {
       const { title, source, summary, url, category } = args || {};
 
@@ -189,18 +287,19 @@ function handleRequest(session: Session, message: any) {
         tools: [
           {
             name: "list_saved_ideas",
-            description: "Get your saved ideas with hot takes. Returns ideas you swiped right on.",
+            description: "Get your saved ideas with hot takes, notes and highlights. Returns ideas you swiped right on.",
             inputSchema: {
               type: "object",
               properties: {
                 limit: { type: "number", description: "Max ideas to return (default 10)" },
                 category: { type: "string", description: "Filter by category (optional)" },
+                tag: { type: "string", description: "Filter by topic tag, e.g. rust (optional)" },
               },
             },
           },
           {
             name: "search_ideas",
-            description: "Search through your saved ideas by title, summary, or hot take.",
+            description: "Search through your saved ideas by title, summary, article text, or hot take. Best matches first.",
             inputSchema: {
               type: "object",
               properties: {
@@ -214,6 +313,85 @@ function handleRequest(session: Session, message: any) {
             description: "Get your swipe statistics and category preferences.",
             inputSchema: { type: "object", properties: {} },
           },
+          {
+            name: "list_collections",
+            description: "List your collections (boards grouping saved ideas toward a video, post or episode) with item counts by status.",
+            inputSchema: { type: "object", properties: {} },
+          },
+          {
+            name: "get_collection",
+            description: "Read a collection as a Markdown outline: its ideas in order, with status, link, hot take and notes.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                collection: { type: "string", description: "Collection name or id" },
+              },
+              required: ["collection"],
+            },
+          },
+          {
+            name: "add_to_collection",
+            description: "Add a saved idea to a collection. Get idea ids from list_saved_ideas.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                collection: { type: "string", description: "Collection name or id" },
+                idea_id: { type: "number", description: "Saved idea id" },
+                note: { type: "string", description: "Note for this idea in the collection (optional)" },
+              },
+              required: ["collection", "idea_id"],
+            },
+          },
+          {
+            name: "update_collection_item",
+            description: "Change an idea's status (idea, drafting, published) or note within a collection.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                collection: { type: "string", description: "Collection name or id" },
+                idea_id: { type: "number", description: "Idea id" },
+                status: { type: "string", enum: ["idea", "drafting", "published"], description: "New status (optional)" },
+                note: { type: "string", description: "New note, replacing the old one (optional)" },
+              },
+              required: ["collection", "idea_id"],
+            },
+          },
+          {
+            name: "build_digest",
+            description: "Draft a roundup of the ideas saved in a date window (default: the last 7 days), grouped by category or tag, as Markdown from the user's digest template.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                from: { type: "string", description: "First save date, YYYY-MM-DD (optional)" },
+                to: { type: "string", description: "Last save date, YYYY-MM-DD (optional)" },
+                group_by: { type: "string", enum: ["category", "tag"], description: "How to group ideas (default category)" },
+                title: { type: "string", description: "Digest title (optional)" },
+              },
+            },
+          },
+          {
+            name: "get_digest",
+            description: "Read a digest draft as Markdown, at its latest version or an earlier one.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                digest_id: { type: "number", description: "Digest id (default: the most recent draft)" },
+                version: { type: "number", description: "Version number (default: latest)" },
+              },
+            },
+          },
+          {
+            name: "update_digest",
+            description: "Save an edited digest as a new version, keeping the earlier ones. Pass the full Markdown.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                digest_id: { type: "number", description: "Digest id (default: the most recent draft)" },
+                markdown: { type: "string", description: "The whole edited digest, in Markdown" },
+                title: { type: "string", description: "New title (optional)" },
+              },
+            },
+          },
           {
             name: "add_idea",
             description: "Add a new idea to your queue for later triage.",
@@ -0,0 +1,134 @@
+/**
+ * Idea Tinder - Notes and Highlights
+ *
+ * Any number of timestamped notes per saved idea, on top of the single hot
+ * take captured at swipe time. Two kinds:
+ *
+ *   note       Markdown text
+ *   highlight  A quote from the idea's extracted article text, with an
+ *              optional Markdown comment
+ *
+ * Highlights are checked against idea_content so they always quote the
+ * article. Rows live in idea_notes (created by server.ts, with notes_fts
+ * kept in sync by triggers for search).
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const NOTE_KINDS = ["note", "highlight"] as const;
+export type NoteKind = typeof NOTE_KINDS[number];
+
+const MAX_BODY_LENGTH = 20000;
+const MAX_QUOTE_LENGTH = 2000;
+
+export interface IdeaNote {
+  id: number;
+  idea_id: number;
+  kind: NoteKind;
+  body: string | null;
+  quote: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// status is the HTTP status the API should answer with
+export class NoteError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "NoteError";
+  }
+}
+
+const NOTE_COLUMNS = "id, idea_id, kind, body, quote, created_at, updated_at";
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function cleanBody(body: unknown, required: boolean): string | null {
+  if (body !== null && body !== undefined && typeof body !== "string") throw new NoteError("body must be a string");
+  const value = typeof body === "string" ? body.trim() : "";
+  if (!value && required) throw new NoteError("body is required");
+  if (value.length > MAX_BODY_LENGTH) throw new NoteError(`body must be at most ${MAX_BODY_LENGTH} characters`);
+  return value || null;
+}
+
+// The quote, whitespace-normalized, if it appears in the idea's article text
+function cleanQuote(db: Database, ideaId: number, quote: unknown): string {
+  const value = typeof quote === "string" ? collapse(quote) : "";
+  if (!value) throw new NoteError("quote is required for a highlight");
+  if (value.length > MAX_QUOTE_LENGTH) throw new NoteError(`quote must be at most ${MAX_QUOTE_LENGTH} characters`);
+  const content = db.query("SELECT text_content FROM idea_content WHERE idea_id = ? AND status = 'ok'").get(ideaId) as
+    { text_content: string | null } | null;
+  if (!content?.text_content) throw new NoteError("This idea has no article text to highlight");
+  if (!collapse(content.text_content).toLowerCase().includes(value.toLowerCase())) {
+    throw new NoteError("The quote doesn't appear in the article text");
+  }
+  return value;
+}
+
+function requireSaved(db: Database, userId: number, ideaId: number) {
+  if (!db.query("SELECT 1 FROM swipes WHERE user_id = ? AND idea_id = ? AND direction = 'right'").get(userId, ideaId)) {
+    throw new NoteError("Notes can only be added to saved ideas", 404);
+  }
+}
+
+function requireNote(db: Database, userId: number, noteId: number): IdeaNote {
+  const note = db.query(`SELECT ${NOTE_COLUMNS} FROM idea_notes WHERE id = ? AND user_id = ?`).get(noteId, userId) as IdeaNote | null;
+  if (!note) throw new NoteError("Note not found", 404);
+  return note;
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+export function listNotes(db: Database, userId: number, ideaId: number): IdeaNote[] {
+  return db.query(`SELECT ${NOTE_COLUMNS} FROM idea_notes WHERE user_id = ? AND idea_id = ? ORDER BY created_at, id`)
+    .all(userId, ideaId) as IdeaNote[];
+}
+
+// Every note a user has, grouped by idea, for listings and exports
+export function notesByIdea(db: Database, userId: number): Map<number, IdeaNote[]> {
+  const notes = db.query(`SELECT ${NOTE_COLUMNS} FROM idea_notes WHERE user_id = ? ORDER BY created_at, id`).all(userId) as IdeaNote[];
+  const grouped = new Map<number, IdeaNote[]>();
+  for (const note of notes) {
+    if (!grouped.has(note.idea_id)) grouped.set(note.idea_id, []);
+    grouped.get(note.idea_id)!.push(note);
+  }
+  return grouped;
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Add a note, or a highlight when a quote is given. Only saved ideas take
+ * notes.
+ */
+export function addNote(db: Database, userId: number, ideaId: number, input: { body?: unknown; quote?: unknown }): IdeaNote {
+  requireSaved(db, userId, ideaId);
+  const isHighlight = input.quote !== undefined && input.quote !== null;
+  const quote = isHighlight ? cleanQuote(db, ideaId, input.quote) : null;
+  const body = cleanBody(input.body, !isHighlight);
+  return db.query(`
+    INSERT INTO idea_notes (user_id, idea_id, kind, body, quote) VALUES (?, ?, ?, ?, ?)
+    RETURNING ${NOTE_COLUMNS}
+  `).get(userId, ideaId, isHighlight ? "highlight" : "note", body, quote) as IdeaNote;
+}
+
+export function updateNote(db: Database, userId: number, noteId: number, input: { body?: unknown; quote?: unknown }): IdeaNote {
+  const note = requireNote(db, userId, noteId);
+  const quote = note.kind === "highlight" && input.quote !== undefined ? cleanQuote(db, note.idea_id, input.quote) : note.quote;
+  const body = input.body === undefined ? note.body : cleanBody(input.body, note.kind === "note");
+  return db.query(`
+    UPDATE idea_notes SET body = ?, quote = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    RETURNING ${NOTE_COLUMNS}
+  `).get(body, quote, noteId) as IdeaNote;
+}
+
+export function deleteNote(db: Database, userId: number, noteId: number) {
+  requireNote(db, userId, noteId);
+  db.query("DELETE FROM idea_notes WHERE id = ?").run(noteId);
+}
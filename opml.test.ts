@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { buildOpml, parseOpml, OpmlParseError, type OpmlFeed } from "./opml";
+
+const opml = (outlines: string) => `<?xml version="1.0"?><opml version="2.0"><head/><body>${outlines}</body></opml>`;
+
+describe("OPML", () => {
+  test("round-trips feeds and non-RSS sources with their type", () => {
+    const feeds: OpmlFeed[] = [
+      { url: "https://blog.example.com/feed/", name: "Blog & Notes", category: "dev", type: "rss" },
+      { url: "https://api.github.com/repos/oven-sh/bun/releases?per_page=30", name: "oven-sh/bun releases", category: "dev", type: "github" },
+      { url: "https://hn.algolia.com/api/v1/search_by_date?query=sqlite&tags=story", name: "HN: sqlite", category: "news", type: "hn" },
+    ];
+    const parsed = parseOpml(buildOpml(feeds, "Test"));
+    expect(parsed.invalid).toEqual([]);
+    expect(parsed.feeds.sort((a, b) => a.name.localeCompare(b.name))).toEqual(
+      [...feeds].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  });
+
+  test("treats untyped and atom outlines as RSS", () => {
+    const { feeds } = parseOpml(opml(`
+      <outline text="Plain" xmlUrl="https://a.example.com/feed"/>
+      <outline type="Atom" text="Atom" xmlUrl="https://b.example.com/atom.xml"/>
+    `));
+    expect(feeds.map(feed => feed.type)).toEqual(["rss", "rss"]);
+  });
+
+  test("rejects unknown types and source URLs that don't match their type", () => {
+    const { feeds, invalid } = parseOpml(opml(`
+      <outline type="podcast" text="Odd" xmlUrl="https://c.example.com/feed"/>
+      <outline type="github" text="Not GitHub" xmlUrl="https://evil.example.com/repos/a/b/releases"/>
+      <outline type="rss" text="FTP" xmlUrl="ftp://d.example.com/feed"/>
+    `));
+    expect(feeds).toEqual([]);
+    expect(invalid.map(entry => entry.reason)).toEqual([
+      "Unknown feed type: podcast",
+      "Not a github source URL: https://evil.example.com/repos/a/b/releases",
+      "Not an http(s) URL: ftp://d.example.com/feed",
+    ]);
+  });
+
+  test("uses the outermost folder as the category", () => {
+    const { feeds } = parseOpml(opml(`
+      <outline text="Tech"><outline text="Nested"><outline text="Deep" xmlUrl="https://e.example.com/rss"/></outline></outline>
+    `));
+    expect(feeds[0]!.category).toBe("Tech");
+  });
+
+  test("rejects documents that aren't OPML", () => {
+    expect(() => parseOpml("<rss/>")).toThrow(OpmlParseError);
+  });
+});
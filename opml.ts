@@ -0,0 +1,133 @@
+/**
+ * Idea Tinder - OPML Import/Export
+ *
+ * OPML is the lingua franca for moving feed lists between readers (Feedly,
+ * NetNewsWire, ...). Feed categories map to top-level folder outlines.
+ * Non-RSS sources keep their kind in the outline's type attribute
+ * (type="github" and so on), so they come back as the same source; other
+ * readers skip outlines whose type isn't "rss".
+ */
+
+import { parseXml, type XmlNode } from "./feed-parser";
+import { isSourceType, isSourceUrl, type SourceType } from "./sources";
+
+export interface OpmlFeed {
+  url: string;
+  name: string;
+  category: string;
+  type: SourceType;
+}
+
+export interface OpmlInvalidEntry {
+  text: string;
+  reason: string;
+}
+
+export class OpmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpmlParseError";
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function buildOpml(feeds: OpmlFeed[], title: string): string {
+  const byCategory = new Map<string, OpmlFeed[]>();
+  for (const feed of feeds) {
+    const category = feed.category || "custom";
+    if (!byCategory.has(category)) byCategory.set(category, []);
+    byCategory.get(category)!.push(feed);
+  }
+
+  const folders = [...byCategory.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, items]) => {
+      const outlines = items
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(feed => `      <outline type="${feed.type}" text="${escapeXml(feed.name)}" title="${escapeXml(feed.name)}" xmlUrl="${escapeXml(feed.url)}"/>`)
+        .join("\n");
+      return `    <outline text="${escapeXml(category)}" title="${escapeXml(category)}">\n${outlines}\n    </outline>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+  </head>
+  <body>
+${folders}
+  </body>
+</opml>
+`;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pull feeds out of an OPML document. Nested folders are flattened; a feed's
+ * category is its outermost folder (or its own `category` attribute).
+ */
+export function parseOpml(text: string): { feeds: OpmlFeed[]; invalid: OpmlInvalidEntry[] } {
+  const root = parseXml(text.replace(/^\uFEFF/, "").trim()).children.find(node => node.name === "opml");
+  if (!root) throw new OpmlParseError("Not an OPML document (no <opml> root element)");
+  const body = root.children.find(node => node.name === "body");
+  if (!body) throw new OpmlParseError("OPML document has no <body>");
+
+  const feeds: OpmlFeed[] = [];
+  const invalid: OpmlInvalidEntry[] = [];
+
+  function walk(outlines: XmlNode[], folder: string | null) {
+    for (const outline of outlines.filter(node => node.name === "outline")) {
+      const label = (outline.attrs.title || outline.attrs.text || "").trim();
+      const xmlUrl = (outline.attrs.xmlurl || "").trim();
+
+      if (xmlUrl) {
+        if (!isHttpUrl(xmlUrl)) {
+          invalid.push({ text: label || xmlUrl, reason: `Not an http(s) URL: ${xmlUrl}` });
+          continue;
+        }
+        // Readers disagree on case, and a few write "atom" for Atom feeds
+        const type = (outline.attrs.type || "rss").trim().toLowerCase().replace(/^atom$/, "rss");
+        if (!isSourceType(type)) {
+          invalid.push({ text: label || xmlUrl, reason: `Unknown feed type: ${outline.attrs.type}` });
+          continue;
+        }
+        if (!isSourceUrl(type, xmlUrl)) {
+          invalid.push({ text: label || xmlUrl, reason: `Not a ${type} source URL: ${xmlUrl}` });
+          continue;
+        }
+        const ownCategory = (outline.attrs.category || "").split(",")[0]!.replace(/^\//, "").trim();
+        feeds.push({
+          url: xmlUrl,
+          name: label || new URL(xmlUrl).hostname,
+          category: folder || ownCategory || "custom",
+          type,
+        });
+      } else if (outline.children.some(node => node.name === "outline")) {
+        walk(outline.children, folder ?? (label || null));
+      } else if (outline.attrs.type === "rss") {
+        invalid.push({ text: label || "(untitled)", reason: "Feed outline has no xmlUrl" });
+      }
+    }
+  }
+
+  walk(body.children, null);
+  return { feeds, invalid };
+}
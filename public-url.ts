@@ -0,0 +1,111 @@
+/**
+ * Idea Tinder - Public URL Guard
+ *
+ * Links in feeds come from strangers, so anything fetched on a user's
+ * request must point at the public web: http(s) only, and never a host that
+ * resolves to a loopback, private, link-local or otherwise internal address.
+ * Redirects are followed by hand so every hop gets the same check, and
+ * bodies are read up to a size cap.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+const MAX_REDIRECTS = 5;
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+  }
+}
+
+function isInternalIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number) as [number, number];
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)     // carrier-grade NAT
+    || (a === 169 && b === 254)               // link-local, cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))  // benchmarking
+    || a >= 224;                              // multicast and reserved
+}
+
+export function isInternalAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(ip) === 4) return isInternalIPv4(ip);
+  if (isIP(ip) !== 6) return true;
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalIPv4(mapped[1]!);
+  return ip === "::" || ip === "::1"
+    || /^f[cd]/.test(ip)                      // unique local
+    || /^fe[89ab]/.test(ip)                   // link-local
+    || ip.startsWith("ff")                    // multicast
+    || ip.startsWith("::ffff:");              // mapped, in hex form
+}
+
+/**
+ * Throw UnsafeUrlError unless `url` is http(s) and its host resolves only to
+ * public addresses.
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError("Not a valid URL");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new UnsafeUrlError(`Only http and https links can be fetched, not ${parsed.protocol}`);
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new UnsafeUrlError(`Refusing to fetch internal host ${host}`);
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new UnsafeUrlError(`Could not resolve ${host}`);
+  }
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new UnsafeUrlError(`Refusing to fetch internal host ${host}`);
+  }
+  return parsed;
+}
+
+/**
+ * fetch() for untrusted links. Checks the URL and every redirect target with
+ * assertPublicUrl; `response.url` is not set for manual redirects, so the
+ * final URL is returned alongside the response.
+ */
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<{ response: Response; url: string }> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current };
+    }
+    response.body?.cancel().catch(() => {});
+    current = new URL(location, current).toString();
+  }
+  throw new UnsafeUrlError(`More than ${MAX_REDIRECTS} redirects`);
+}
+
+// Read at most `maxBytes` of a response body as text
+export async function readLimited(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  reader.cancel().catch(() => {});
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
@@ -4,7 +4,8 @@ let startX = 0;
 let currentX = 0;
 let isDragging = false;
 let currentUser = null;
-let lastSwipe = null; // Track last swipe for undo
+let repeatCount = ''; // Digits typed before u/U, as in "3u"
+let activeTag = null; // Queue filtered to one topic tag
 
 // Keyboard shortcuts
 document.addEventListener('keydown', function(e) {
@@ -18,10 +19,24 @@ document.addEventListener('keydown', function(e) {
     return;
   }
   
+  // Escape closes the reader; nothing else fires while it's open
+  if (document.getElementById('readerModal').classList.contains('active')) {
+    if (e.key === 'Escape') closeReader();
+    return;
+  }
+  
   // Don't trigger if modal is open
   const modal = document.getElementById('feedbackModal');
   if (modal && modal.classList.contains('active')) return;
   
+  // A number before undo/redo repeats it, e.g. 3u undoes three swipes
+  if (/^[0-9]$/.test(e.key) && !e.metaKey && !e.ctrlKey) {
+    repeatCount = (repeatCount + e.key).slice(-2);
+    return;
+  }
+  const steps = parseInt(repeatCount, 10) || 1;
+  repeatCount = '';
+  
   switch(e.key) {
     case 'ArrowLeft':
     case 'j':
@@ -34,10 +49,22 @@ document.addEventListener('keydown', function(e) {
       e.preventDefault();
       swipeCard('right');
       break;
+    case 'r':
+      if (currentIdea) {
+        e.preventDefault();
+        openReader(currentIdea.id);
+      }
+      break;
     case 'u':
     case 'z':
       e.preventDefault();
-      undoSwipe();
+      undoSwipe(steps);
+      break;
+    case 'U':
+    case 'Z':
+    case 'y':
+      e.preventDefault();
+      redoSwipe(steps);
       break;
   }
 });
@@ -50,6 +77,9 @@ async function checkAuth() {
     currentUser = data.user;
     
     if (currentUser) {
+      if (data.disabledFeeds && data.disabledFeeds.length) {
+        showDisabledFeedsNotice(data.disabledFeeds);
+      }
       const userInfo = document.getElementById('userInfo');
       if (userInfo) {
         userInfo.innerHTML = 
@@ -66,25 +96,60 @@ async function checkAuth() {
   }
 }
 
-async function fetchIdeas() {
-  const res = await fetch('/api/ideas');
+// frontIds: ideas to show first, e.g. the ones an undo just put back
+async function fetchIdeas(frontIds) {
+  const res = await fetch('/api/ideas' + (activeTag ? '?tag=' + encodeURIComponent(activeTag) : ''));
   if (res.status === 401) {
     window.location.href = '/login';
     return;
   }
   const data = await res.json();
   ideas = data.unswiped;
+  if (frontIds && frontIds.length) {
+    const front = frontIds.map(function(id) { return ideas.find(function(i) { return i.id === id; }); }).filter(Boolean);
+    ideas = front.concat(ideas.filter(function(i) { return frontIds.indexOf(i.id) === -1; }));
+  }
   document.getElementById('remaining').textContent = ideas.length;
   document.getElementById('liked').textContent = data.likedCount;
+  document.getElementById('mutedCount').textContent = data.mutedCount ? ' • ' + data.mutedCount + ' muted' : '';
+  document.getElementById('tagFilter').innerHTML = activeTag
+    ? ' • <a href="#" class="saved-link" onclick="filterByTag(null); return false;" title="Show everything">#' + escapeHtml(activeTag) + ' ✕</a>'
+    : '';
   renderCard();
 }
 
+// Narrow the queue to one tag (null shows everything)
+function filterByTag(tag) {
+  activeTag = tag;
+  fetchIdeas();
+}
+
+// Rule and manual tags are solid; the classifier's guesses are outlined
+function tagChipsHtml(tags, onclickFor) {
+  if (!tags || tags.length === 0) return '';
+  return '<div class="card-tags">' + tags.map(function(t) {
+    const title = t.source === 'classifier' ? 'Suggested from your swipes' : t.source === 'manual' ? 'Tagged by you' : 'Matched a keyword rule';
+    return '<span class="tag-chip ' + t.source + '" title="' + title + '"' +
+      (onclickFor ? ' onclick="' + onclickFor(t.tag) + '" onmousedown="event.stopPropagation()" ontouchstart="event.stopPropagation()"' : '') +
+      '>#' + escapeHtml(t.tag) + '</span>';
+  }).join('') + '</div>';
+}
+
 function escapeHtml(text) {
   const div = document.createElement('div');
   div.textContent = text;
   return div.innerHTML;
 }
 
+// 3723 -> "1:02:03"
+function formatDuration(seconds) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return (h > 0 ? h + ':' : '') + mm + ':' + String(s).padStart(2, '0');
+}
+
 function formatDate(dateStr) {
   if (!dateStr) return '';
   const d = new Date(dateStr);
@@ -114,7 +179,9 @@ function renderCard() {
   
   currentIdea = ideas[0];
   const urlHtml = currentIdea.url 
-    ? '<a href="' + escapeHtml(currentIdea.url) + '" target="_blank" class="card-url" onclick="event.stopPropagation()" onmousedown="event.stopPropagation()" ontouchstart="event.stopPropagation()">Read more →</a>' 
+    ? '<a href="' + escapeHtml(currentIdea.url) + '" target="_blank" class="card-url" onclick="event.stopPropagation()" onmousedown="event.stopPropagation()" ontouchstart="event.stopPropagation()">Read more →</a>' +
+      '<a class="card-reader" onclick="event.stopPropagation(); openReader(' + currentIdea.id + ')" onmousedown="event.stopPropagation()" ontouchstart="event.stopPropagation()">📖 Reader' +
+        (currentIdea.reading_minutes ? ' · ' + currentIdea.reading_minutes + ' min' : '') + '</a>'
     : '';
   
   // Content type badge
@@ -129,17 +196,69 @@ function renderCard() {
   const contentTypeIcon = contentTypeIcons[contentType] || '📄';
   const contentTypeBadge = '<span class="content-type-badge" title="' + contentType + '">' + contentTypeIcon + '</span>';
   
+  // Other feeds that carried the same story
+  const otherSources = (currentIdea.sources || []).filter(function(s) { return s.source !== currentIdea.source; });
+  const sourcesHtml = otherSources.length > 0
+    ? '<p class="card-also">Also on: ' + otherSources.map(function(s) {
+        return '<a href="' + escapeHtml(s.url) + '" target="_blank" onclick="event.stopPropagation()" onmousedown="event.stopPropagation()" ontouchstart="event.stopPropagation()">' + escapeHtml(s.source) + '</a>';
+      }).join(', ') + '</p>'
+    : '';
+  
+  // Thumbnail and favicon from the page's Open Graph metadata; broken images just disappear
+  const thumbHtml = currentIdea.image_url
+    ? '<div class="card-thumb"><img src="' + escapeHtml(currentIdea.image_url) + '" alt="" draggable="false" onerror="this.parentNode.remove()">' +
+        (currentIdea.duration_seconds ? '<span class="card-duration">' + formatDuration(currentIdea.duration_seconds) + '</span>' : '') +
+      '</div>'
+    : '';
+  const faviconHtml = currentIdea.favicon_url
+    ? '<img class="card-favicon" src="' + escapeHtml(currentIdea.favicon_url) + '" alt="" draggable="false" onerror="this.remove()">'
+    : '📍 ';
+  const siteHtml = currentIdea.site_name && currentIdea.site_name !== currentIdea.source
+    ? ' · ' + escapeHtml(currentIdea.site_name)
+    : '';
+  
+  // Which of the user's boost rules this card matched
+  const matchedRuleHtml = currentIdea.matched_rule
+    ? '<p class="card-matched-rule">🚀 Matched rule: ' + escapeHtml(currentIdea.matched_rule) + '</p>'
+    : '';
+  
+  // Injected from other users' saves rather than one of the user's feeds
+  const recommendedHtml = currentIdea.recommended_score != null
+    ? '<span class="card-recommended" title="' + escapeHtml(currentIdea.recommended_reason || '').replace(/"/g, '&quot;') + '">✨ Recommended</span>'
+    : '';
+  
+  // Predicted interest from the ranking model, with its reasons on hover
+  const scoreHtml = typeof currentIdea.score === 'number'
+    ? '<span class="card-score" title="' + escapeHtml((currentIdea.why || []).join(' · ')).replace(/"/g, '&quot;') + '">⭐ ' + currentIdea.score + '</span>'
+    : '';
+  const whyHtml = currentIdea.why && currentIdea.why.length > 0
+    ? '<p class="card-why">Why: ' + escapeHtml(currentIdea.why.join(' · ')) + '</p>'
+    : '';
+  
+  // Prefer the generated summary; the feed's own text stays available on hover
+  const summaryHtml = currentIdea.generated_summary
+    ? '<p class="card-summary" title="' + escapeHtml(currentIdea.summary || '').replace(/"/g, '&quot;') + '">' + escapeHtml(currentIdea.generated_summary) + '</p>' +
+      '<p class="card-summary-note">✨ Summarized by ' + escapeHtml(currentIdea.summary_backend || 'unknown') + '</p>'
+    : '<p class="card-summary">' + escapeHtml(currentIdea.summary) + '</p>';
+  
   container.innerHTML = 
     '<div class="card" id="currentCard">' +
       '<div class="swipe-indicator left">NOPE</div>' +
       '<div class="swipe-indicator right">SAVE</div>' +
+      thumbHtml +
       '<div class="card-badges">' +
         '<span class="card-category">' + (currentIdea.category || 'update') + '</span>' +
         contentTypeBadge +
+        recommendedHtml +
+        scoreHtml +
       '</div>' +
+      matchedRuleHtml +
       '<h2 class="card-title">' + escapeHtml(currentIdea.title) + '</h2>' +
-      '<p class="card-source">📍 ' + escapeHtml(currentIdea.source) + formatDate(currentIdea.published_at) + '</p>' +
-      '<p class="card-summary">' + escapeHtml(currentIdea.summary) + '</p>' +
+      '<p class="card-source">' + faviconHtml + escapeHtml(currentIdea.source) + siteHtml + formatDate(currentIdea.published_at) + '</p>' +
+      summaryHtml +
+      whyHtml +
+      tagChipsHtml(currentIdea.tags, function(tag) { return "event.stopPropagation(); filterByTag('" + tag + "')"; }) +
+      sourcesHtml +
       urlHtml +
     '</div>';
   
@@ -228,9 +347,6 @@ async function swipeCard(direction) {
       document.getElementById('feedbackModal').classList.add('active');
     }, 300);
   } else {
-    // Track for undo before removing
-    lastSwipe = { ideaId: currentIdea.id, direction: 'left', feedback: null, idea: currentIdea };
-    
     await fetch('/api/swipe', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -246,9 +362,6 @@ async function swipeCard(direction) {
 async function submitFeedback(skip) {
   const feedback = skip ? null : document.getElementById('feedbackText').value;
   
-  // Track for undo before submitting
-  lastSwipe = { ideaId: currentIdea.id, direction: 'right', feedback: feedback, idea: currentIdea };
-  
   await fetch('/api/swipe', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -270,7 +383,198 @@ function toggleAdmin() {
   if (panel.classList.contains('active')) {
     loadLikedIdeas();
     loadUserFeeds();
+    loadTagRules();
+    loadDigestTemplate();
+    loadFilters();
+    loadPreferences();
+  }
+}
+
+async function loadFilters() {
+  const res = await fetch('/api/filters');
+  const data = await res.json();
+  const container = document.getElementById('filterRules');
+  if (data.rules.length === 0) {
+    container.innerHTML = '<p style="color:#666; font-size: 0.85em;">No filters yet.</p>';
+  } else {
+    container.innerHTML = data.rules.map(function(rule) {
+      const label = rule.kind === 'regex' ? '/' + rule.pattern + '/' : rule.pattern;
+      return '<div class="feed-item filter-item">' +
+        '<div class="feed-info">' +
+          '<div class="feed-name">' + (rule.action === 'mute' ? '🔇 Mute' : '🚀 Boost') + ' ' + rule.kind.replace('_', ' ') + ': ' + escapeHtml(label) + '</div>' +
+          '<div class="preview-meta" style="margin: 0;">' + rule.matches + ' in your queue</div>' +
+        '</div>' +
+        '<div class="feed-actions"><button class="feed-btn delete" onclick="deleteFilter(' + rule.id + ')">🗑️</button></div>' +
+      '</div>';
+    }).join('');
+  }
+  document.getElementById('mutedList').innerHTML = '';
+}
+
+async function addFilter() {
+  const res = await fetch('/api/filters', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      action: document.getElementById('newFilterAction').value,
+      kind: document.getElementById('newFilterKind').value,
+      pattern: document.getElementById('newFilterPattern').value
+    })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to add filter');
+    return;
+  }
+  document.getElementById('newFilterPattern').value = '';
+  loadFilters();
+  fetchIdeas();
+}
+
+async function deleteFilter(filterId) {
+  await fetch('/api/filters/' + filterId, { method: 'DELETE' });
+  loadFilters();
+  fetchIdeas();
+}
+
+async function showMuted() {
+  const res = await fetch('/api/filters/muted');
+  const data = await res.json();
+  const container = document.getElementById('mutedList');
+  if (data.muted.length === 0) {
+    container.innerHTML = '<p style="color:#666; font-size: 0.85em;">Nothing muted right now.</p>';
+    return;
   }
+  container.innerHTML = data.muted.map(function(idea) {
+    return '<div class="feed-item filter-item">' +
+      '<div class="feed-info">' +
+        '<div class="feed-name">' + escapeHtml(idea.title) + '</div>' +
+        '<div class="preview-meta" style="margin: 0;">' + escapeHtml(idea.source) + (idea.matched_rule ? ' · ' + escapeHtml(idea.matched_rule) : '') + '</div>' +
+      '</div>' +
+      '<div class="feed-actions"><button class="feed-btn" onclick="unmuteIdea(' + idea.id + ')">Show anyway</button></div>' +
+    '</div>';
+  }).join('');
+}
+
+async function unmuteIdea(ideaId) {
+  await fetch('/api/filters/muted/' + ideaId, { method: 'DELETE' });
+  showMuted();
+  fetchIdeas();
+}
+
+async function loadPreferences() {
+  const res = await fetch('/api/preferences');
+  const prefs = await res.json();
+  document.getElementById('prefRecommendations').checked = prefs.recommendations;
+  const email = prefs.emailDigest;
+  document.getElementById('prefEmailCadence').value = email.cadence;
+  document.getElementById('prefQuietStart').value = email.quietHours ? email.quietHours.start : '';
+  document.getElementById('prefQuietEnd').value = email.quietHours ? email.quietHours.end : '';
+  document.getElementById('prefEmailMax').value = email.maxItems;
+  document.getElementById('emailDigestStatus').textContent = email.cadence === 'off' ? '' : 'Times are in ' + email.timezone + '.';
+}
+
+// Quiet hours need both ends; the browser's time zone comes along with every change
+async function saveEmailDigest() {
+  const start = document.getElementById('prefQuietStart').value;
+  const end = document.getElementById('prefQuietEnd').value;
+  const status = document.getElementById('emailDigestStatus');
+  const res = await fetch('/api/preferences', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      emailDigest: {
+        cadence: document.getElementById('prefEmailCadence').value,
+        quietHours: start && end ? { start: start, end: end } : null,
+        maxItems: parseInt(document.getElementById('prefEmailMax').value, 10) || 10,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+      }
+    })
+  });
+  const prefs = await res.json();
+  if (!res.ok) {
+    status.textContent = prefs.error;
+    return;
+  }
+  const email = prefs.emailDigest;
+  status.textContent = email.cadence === 'off'
+    ? 'Email digests are off.'
+    : 'Saved. ' + (email.cadence === 'daily' ? 'Daily' : 'Weekly') + ' emails' +
+      (email.quietHours ? ', never between ' + email.quietHours.start + ' and ' + email.quietHours.end : '') + ' (' + email.timezone + ').';
+}
+
+async function sendTestEmail() {
+  const status = document.getElementById('emailDigestStatus');
+  status.textContent = 'Sending...';
+  const res = await fetch('/api/preferences/email-test', { method: 'POST' });
+  const data = await res.json();
+  status.textContent = res.ok ? 'Sent ' + data.sent + ' idea' + (data.sent === 1 ? '' : 's') + ' to ' + data.to + '.' : data.error;
+}
+
+async function setRecommendations(enabled) {
+  const res = await fetch('/api/preferences', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ recommendations: enabled })
+  });
+  const prefs = await res.json();
+  if (prefs.removed > 0) fetchIdeas();
+}
+
+async function loadTagRules() {
+  const res = await fetch('/api/tags/rules');
+  const data = await res.json();
+  document.getElementById('tagRulesText').value = data.text;
+  document.getElementById('tagRulesStatus').textContent = '';
+}
+
+async function saveTagRules() {
+  const status = document.getElementById('tagRulesStatus');
+  status.textContent = 'Saving and retagging...';
+  const res = await fetch('/api/tags/rules', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: document.getElementById('tagRulesText').value })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    status.textContent = (data.errors || [data.error]).join('\n');
+    return;
+  }
+  status.textContent = 'Saved. ' + data.retagged + ' ideas tagged.';
+  fetchIdeas();
+}
+
+async function loadDigestTemplate() {
+  const res = await fetch('/api/digests/template');
+  const data = await res.json();
+  document.getElementById('digestTemplateText').value = data.template;
+  document.getElementById('digestTemplateStatus').textContent = data.isDefault ? 'Using the default template.' : '';
+}
+
+async function putDigestTemplate(template) {
+  const status = document.getElementById('digestTemplateStatus');
+  const res = await fetch('/api/digests/template', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ template: template })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    status.textContent = data.error;
+    return;
+  }
+  document.getElementById('digestTemplateText').value = data.template;
+  status.textContent = data.isDefault ? 'Back to the default template.' : 'Saved. New drafts and regenerations use it.';
+}
+
+function saveDigestTemplate() {
+  putDigestTemplate(document.getElementById('digestTemplateText').value);
+}
+
+function resetDigestTemplate() {
+  if (!confirm('Replace your digest template with the default?')) return;
+  putDigestTemplate(null);
 }
 
 async function addIdea() {
@@ -325,23 +629,47 @@ async function loadLikedIdeas() {
 }
 
 async function showSavedIdeas() {
-  const res = await fetch('/api/liked');
+  showCollectionView(null);
+  await loadCollections();
+  if (document.getElementById('savedSearch').value.trim()) {
+    document.getElementById('savedModal').classList.add('active');
+    return runSavedSearch();
+  }
+  const tag = document.getElementById('savedTagFilter').value;
+  const [res, tagsRes] = await Promise.all([
+    fetch('/api/liked' + (tag ? '?tag=' + encodeURIComponent(tag) : '')),
+    fetch('/api/tags'),
+  ]);
   const liked = await res.json();
+  const tagsData = await tagsRes.json();
+  
+  const select = document.getElementById('savedTagFilter');
+  select.innerHTML = '<option value="">All tags</option>' + tagsData.tags.filter(function(t) { return t.saved > 0; }).map(function(t) {
+    return '<option value="' + escapeHtml(t.tag) + '">#' + escapeHtml(t.tag) + ' (' + t.saved + ')</option>';
+  }).join('');
+  select.value = tag;
   
   const container = document.getElementById('savedIdeasList');
   if (liked.length === 0) {
-    container.innerHTML = '<p style="color:#666; text-align: center;">No saved ideas yet. Swipe right on ideas you like!</p>';
+    container.innerHTML = tag
+      ? '<p style="color:#666; text-align: center;">No saved ideas tagged #' + escapeHtml(tag) + '.</p>'
+      : '<p style="color:#666; text-align: center;">No saved ideas yet. Swipe right on ideas you like!</p>';
   } else {
     container.innerHTML = liked.map(function(idea) {
       const feedbackHtml = idea.feedback 
         ? '<div style="color: #888; font-size: 0.9em; font-style: italic; margin-top: 5px;">"' + escapeHtml(idea.feedback) + '"</div>'
         : '';
       const urlHtml = idea.url
-        ? '<a href="' + escapeHtml(idea.url) + '" target="_blank" style="color: #4ecdc4; font-size: 0.85em;">Open →</a>'
+        ? '<a href="' + escapeHtml(idea.url) + '" target="_blank" style="color: #4ecdc4; font-size: 0.85em;">Open →</a>' +
+          '<a class="card-reader" onclick="openReader(' + idea.id + ')">📖 Reader' + (idea.reading_minutes ? ' · ' + idea.reading_minutes + ' min' : '') + '</a>'
         : '';
       return '<div style="background: #1f1f35; border-radius: 10px; padding: 12px; margin-bottom: 10px;">' +
         '<div style="font-weight: 600; margin-bottom: 3px;">' + escapeHtml(idea.title) + '</div>' +
-        '<div style="color: #feca57; font-size: 0.85em;">' + escapeHtml(idea.source) + ' ' + urlHtml + '</div>' +
+        '<div style="color: #feca57; font-size: 0.85em;">' + escapeHtml(idea.source) + ' ' + urlHtml +
+          '<a class="card-reader" onclick="editIdeaTags(' + idea.id + ')">🏷️ Tags</a>' +
+          '<a class="card-reader" onclick="showNotes(' + idea.id + ')">🗒️ Notes' + (idea.notes.length ? ' (' + idea.notes.length + ')' : '') + '</a>' +
+          collectionPickerHtml(idea.id) + '</div>' +
+        tagChipsHtml(idea.tags, function(tag) { return "document.getElementById('savedTagFilter').value = '" + tag + "'; showSavedIdeas()"; }) +
         feedbackHtml +
       '</div>';
     }).join('');
@@ -350,10 +678,464 @@ async function showSavedIdeas() {
   document.getElementById('savedModal').classList.add('active');
 }
 
+// Collections: boards of saved ideas, each item moving idea → drafting → published
+const COLLECTION_STATUSES = [
+  { status: 'idea', label: '💡 Idea' },
+  { status: 'drafting', label: '✍️ Drafting' },
+  { status: 'published', label: '🚀 Published' },
+];
+let collections = [];
+let activeCollection = null;   // the open collection, with its items
+
+async function loadCollections() {
+  const res = await fetch('/api/collections');
+  collections = (await res.json()).collections;
+  renderCollectionTabs();
+}
+
+function renderCollectionTabs() {
+  const activeId = activeCollection ? activeCollection.id : null;
+  document.getElementById('collectionTabs').innerHTML =
+    '<button class="collection-tab' + (activeId === null ? ' active' : '') + '" onclick="showSavedIdeas()">All saved</button>' +
+    collections.map(function(c) {
+      return '<button class="collection-tab' + (activeId === c.id ? ' active' : '') + '" onclick="showCollection(' + c.id + ')">' +
+        escapeHtml(c.name) + ' (' + c.items + ')</button>';
+    }).join('') +
+    '<button class="collection-tab" onclick="newCollection().then(function(c) { if (c) showCollection(c.id); })">＋ New</button>';
+}
+
+// null shows the flat saved list
+function showCollectionView(collectionId) {
+  if (collectionId === null) activeCollection = null;
+  document.getElementById('savedAllView').style.display = collectionId === null ? 'flex' : 'none';
+  document.getElementById('collectionView').style.display = collectionId === null ? 'none' : 'flex';
+}
+
+function collectionPickerHtml(ideaId) {
+  return '<select class="collection-picker" onchange="addToCollection(' + ideaId + ', this)">' +
+    '<option value="">📁 Add to…</option>' +
+    collections.map(function(c) { return '<option value="' + c.id + '">' + escapeHtml(c.name) + '</option>'; }).join('') +
+    '<option value="new">New collection…</option>' +
+  '</select>';
+}
+
+async function newCollection() {
+  const name = prompt('Name for the new collection (e.g. "March newsletter"):');
+  if (!name || !name.trim()) return null;
+  const res = await fetch('/api/collections', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: name })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to create collection');
+    return null;
+  }
+  await loadCollections();
+  return data;
+}
+
+async function addToCollection(ideaId, select) {
+  let collectionId = select.value;
+  select.value = '';
+  if (!collectionId) return;
+  if (collectionId === 'new') {
+    const created = await newCollection();
+    if (!created) return;
+    collectionId = created.id;
+  }
+  const res = await fetch('/api/collections/' + collectionId + '/items', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ideaId: ideaId })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to add to collection');
+    return;
+  }
+  await loadCollections();
+  const collection = collections.find(function(c) { return c.id === Number(collectionId); });
+  showSwipeMessage('Added to ' + (collection ? collection.name : 'collection'), '#4ecdc4');
+}
+
+async function showCollection(collectionId) {
+  const res = await fetch('/api/collections/' + collectionId);
+  if (!res.ok) {
+    showSavedIdeas();
+    return;
+  }
+  activeCollection = await res.json();
+  showCollectionView(collectionId);
+  renderCollectionTabs();
+  
+  const c = activeCollection;
+  document.getElementById('collectionHeader').innerHTML =
+    '<div>' +
+      '<div style="font-weight: 600;">' + escapeHtml(c.name) + '</div>' +
+      (c.description ? '<div class="preview-meta">' + escapeHtml(c.description) + '</div>' : '') +
+    '</div>' +
+    '<div style="display: flex; gap: 6px; flex-shrink: 0;">' +
+      '<a class="feed-btn" href="/api/collections/' + c.id + '/outline" target="_blank" style="text-decoration: none;">📝 Outline</a>' +
+      '<a class="feed-btn" href="/api/liked/export?format=obsidian&collection=' + c.id + '" style="text-decoration: none;" title="Obsidian vault with a note per idea">⬇️ Export</a>' +
+      '<button class="feed-btn" onclick="editCollection()">✏️ Edit</button>' +
+      '<button class="feed-btn delete" onclick="deleteCollection()">Delete</button>' +
+    '</div>';
+  
+  document.getElementById('collectionBoard').innerHTML = COLLECTION_STATUSES.map(function(column, columnIndex) {
+    const items = c.items.filter(function(item) { return item.status === column.status; });
+    return '<div class="board-column">' +
+      '<h3>' + column.label + ' · ' + items.length + '</h3>' +
+      (items.length === 0 && columnIndex === 0 && c.items.length === 0
+        ? '<p class="preview-meta">Add saved ideas with the 📁 menu under All saved.</p>'
+        : '') +
+      items.map(function(item, index) {
+        return '<div class="board-card">' +
+          '<div class="board-card-title">' + escapeHtml(item.title) + '</div>' +
+          '<div class="preview-meta">' + escapeHtml(item.source) +
+            (item.url ? ' · <a href="' + escapeHtml(item.url).replace(/"/g, '&quot;') + '" target="_blank" style="color: #4ecdc4;">Open →</a>' : '') +
+          '</div>' +
+          '<div class="board-card-note" onclick="editItemNote(' + item.idea_id + ')" title="Click to edit the note">' +
+            (item.note ? escapeHtml(item.note) : '<span style="color: #666;">+ Add a note</span>') +
+          '</div>' +
+          '<div class="board-card-actions">' +
+            '<button onclick="moveItemStatus(' + item.idea_id + ', -1)" ' + (columnIndex === 0 ? 'disabled' : '') + ' title="Back a stage">◀</button>' +
+            '<button onclick="moveItem(' + item.idea_id + ', -1)" ' + (index === 0 ? 'disabled' : '') + ' title="Move up">▲</button>' +
+            '<button onclick="moveItem(' + item.idea_id + ', 1)" ' + (index === items.length - 1 ? 'disabled' : '') + ' title="Move down">▼</button>' +
+            '<button onclick="moveItemStatus(' + item.idea_id + ', 1)" ' + (columnIndex === COLLECTION_STATUSES.length - 1 ? 'disabled' : '') + ' title="Next stage">▶</button>' +
+            '<button onclick="removeCollectionItem(' + item.idea_id + ')" title="Remove from collection">✕</button>' +
+          '</div>' +
+        '</div>';
+      }).join('') +
+    '</div>';
+  }).join('');
+}
+
+async function updateCollectionItem(ideaId, change) {
+  const res = await fetch('/api/collections/' + activeCollection.id + '/items/' + ideaId, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change)
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    alert(data.error || 'Failed to update item');
+  }
+  showCollection(activeCollection.id);
+}
+
+function moveItemStatus(ideaId, delta) {
+  const item = activeCollection.items.find(function(i) { return i.idea_id === ideaId; });
+  const index = COLLECTION_STATUSES.findIndex(function(s) { return s.status === item.status; });
+  const next = COLLECTION_STATUSES[index + delta];
+  if (next) updateCollectionItem(ideaId, { status: next.status });
+}
+
+function editItemNote(ideaId) {
+  const item = activeCollection.items.find(function(i) { return i.idea_id === ideaId; });
+  const note = prompt('Note for "' + item.title + '":', item.note || '');
+  if (note === null) return;
+  updateCollectionItem(ideaId, { note: note });
+}
+
+// Swap with the neighbouring item in the same column
+async function moveItem(ideaId, delta) {
+  const items = activeCollection.items;
+  const item = items.find(function(i) { return i.idea_id === ideaId; });
+  const column = items.filter(function(i) { return i.status === item.status; });
+  const neighbour = column[column.indexOf(item) + delta];
+  if (!neighbour) return;
+  const order = items.map(function(i) { return i.idea_id; });
+  const a = order.indexOf(item.idea_id);
+  const b = order.indexOf(neighbour.idea_id);
+  order[a] = neighbour.idea_id;
+  order[b] = item.idea_id;
+  await fetch('/api/collections/' + activeCollection.id + '/items/order', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ideaIds: order })
+  });
+  showCollection(activeCollection.id);
+}
+
+async function removeCollectionItem(ideaId) {
+  await fetch('/api/collections/' + activeCollection.id + '/items/' + ideaId, { method: 'DELETE' });
+  await loadCollections();
+  showCollection(activeCollection.id);
+}
+
+async function editCollection() {
+  const name = prompt('Collection name:', activeCollection.name);
+  if (name === null) return;
+  const description = prompt('Description (optional):', activeCollection.description || '');
+  if (description === null) return;
+  const res = await fetch('/api/collections/' + activeCollection.id, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: name, description: description })
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    alert(data.error || 'Failed to update collection');
+    return;
+  }
+  await loadCollections();
+  showCollection(activeCollection.id);
+}
+
+async function deleteCollection() {
+  if (!confirm('Delete "' + activeCollection.name + '"? The ideas stay saved.')) return;
+  await fetch('/api/collections/' + activeCollection.id, { method: 'DELETE' });
+  showSavedIdeas();
+}
+
+// Search within the saved modal. An empty box falls back to the plain saved list.
+let savedSearchTimer = null;
+let savedSearchOffset = 0;
+
+function onSavedSearchInput() {
+  clearTimeout(savedSearchTimer);
+  savedSearchTimer = setTimeout(runSavedSearch, 250);
+}
+
+// Snippets mark matches with \u0002/\u0003; escape first, then turn those into <mark>
+function highlightSnippet(snippet) {
+  return escapeHtml(snippet).replace(/\u0002/g, '<mark>').replace(/\u0003/g, '</mark>');
+}
+
+async function runSavedSearch(more) {
+  const q = document.getElementById('savedSearch').value.trim();
+  document.getElementById('savedTagFilter').style.display = q ? 'none' : '';
+  if (!q) {
+    showSavedIdeas();
+    return;
+  }
+  
+  savedSearchOffset = more ? savedSearchOffset + 20 : 0;
+  const params = new URLSearchParams({
+    q: q,
+    direction: document.getElementById('savedSearchDirection').value,
+    offset: String(savedSearchOffset),
+  });
+  const res = await fetch('/api/search?' + params);
+  const data = await res.json();
+  if (document.getElementById('savedSearch').value.trim() !== q) return;   // typed on while waiting
+  const container = document.getElementById('savedIdeasList');
+  if (data.error) {
+    container.innerHTML = '<p style="color: #ff6b6b; text-align: center;">' + escapeHtml(data.error) + '</p>';
+    return;
+  }
+  
+  const html = data.results.map(function(idea) {
+    const state = idea.direction === 'right' ? '✅ Saved' : idea.direction === 'left' ? '👎 Dismissed' : '⏳ In queue';
+    const urlHtml = idea.url
+      ? '<a href="' + escapeHtml(idea.url).replace(/"/g, '&quot;') + '" target="_blank" style="color: #4ecdc4; font-size: 0.85em;">Open →</a>' +
+        '<a class="card-reader" onclick="openReader(' + idea.id + ')">📖 Reader</a>'
+      : '';
+    return '<div style="background: #1f1f35; border-radius: 10px; padding: 12px; margin-bottom: 10px;">' +
+      '<div style="font-weight: 600; margin-bottom: 3px;">' + escapeHtml(idea.title) + '</div>' +
+      '<div style="color: #feca57; font-size: 0.85em;">' + escapeHtml(idea.source) + ' · ' + state + ' ' + urlHtml + '</div>' +
+      '<div class="search-snippet">' + highlightSnippet(idea.snippet) + '</div>' +
+      (idea.feedback ? '<div style="color: #888; font-size: 0.9em; font-style: italic; margin-top: 5px;">"' + escapeHtml(idea.feedback) + '"</div>' : '') +
+    '</div>';
+  }).join('');
+  const moreHtml = data.offset + data.results.length < data.total
+    ? '<button class="feed-btn" id="savedSearchMore" onclick="runSavedSearch(true)" style="width: 100%;">Load more (' + (data.total - data.offset - data.results.length) + ' left)</button>'
+    : '';
+  
+  if (more) {
+    const button = document.getElementById('savedSearchMore');
+    if (button) button.remove();
+    container.insertAdjacentHTML('beforeend', html + moreHtml);
+  } else {
+    container.innerHTML = data.total === 0
+      ? '<p style="color:#666; text-align: center;">Nothing matches "' + escapeHtml(q) + '".</p>'
+      : '<p style="color:#888; font-size: 0.85em; margin-bottom: 8px;">' + data.total + ' result' + (data.total === 1 ? '' : 's') + '</p>' + html + moreHtml;
+  }
+}
+
+async function editIdeaTags(ideaId) {
+  const res = await fetch('/api/liked');
+  const idea = (await res.json()).find(function(i) { return i.id === ideaId; });
+  const current = idea ? idea.tags.map(function(t) { return t.tag; }).join(', ') : '';
+  const input = prompt('Tags for this idea, comma-separated. Leave empty to go back to automatic tags.', current);
+  if (input === null) return;
+  
+  await fetch('/api/ideas/' + ideaId + '/tags', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tags: input.split(',').map(function(t) { return t.trim(); }).filter(Boolean) })
+  });
+  showSavedIdeas();
+}
+
 function closeSavedModal() {
   document.getElementById('savedModal').classList.remove('active');
 }
 
+// Notes and highlights on a saved idea
+let notesIdea = null;   // { id, title } of the idea whose notes are open
+
+async function showNotes(ideaId) {
+  const res = await fetch('/api/liked');
+  const idea = (await res.json()).find(function(i) { return i.id === ideaId; });
+  notesIdea = { id: ideaId, title: idea ? idea.title : '' };
+  document.getElementById('notesIdeaTitle').textContent = notesIdea.title;
+  document.getElementById('notesModal').classList.add('active');
+  loadNotes();
+}
+
+function closeNotes() {
+  document.getElementById('notesModal').classList.remove('active');
+  if (document.getElementById('savedModal').classList.contains('active')) showSavedIdeas();
+}
+
+async function loadNotes() {
+  const res = await fetch('/api/ideas/' + notesIdea.id + '/notes');
+  const data = await res.json();
+  const container = document.getElementById('notesList');
+  if (data.error) {
+    container.innerHTML = '<p style="color: #ff6b6b;">' + escapeHtml(data.error) + '</p>';
+    return;
+  }
+  if (data.notes.length === 0) {
+    container.innerHTML = '<p class="preview-meta">No notes yet. Write one below, or select text in the 📖 Reader and highlight it.</p>';
+    return;
+  }
+  container.innerHTML = data.notes.map(function(note) {
+    const edited = note.updated_at !== note.created_at ? ' · edited ' + escapeHtml(note.updated_at) : '';
+    return '<div class="note-item" id="note-' + note.id + '">' +
+      (note.quote ? '<blockquote>' + escapeHtml(note.quote) + '</blockquote>' : '') +
+      '<div class="note-body">' + (note.body ? escapeHtml(note.body) : '') + '</div>' +
+      '<div class="note-meta">' +
+        '<span>' + (note.kind === 'highlight' ? '✨ Highlight · ' : '') + escapeHtml(note.created_at) + edited + '</span>' +
+        '<span><button class="feed-btn" onclick="editIdeaNote(' + note.id + ')">Edit</button>' +
+        '<button class="feed-btn delete" onclick="deleteIdeaNote(' + note.id + ')">Delete</button></span>' +
+      '</div>' +
+    '</div>';
+  }).join('');
+}
+
+async function addIdeaNote() {
+  const text = document.getElementById('newNoteText').value;
+  if (!text.trim()) return;
+  const res = await fetch('/api/ideas/' + notesIdea.id + '/notes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ body: text })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to add note');
+    return;
+  }
+  document.getElementById('newNoteText').value = '';
+  loadNotes();
+}
+
+// Swap the note's text for an editor in place
+function editIdeaNote(noteId) {
+  const item = document.getElementById('note-' + noteId);
+  const body = item.querySelector('.note-body');
+  if (body.querySelector('textarea')) return;
+  const current = body.textContent;
+  body.innerHTML = '<textarea></textarea>' +
+    '<button class="feed-btn" onclick="saveIdeaNote(' + noteId + ')">Save</button> ' +
+    '<button class="feed-btn" onclick="loadNotes()">Cancel</button>';
+  body.querySelector('textarea').value = current;
+  body.querySelector('textarea').focus();
+}
+
+async function saveIdeaNote(noteId) {
+  const text = document.querySelector('#note-' + noteId + ' textarea').value;
+  const res = await fetch('/api/notes/' + noteId, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ body: text })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to save note');
+    return;
+  }
+  loadNotes();
+}
+
+async function deleteIdeaNote(noteId) {
+  if (!confirm('Delete this note?')) return;
+  await fetch('/api/notes/' + noteId, { method: 'DELETE' });
+  loadNotes();
+}
+
+// Save the text selected in the reader as a highlight, with an optional comment
+async function highlightSelection() {
+  const selection = window.getSelection();
+  const quote = selection ? selection.toString().trim() : '';
+  if (!quote || !document.getElementById('readerContent').contains(selection.anchorNode)) {
+    alert('Select some text in the article first');
+    return;
+  }
+  const comment = prompt('Add a comment to this highlight (optional):', '');
+  if (comment === null) return;
+  const res = await fetch('/api/ideas/' + readerIdeaId + '/notes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ quote: quote, body: comment })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to save highlight');
+    return;
+  }
+  selection.removeAllRanges();
+  showSwipeMessage('Highlight saved', '#4ecdc4');
+}
+
+// Reader view: the extracted article text, fetched (and extracted if needed) on open
+let readerIdeaId = null;
+
+async function openReader(ideaId) {
+  readerIdeaId = ideaId;
+  const container = document.getElementById('readerContent');
+  container.innerHTML = '<p style="color: #888;">Loading article…</p>';
+  document.getElementById('readerModal').classList.add('active');
+  
+  try {
+    const res = await fetch('/api/ideas/' + ideaId + '/content');
+    const content = await res.json();
+    if (content.error) {
+      container.innerHTML = '<p style="color: #ff6b6b;">' + escapeHtml(content.error) + '</p>';
+      return;
+    }
+    
+    const originalLink = content.url
+      ? '<a href="' + escapeHtml(content.url) + '" target="_blank">Open original →</a>'
+      : '';
+    if (content.status !== 'ok') {
+      container.innerHTML = '<p style="color: #888; margin-bottom: 10px;">No reader view for this one (' + escapeHtml(content.error || content.status) + ').</p>' +
+        '<div class="reader-meta">' + originalLink + '</div>';
+      return;
+    }
+    
+    const meta = [content.byline ? escapeHtml(content.byline) : '', content.reading_minutes + ' min read', originalLink].filter(Boolean).join(' · ');
+    container.innerHTML =
+      '<h1>' + escapeHtml(content.title || '') + '</h1>' +
+      '<div class="reader-meta">' + meta + '</div>' +
+      (content.lead_image && content.content_html.indexOf(content.lead_image) === -1
+        ? '<img class="reader-lead" src="' + escapeHtml(content.lead_image) + '" alt="">'
+        : '') +
+      // content_html is sanitized server-side by the extractor
+      '<div class="reader-body">' + content.content_html + '</div>';
+  } catch (e) {
+    container.innerHTML = '<p style="color: #ff6b6b;">Failed to load article</p>';
+  }
+}
+
+function closeReader() {
+  document.getElementById('readerModal').classList.remove('active');
+}
+
 // Close saved modal when clicking outside
 document.addEventListener('click', function(e) {
   const modal = document.getElementById('savedModal');
@@ -363,6 +1145,11 @@ document.addEventListener('click', function(e) {
 });
 
 async function downloadSavedIdeas() {
+  const format = document.getElementById('exportFormat').value;
+  if (format !== 'json') {
+    window.location.href = '/api/liked/export?format=' + format;
+    return;
+  }
   const res = await fetch('/api/liked');
   const liked = await res.json();
   
@@ -393,47 +1180,337 @@ async function deleteAccount() {
   }
 }
 
-async function undoSwipe() {
-  if (!lastSwipe) {
-    // Show brief message that there's nothing to undo
-    const container = document.getElementById('cardContainer');
-    const existing = document.getElementById('undoMessage');
-    if (existing) existing.remove();
-    
-    const msg = document.createElement('div');
-    msg.id = 'undoMessage';
-    msg.style.cssText = 'position:fixed;bottom:100px;left:50%;transform:translateX(-50%);background:#333;color:#fff;padding:10px 20px;border-radius:8px;z-index:1000;';
-    msg.textContent = 'Nothing to undo';
-    document.body.appendChild(msg);
-    setTimeout(() => msg.remove(), 2000);
+function showSwipeMessage(text, color) {
+  const existing = document.getElementById('undoMessage');
+  if (existing) existing.remove();
+  const msg = document.createElement('div');
+  msg.id = 'undoMessage';
+  msg.style.cssText = 'position:fixed;bottom:100px;left:50%;transform:translateX(-50%);background:' + color + ';color:#fff;padding:10px 20px;border-radius:8px;z-index:1000;';
+  msg.textContent = text;
+  document.body.appendChild(msg);
+  setTimeout(() => msg.remove(), 2000);
+}
+
+// Undo/redo live on the server, so they reach back past reloads and across devices
+async function undoSwipe(steps) {
+  const res = await fetch('/api/undo', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ steps: steps || 1 })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    showSwipeMessage('Nothing to undo', '#333');
     return;
   }
   
-  const res = await fetch('/api/undo', {
+  // Ideas that are back in the queue go to the front, most recently undone first
+  const requeued = data.actions.filter(function(a) { return a.direction === null; }).map(function(a) { return a.ideaId; });
+  await fetchIdeas(requeued.reverse());
+  showSwipeMessage('Undid ' + describeSteps(data.actions.length) + (data.canUndo ? ' (U to undo more, Shift+U to redo)' : ' (Shift+U to redo)'), '#4ecdc4');
+}
+
+async function redoSwipe(steps) {
+  const res = await fetch('/api/redo', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ ideaId: lastSwipe.ideaId })
+    body: JSON.stringify({ steps: steps || 1 })
   });
+  const data = await res.json();
+  if (!res.ok) {
+    showSwipeMessage('Nothing to redo', '#333');
+    return;
+  }
   
-  if (res.ok) {
-    const data = await res.json();
-    // Put the idea back at the front of the queue
-    ideas.unshift(lastSwipe.idea);
-    document.getElementById('remaining').textContent = ideas.length;
-    if (data.wasRight) {
-      document.getElementById('liked').textContent = parseInt(document.getElementById('liked').textContent) - 1;
-    }
-    renderCard();
-    
-    // Show undo confirmation
-    const msg = document.createElement('div');
-    msg.style.cssText = 'position:fixed;bottom:100px;left:50%;transform:translateX(-50%);background:#4ecdc4;color:#fff;padding:10px 20px;border-radius:8px;z-index:1000;';
-    msg.textContent = 'Undo successful! (press U to undo again)';
-    document.body.appendChild(msg);
-    setTimeout(() => msg.remove(), 2000);
+  await fetchIdeas();
+  showSwipeMessage('Redid ' + describeSteps(data.actions.length) + (data.canRedo ? ' (Shift+U to redo more)' : ''), '#4ecdc4');
+}
+
+function describeSteps(count) {
+  return count === 1 ? '1 action' : count + ' actions';
+}
+
+// Swipe history: re-judge past swipes, including dismissed ones
+let historyOffset = 0;
+let historyItems = {};   // id -> loaded history item
+
+function historyFilters() {
+  return {
+    direction: document.getElementById('historyDirection').value,
+    from: document.getElementById('historyFrom').value,
+    to: document.getElementById('historyTo').value,
+    source: document.getElementById('historySource').value.trim(),
+    category: document.getElementById('historyCategory').value.trim(),
+  };
+}
+
+function showHistory() {
+  document.getElementById('historyModal').classList.add('active');
+  loadHistory();
+}
+
+function closeHistory() {
+  document.getElementById('historyModal').classList.remove('active');
+}
+
+async function loadHistory(more) {
+  historyOffset = more ? historyOffset + 50 : 0;
+  const filters = historyFilters();
+  const params = new URLSearchParams({ offset: String(historyOffset) });
+  Object.keys(filters).forEach(function(key) { if (filters[key]) params.set(key, filters[key]); });
+  
+  const res = await fetch('/api/history?' + params);
+  const data = await res.json();
+  const container = document.getElementById('historyList');
+  if (data.error) {
+    container.innerHTML = '<p style="color: #ff6b6b; text-align: center;">' + escapeHtml(data.error) + '</p>';
+    return;
   }
   
-  lastSwipe = null;
+  if (!more) historyItems = {};
+  const html = data.items.map(function(item) {
+    historyItems[item.id] = item;
+    const saved = item.direction === 'right';
+    return '<div class="history-item ' + item.direction + '">' +
+      '<input type="checkbox" class="history-select" value="' + item.id + '">' +
+      '<div style="flex: 1;">' +
+        '<div style="font-weight: 600; margin-bottom: 3px;">' + escapeHtml(item.title) + '</div>' +
+        '<div style="color: #feca57; font-size: 0.85em;">' + escapeHtml(item.source) + ' · ' +
+          (saved ? '✅ Saved' : '👎 Dismissed') + ' ' + escapeHtml(item.swiped_at.substring(0, 10)) +
+          (item.url ? ' <a href="' + escapeHtml(item.url).replace(/"/g, '&quot;') + '" target="_blank" style="color: #4ecdc4;">Open →</a>' : '') +
+        '</div>' +
+        (item.feedback ? '<div style="color: #888; font-size: 0.9em; font-style: italic; margin-top: 5px;">"' + escapeHtml(item.feedback) + '"</div>' : '') +
+        '<button class="feed-btn" onclick="flipSwipe(' + item.id + ', \'' + (saved ? 'left' : 'right') + '\')">' + (saved ? '👎 Dismiss instead' : '✅ Save instead') + '</button>' +
+        '<button class="feed-btn" onclick="editHotTake(' + item.id + ')">💬 Hot take</button>' +
+        '<button class="feed-btn" onclick="unswipeIds([' + item.id + '])">↩️ Back to queue</button>' +
+      '</div>' +
+    '</div>';
+  }).join('');
+  const moreHtml = data.offset + data.items.length < data.total
+    ? '<button class="feed-btn" id="historyMore" onclick="loadHistory(true)" style="width: 100%;">Load more (' + (data.total - data.offset - data.items.length) + ' left)</button>'
+    : '';
+  
+  if (more) {
+    const button = document.getElementById('historyMore');
+    if (button) button.remove();
+    container.insertAdjacentHTML('beforeend', html + moreHtml);
+  } else {
+    container.innerHTML = data.total === 0
+      ? '<p style="color:#666; text-align: center;">No swipes match.</p>'
+      : '<p style="color:#888; font-size: 0.85em; margin-bottom: 8px;">' + data.total + ' swipe' + (data.total === 1 ? '' : 's') + '</p>' + html + moreHtml;
+  }
+}
+
+async function updateHistoryItem(ideaId, change) {
+  const res = await fetch('/api/history/' + ideaId, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change)
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    alert(data.error || 'Failed to update swipe');
+    return;
+  }
+  loadHistory();
+  fetchIdeas();
+}
+
+function flipSwipe(ideaId, direction) {
+  updateHistoryItem(ideaId, { direction: direction });
+}
+
+async function editHotTake(ideaId) {
+  const item = historyItems[ideaId];
+  const feedback = prompt('Hot take (leave empty to remove it):', item && item.feedback ? item.feedback : '');
+  if (feedback === null) return;
+  updateHistoryItem(ideaId, { feedback: feedback });
+}
+
+async function unswipeIds(ids) {
+  if (ids.length === 0) {
+    alert('Select some swipes first');
+    return;
+  }
+  const res = await fetch('/api/history/unswipe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids: ids })
+  });
+  const data = await res.json();
+  showSwipeMessage(data.unswiped + ' idea' + (data.unswiped === 1 ? '' : 's') + ' back in your queue', '#4ecdc4');
+  loadHistory();
+  fetchIdeas();
+}
+
+function unswipeSelected() {
+  const ids = Array.from(document.querySelectorAll('.history-select:checked')).map(function(box) { return parseInt(box.value, 10); });
+  unswipeIds(ids);
+}
+
+async function unswipeFiltered() {
+  const filters = historyFilters();
+  if (!filters.from && !filters.to) {
+    alert('Pick a date range first');
+    return;
+  }
+  if (!confirm('Put every swipe matching these filters back in the queue?')) return;
+  const res = await fetch('/api/history/unswipe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(filters)
+  });
+  const data = await res.json();
+  if (data.error) {
+    alert(data.error);
+    return;
+  }
+  showSwipeMessage(data.unswiped + ' idea' + (data.unswiped === 1 ? '' : 's') + ' back in your queue', '#4ecdc4');
+  loadHistory();
+  fetchIdeas();
+}
+
+// Digest drafts: the one open in the editor, at which version
+let currentDigest = null;
+
+function isoDate(daysAgo) {
+  return new Date(Date.now() - daysAgo * 86400000).toISOString().substring(0, 10);
+}
+
+function showDigests() {
+  document.getElementById('digestModal').classList.add('active');
+  if (!document.getElementById('digestTo').value) {
+    document.getElementById('digestFrom').value = isoDate(6);
+    document.getElementById('digestTo').value = isoDate(0);
+  }
+  loadDigestList();
+}
+
+function closeDigests() {
+  document.getElementById('digestModal').classList.remove('active');
+}
+
+async function loadDigestList(selectId) {
+  const res = await fetch('/api/digests');
+  const data = await res.json();
+  const select = document.getElementById('digestSelect');
+  if (data.digests.length === 0) {
+    select.innerHTML = '<option value="">No drafts yet</option>';
+    showDigest(null);
+    return;
+  }
+  select.innerHTML = data.digests.map(function(digest) {
+    return '<option value="' + digest.id + '">' + escapeHtml(digest.title) + ' (v' + digest.latest_version + ')</option>';
+  }).join('');
+  select.value = String(selectId || (currentDigest && data.digests.some(function(d) { return d.id === currentDigest.id; }) ? currentDigest.id : data.digests[0].id));
+  loadDigest();
+}
+
+async function loadDigest(version) {
+  const id = document.getElementById('digestSelect').value;
+  if (!id) return;
+  const res = await fetch('/api/digests/' + id + (version ? '?version=' + version : ''));
+  const data = await res.json();
+  if (data.error) {
+    alert(data.error);
+    return;
+  }
+  showDigest(data);
+}
+
+function showDigest(digest) {
+  currentDigest = digest;
+  const versionSelect = document.getElementById('digestVersion');
+  const meta = document.getElementById('digestMeta');
+  const editor = document.getElementById('digestMarkdown');
+  if (!digest) {
+    versionSelect.innerHTML = '';
+    meta.textContent = '';
+    editor.value = '';
+    return;
+  }
+  versionSelect.innerHTML = digest.versions.map(function(v) {
+    return '<option value="' + v.version + '">v' + v.version + ' · ' + (v.source === 'edited' ? 'edited' : 'generated') + ' ' + escapeHtml(v.created_at.substring(0, 16)) + '</option>';
+  }).join('');
+  versionSelect.value = String(digest.version.version);
+  const v = digest.version;
+  meta.textContent = v.idea_count + ' idea' + (v.idea_count === 1 ? '' : 's') + ' saved ' + v.period_from + ' to ' + v.period_to + ', by ' + v.group_by +
+    (v.version === digest.versions[0].version ? '' : ' · older version: saving makes it the latest');
+  editor.value = v.markdown;
+}
+
+async function buildDigest() {
+  const res = await fetch('/api/digests', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: document.getElementById('digestFrom').value || undefined,
+      to: document.getElementById('digestTo').value || undefined,
+      groupBy: document.getElementById('digestGroupBy').value
+    })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to build digest');
+    return;
+  }
+  currentDigest = data;
+  loadDigestList(data.id);
+}
+
+async function saveDigestVersion() {
+  if (!currentDigest) return;
+  const res = await fetch('/api/digests/' + currentDigest.id, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ markdown: document.getElementById('digestMarkdown').value })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to save digest');
+    return;
+  }
+  showSwipeMessage('Saved as version ' + data.version.version, '#4ecdc4');
+  loadDigestList(data.id);
+}
+
+// New version from the template, with the window and grouping picked above
+async function regenerateDigest() {
+  if (!currentDigest) return;
+  if (!confirm('Rebuild this draft from your template? Your edits stay in the earlier versions.')) return;
+  const res = await fetch('/api/digests/' + currentDigest.id + '/regenerate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: document.getElementById('digestFrom').value || undefined,
+      to: document.getElementById('digestTo').value || undefined,
+      groupBy: document.getElementById('digestGroupBy').value
+    })
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || 'Failed to regenerate digest');
+    return;
+  }
+  loadDigestList(data.id);
+}
+
+function openDigest(format, download) {
+  if (!currentDigest) return;
+  const url = '/api/digests/' + currentDigest.id + '/render?format=' + format + '&version=' + currentDigest.version.version + (download ? '&download=1' : '');
+  if (download) {
+    window.location.href = url;
+  } else {
+    window.open(url, '_blank');
+  }
+}
+
+async function deleteDigestDraft() {
+  if (!currentDigest) return;
+  if (!confirm('Delete "' + currentDigest.title + '" and all its versions?')) return;
+  await fetch('/api/digests/' + currentDigest.id, { method: 'DELETE' });
+  currentDigest = null;
+  loadDigestList();
 }
 
 // Refresh feeds manually
@@ -483,11 +1560,19 @@ async function loadUserFeeds() {
     container.innerHTML = feeds.map(function(feed) {
       const statusClass = feed.last_error ? 'feed-error' : (feed.enabled ? 'feed-active' : 'feed-disabled');
       const statusText = feed.last_error ? '⚠️' : (feed.enabled ? '✓' : '○');
+      let errorHtml = '';
+      if (!feed.enabled && feed.disabled_reason) {
+        errorHtml = '<div class="feed-error-text">Auto-disabled: ' + escapeHtml(feed.disabled_reason) + '</div>';
+      } else if (feed.last_error) {
+        const retryText = feed.next_fetch_at ? ' · retrying after ' + new Date(feed.next_fetch_at + 'Z').toLocaleString() : '';
+        errorHtml = '<div class="feed-error-text">' + escapeHtml(feed.last_error) + retryText + '</div>';
+      }
       return '<div class="feed-item ' + statusClass + '">' +
         '<div class="feed-info">' +
           '<span class="feed-status">' + statusText + '</span>' +
           '<span class="feed-name">' + escapeHtml(feed.name) + '</span>' +
-          '<span class="feed-category">' + escapeHtml(feed.category) + '</span>' +
+          '<span class="feed-category">' + escapeHtml(feed.type && feed.type !== 'rss' ? feed.type + ' · ' + feed.category : feed.category) + '</span>' +
+          errorHtml +
         '</div>' +
         '<div class="feed-actions">' +
           '<button onclick="toggleFeed(' + feed.id + ', ' + !feed.enabled + ')" class="feed-btn">' + 
@@ -502,15 +1587,197 @@ async function loadUserFeeds() {
   }
 }
 
+// Tell the user about feeds ingestion switched off since their last visit
+function showDisabledFeedsNotice(feeds) {
+  const notice = document.createElement('div');
+  notice.className = 'disabled-feeds-notice';
+  notice.innerHTML = '<strong>⛔ ' + (feeds.length === 1 ? 'A feed was' : feeds.length + ' feeds were') +
+    ' disabled after failing repeatedly:</strong>' +
+    feeds.map(function(feed) {
+      return '<div>' + escapeHtml(feed.name) + ' <span style="color: #888;">(' + escapeHtml(feed.disabled_reason || '') + ')</span></div>';
+    }).join('') +
+    '<button class="feed-btn">Got it</button>';
+  notice.querySelector('button').addEventListener('click', function() {
+    notice.remove();
+    fetch('/api/feeds/disabled/ack', { method: 'POST' });
+  });
+  document.body.appendChild(notice);
+}
+
+async function toggleFeedHealth() {
+  const container = document.getElementById('feedHealth');
+  if (container.innerHTML) {
+    container.innerHTML = '';
+    return;
+  }
+  
+  try {
+    const res = await fetch('/api/feeds/health');
+    const data = await res.json();
+    if (!data.feeds.length) {
+      container.innerHTML = '<p style="color: #666;">No feeds to report on.</p>';
+      return;
+    }
+    
+    container.innerHTML = '<p style="color: #888; font-size: 0.8em; margin-bottom: 8px;">Last ' + data.window_days + ' days, newest fetches on the left.</p>' +
+      data.feeds.map(function(feed) {
+        const stats = [
+          feed.success_rate === null ? 'no fetches' : Math.round(feed.success_rate * 100) + '% ok',
+          feed.items_per_week + ' items/week',
+          'last new item ' + (feed.last_new_item_at ? new Date(feed.last_new_item_at + 'Z').toLocaleDateString() : 'never'),
+          feed.avg_latency_ms === null ? '' : feed.avg_latency_ms + ' ms avg',
+        ].filter(Boolean).join(' · ');
+        const history = feed.history.map(function(fetch) {
+          const tip = fetch.fetched_at + ' ' + fetch.status + (fetch.error ? ': ' + fetch.error : '');
+          return '<span class="health-dot health-' + fetch.status + '" title="' + escapeHtml(tip).replace(/"/g, '&quot;') + '"></span>';
+        }).join('');
+        return '<div class="feed-item">' +
+          '<div class="feed-info">' +
+            '<span class="health-status health-' + feed.status + '">' + feed.status + '</span>' +
+            '<span class="feed-name">' + escapeHtml(feed.name) + '</span>' +
+            '<div class="health-stats">' + stats + '</div>' +
+            (history ? '<div class="health-history">' + history + '</div>' : '') +
+            (feed.disabled_reason ? '<div class="feed-error-text">' + escapeHtml(feed.disabled_reason) + '</div>' :
+              feed.last_error ? '<div class="feed-error-text">' + escapeHtml(feed.last_error) + '</div>' : '') +
+          '</div>' +
+        '</div>';
+      }).join('');
+  } catch (e) {
+    console.error('Failed to load feed health:', e);
+  }
+}
+
+// What the URL field asks for, per source type
+const SOURCE_TYPE_FIELDS = {
+  'rss': { label: 'Feed or Website URL', placeholder: 'https://bun.sh/blog' },
+  'github': { label: 'Repository', placeholder: 'oven-sh/bun' },
+  'github-tags': { label: 'Repository', placeholder: 'oven-sh/bun' },
+  'youtube': { label: 'Channel ID', placeholder: 'UCxxxxxxxxxxxxxxxxxxxxxx' },
+  'arxiv': { label: 'Category or Search', placeholder: 'cs.AI or ti:"language model"' },
+  'hn': { label: 'Search Terms (optional)', placeholder: 'sqlite' }
+};
+
+function updateSourceTypeFields() {
+  const type = document.getElementById('newFeedType').value;
+  const fields = SOURCE_TYPE_FIELDS[type];
+  document.getElementById('newFeedUrlLabel').textContent = fields.label;
+  document.getElementById('newFeedUrl').placeholder = fields.placeholder;
+  document.getElementById('newFeedPointsField').style.display = type === 'hn' ? 'block' : 'none';
+  document.getElementById('feedPreview').innerHTML = '';
+}
+
+// Adding a feed previews it first; the user subscribes from the preview.
+// Other source types are checked by the server as they're saved.
 async function addFeed() {
+  const type = document.getElementById('newFeedType').value;
   const url = document.getElementById('newFeedUrl').value.trim();
-  const name = document.getElementById('newFeedName').value.trim();
-  const category = document.getElementById('newFeedCategory').value;
-  
-  if (!url || !name) {
-    alert('Please enter both URL and name');
+  if (type !== 'rss') {
+    await saveSource(type, url);
+    return;
+  }
+  if (!url) {
+    alert('Please enter a feed or website URL');
     return;
   }
+  await previewFeedUrl(url);
+}
+
+async function saveSource(type, target) {
+  const btn = document.getElementById('addFeedBtn');
+  btn.disabled = true;
+  btn.textContent = 'Checking source…';
+  
+  try {
+    const res = await fetch('/api/feeds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: type === 'github-tags' ? 'github' : type,
+        target,
+        github_mode: type === 'github-tags' ? 'tags' : 'releases',
+        min_points: parseInt(document.getElementById('newFeedPoints').value) || 0,
+        name: document.getElementById('newFeedName').value.trim(),
+        category: document.getElementById('newFeedCategory').value
+      })
+    });
+    
+    const data = await res.json();
+    if (data.error) {
+      alert('Error: ' + data.error);
+      return;
+    }
+    
+    document.getElementById('newFeedUrl').value = '';
+    document.getElementById('newFeedName').value = '';
+    loadUserFeeds();
+  } catch (e) {
+    alert('Failed to add source');
+  } finally {
+    btn.disabled = false;
+    btn.textContent = 'Add Feed ➕';
+  }
+}
+
+async function previewFeedUrl(url) {
+  const btn = document.getElementById('addFeedBtn');
+  btn.disabled = true;
+  btn.textContent = 'Checking feed…';
+  
+  try {
+    const res = await fetch('/api/feeds/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url })
+    });
+    const preview = await res.json();
+    if (preview.error) {
+      alert('Error: ' + preview.error);
+    } else if (preview.candidates) {
+      showFeedCandidates(preview.candidates);
+    } else {
+      renderFeedPreview(preview);
+    }
+  } catch (e) {
+    alert('Failed to check feed');
+  } finally {
+    btn.disabled = false;
+    btn.textContent = 'Add Feed ➕';
+  }
+}
+
+function renderFeedPreview(preview) {
+  const container = document.getElementById('feedPreview');
+  const messages = preview.errors.map(function(msg) {
+      return '<div class="preview-error">✗ ' + escapeHtml(msg) + '</div>';
+    }).concat(preview.warnings.map(function(msg) {
+      return '<div class="preview-warning">⚠ ' + escapeHtml(msg) + '</div>';
+    })).join('');
+  
+  let html = '<div class="feed-preview">';
+  if (preview.ok) {
+    html += '<div class="feed-name">' + escapeHtml(preview.title || preview.url) + '</div>' +
+      '<div class="preview-meta">' + escapeHtml(preview.format.toUpperCase()) + ' · ' + preview.itemCount + ' items</div>' +
+      preview.items.map(function(item) {
+        return '<div class="preview-item">' + escapeHtml(item.title || '(untitled)') + formatDate(item.pubDate) + '</div>';
+      }).join('');
+  }
+  html += messages +
+    '<div class="feed-actions" style="margin-top: 10px;">' +
+      (preview.ok ? '<button class="feed-btn" id="subscribeBtn">Subscribe</button>' : '') +
+      '<button class="feed-btn delete" id="cancelPreviewBtn">Cancel</button>' +
+    '</div>' +
+  '</div>';
+  container.innerHTML = html;
+  
+  if (preview.ok) {
+    document.getElementById('subscribeBtn').addEventListener('click', function() { saveFeed(preview.url); });
+  }
+  document.getElementById('cancelPreviewBtn').addEventListener('click', function() { container.innerHTML = ''; });
+}
+
+async function saveFeed(url) {
+  const name = document.getElementById('newFeedName').value.trim();
+  const category = document.getElementById('newFeedCategory').value;
   
   try {
     const res = await fetch('/api/feeds', {
@@ -520,6 +1787,11 @@ async function addFeed() {
     });
     
     const data = await res.json();
+    // 409: the page offers several feeds, pick one
+    if (res.status === 409 && data.candidates) {
+      showFeedCandidates(data.candidates);
+      return;
+    }
     if (data.error) {
       alert('Error: ' + data.error);
       return;
@@ -527,12 +1799,71 @@ async function addFeed() {
     
     document.getElementById('newFeedUrl').value = '';
     document.getElementById('newFeedName').value = '';
+    document.getElementById('feedPreview').innerHTML = '';
     loadUserFeeds();
   } catch (e) {
     alert('Failed to add feed');
   }
 }
 
+// Several feeds found on the page: let the user pick one to preview
+function showFeedCandidates(feeds) {
+  const container = document.getElementById('feedPreview');
+  container.innerHTML = '<p style="color: #888; font-size: 0.85em; margin-top: 10px;">This site has several feeds. Pick one:</p>' +
+    feeds.map(function(feed, i) {
+      return '<div class="feed-item">' +
+        '<div class="feed-info">' +
+          '<span class="feed-name">' + escapeHtml(feed.title || feed.url) + '</span>' +
+          '<span class="feed-category">' + escapeHtml(feed.format) + ' · ' + feed.itemCount + ' items</span>' +
+        '</div>' +
+        '<div class="feed-actions">' +
+          '<button class="feed-btn" data-index="' + i + '">Preview</button>' +
+        '</div>' +
+      '</div>';
+    }).join('');
+  
+  container.querySelectorAll('button[data-index]').forEach(function(button) {
+    button.addEventListener('click', function() {
+      previewFeedUrl(feeds[parseInt(button.dataset.index)].url);
+    });
+  });
+}
+
+// OPML import: preview with a dry run, then confirm
+async function importOpml(input) {
+  const file = input.files[0];
+  input.value = '';
+  if (!file) return;
+  
+  try {
+    const opml = await file.text();
+    const previewRes = await fetch('/api/feeds/opml?dry_run=1', { method: 'POST', body: opml });
+    const preview = await previewRes.json();
+    if (preview.error) {
+      alert('Error: ' + preview.error);
+      return;
+    }
+    
+    let summary = preview.added.length + ' new feed(s) to add';
+    if (preview.duplicates.length) summary += '\n' + preview.duplicates.length + ' duplicate(s) skipped';
+    if (preview.invalid.length) {
+      summary += '\n' + preview.invalid.length + ' invalid entr' + (preview.invalid.length === 1 ? 'y' : 'ies') + ':\n' +
+        preview.invalid.slice(0, 5).map(function(entry) { return '  • ' + entry.text + ' — ' + entry.reason; }).join('\n');
+    }
+    
+    if (!preview.added.length) {
+      alert(summary);
+      return;
+    }
+    if (!confirm(summary + '\n\nImport now?')) return;
+    
+    await fetch('/api/feeds/opml', { method: 'POST', body: opml });
+    loadUserFeeds();
+  } catch (e) {
+    alert('Failed to import OPML');
+  }
+}
+
 async function toggleFeed(feedId, enabled) {
   try {
     await fetch('/api/feeds/' + feedId, {
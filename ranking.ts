@@ -0,0 +1,217 @@
+/**
+ * Idea Tinder - Queue Ranking
+ *
+ * Orders a user's pending queue by how likely they are to save each idea.
+ * A per-user logistic regression over sparse features (source, category,
+ * content type, title/summary terms) is updated with one SGD step on every
+ * swipe, so it learns as the user swipes without batch retraining. The
+ * predicted probability is blended with freshness for the final score.
+ *
+ * Models live in ranking_models / ranking_weights, created by server.ts.
+ * A user without a stored model gets one trained from their swipe history
+ * the first time it's needed. evaluate-ranking.ts replays history offline.
+ */
+
+import type { Database } from "bun:sqlite";
+
+const LEARNING_RATE = 0.1;
+const L2 = 0.001;
+const MAX_TERMS = 30;
+const FRESHNESS_HALF_LIFE_HOURS = 48;
+const FRESHNESS_WEIGHT = 0.25;       // share of the score that comes from recency
+const MIN_SWIPES_FOR_REASONS = 5;
+
+export interface RankableIdea {
+  id: number;
+  title: string;
+  summary: string | null;
+  source: string;
+  category: string | null;
+  content_type: string | null;
+  published_at: string | null;
+  ingested_at: string | null;
+}
+
+export interface RankingModel {
+  bias: number;
+  weights: Map<string, number>;
+  swipes: number;
+}
+
+export interface RankedScore {
+  score: number;        // 0-100
+  interest: number;     // predicted probability of a save, 0-1
+  why: string[];
+}
+
+// =============================================================================
+// FEATURES
+// =============================================================================
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "this", "that", "your", "you", "are", "was", "new", "how", "what",
+  "why", "into", "about", "our", "now", "can", "will", "its", "has", "have", "not", "but", "all", "more",
+  "update", "click", "read", "introducing", "announcing",
+]);
+
+function terms(text: string): string[] {
+  const words = text.toLowerCase().split(/[^a-z0-9+#]+/).filter(word => word.length > 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  return [...new Set(words)].slice(0, MAX_TERMS);
+}
+
+/**
+ * Sparse feature vector for an idea. Term features are scaled down so a long
+ * summary doesn't outvote the source and category.
+ */
+export function ideaFeatures(idea: RankableIdea): Map<string, number> {
+  const features = new Map<string, number>();
+  features.set(`source:${idea.source}`, 1);
+  if (idea.category) features.set(`category:${idea.category}`, 1);
+  features.set(`type:${idea.content_type || "article"}`, 1);
+  // Boilerplate summaries ("New update from X") say nothing about the idea
+  const summary = idea.summary?.startsWith("New update from ") ? "" : idea.summary ?? "";
+  const words = terms(`${idea.title} ${summary}`);
+  const scale = words.length > 0 ? 1 / Math.sqrt(words.length) : 0;
+  for (const word of words) features.set(`term:${word}`, scale);
+  return features;
+}
+
+// =============================================================================
+// MODEL
+// =============================================================================
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+export function newModel(): RankingModel {
+  return { bias: 0, weights: new Map(), swipes: 0 };
+}
+
+export function predict(model: RankingModel, features: Map<string, number>): number {
+  let z = model.bias;
+  for (const [feature, value] of features) z += (model.weights.get(feature) ?? 0) * value;
+  return sigmoid(z);
+}
+
+/**
+ * One SGD step on a single swipe. Returns the features whose weights
+ * changed, so callers can persist just those.
+ */
+export function learn(model: RankingModel, features: Map<string, number>, saved: boolean): string[] {
+  const error = (saved ? 1 : 0) - predict(model, features);
+  model.bias += LEARNING_RATE * error;
+  for (const [feature, value] of features) {
+    const weight = model.weights.get(feature) ?? 0;
+    model.weights.set(feature, weight + LEARNING_RATE * (error * value - L2 * weight));
+  }
+  model.swipes++;
+  return [...features.keys()];
+}
+
+// 0 for ideas with no date, 1 for brand new, halving every FRESHNESS_HALF_LIFE_HOURS
+export function freshness(idea: RankableIdea, now = Date.now()): number {
+  const dated = idea.published_at ?? idea.ingested_at;
+  if (!dated) return 0;
+  const time = new Date(dated.includes("T") ? dated : dated.replace(" ", "T") + "Z").getTime();
+  if (Number.isNaN(time)) return 0;
+  const ageHours = Math.max(0, (now - time) / 3600000);
+  return Math.pow(0.5, ageHours / FRESHNESS_HALF_LIFE_HOURS);
+}
+
+function describe(feature: string): string {
+  const [kind, ...rest] = feature.split(":");
+  const value = rest.join(":");
+  switch (kind) {
+    case "source": return `You often save from ${value}`;
+    case "category": return `You like ${value}`;
+    case "type": return `You like ${value}s`;
+    default: return `Mentions "${value}"`;
+  }
+}
+
+// The features pushing this idea up the most, in words
+export function explain(model: RankingModel, features: Map<string, number>, fresh: number): string[] {
+  const why: string[] = [];
+  if (model.swipes >= MIN_SWIPES_FOR_REASONS) {
+    const contributions = [...features]
+      .map(([feature, value]) => ({ feature, contribution: (model.weights.get(feature) ?? 0) * value }))
+      .filter(entry => entry.contribution > 0.05)
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, 3);
+    why.push(...contributions.map(entry => describe(entry.feature)));
+  }
+  if (fresh > 0.8) why.push("Fresh");
+  if (why.length === 0) {
+    why.push(model.swipes < MIN_SWIPES_FOR_REASONS ? "Keep swiping to personalize your queue" : "Nothing stands out");
+  }
+  return why;
+}
+
+export function scoreIdea(model: RankingModel, idea: RankableIdea, now = Date.now()): RankedScore {
+  const features = ideaFeatures(idea);
+  const interest = predict(model, features);
+  const fresh = freshness(idea, now);
+  return {
+    score: Math.round(100 * ((1 - FRESHNESS_WEIGHT) * interest + FRESHNESS_WEIGHT * fresh)),
+    interest,
+    why: explain(model, features, fresh),
+  };
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+const IDEA_COLUMNS = "i.id, i.title, i.summary, i.source, i.category, i.content_type, i.published_at, i.ingested_at";
+
+// Replay a user's swipes, oldest first, into a fresh model
+function trainFromHistory(db: Database, userId: number): RankingModel {
+  const model = newModel();
+  const swipes = db.query(`
+    SELECT ${IDEA_COLUMNS}, s.direction FROM swipes s JOIN ideas i ON i.id = s.idea_id
+    WHERE s.user_id = ? ORDER BY s.swiped_at, s.id
+  `).all(userId) as (RankableIdea & { direction: string })[];
+  for (const swipe of swipes) learn(model, ideaFeatures(swipe), swipe.direction === "right");
+  return model;
+}
+
+function saveModel(db: Database, userId: number, model: RankingModel, features: Iterable<string>) {
+  const upsert = db.query(`
+    INSERT INTO ranking_weights (user_id, feature, weight) VALUES (?, ?, ?)
+    ON CONFLICT(user_id, feature) DO UPDATE SET weight = excluded.weight
+  `);
+  db.transaction(() => {
+    db.query(`
+      INSERT INTO ranking_models (user_id, bias, swipes, updated_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(user_id) DO UPDATE SET bias = excluded.bias, swipes = excluded.swipes, updated_at = CURRENT_TIMESTAMP
+    `).run(userId, model.bias, model.swipes);
+    for (const feature of features) upsert.run(userId, feature, model.weights.get(feature) ?? 0);
+  })();
+}
+
+export function loadModel(db: Database, userId: number): RankingModel {
+  const row = db.query("SELECT bias, swipes FROM ranking_models WHERE user_id = ?").get(userId) as
+    { bias: number; swipes: number } | null;
+  if (!row) {
+    const model = trainFromHistory(db, userId);
+    saveModel(db, userId, model, model.weights.keys());
+    return model;
+  }
+  const weights = db.query("SELECT feature, weight FROM ranking_weights WHERE user_id = ?").all(userId) as
+    { feature: string; weight: number }[];
+  return { bias: row.bias, swipes: row.swipes, weights: new Map(weights.map(w => [w.feature, w.weight])) };
+}
+
+/**
+ * Learn from one swipe. Undoing a swipe doesn't unlearn it; a single step
+ * moves the weights only a little, and the next swipe corrects it.
+ */
+export function recordSwipe(db: Database, userId: number, ideaId: number, saved: boolean) {
+  const idea = db.query(`SELECT ${IDEA_COLUMNS} FROM ideas i WHERE i.id = ?`).get(ideaId) as RankableIdea | null;
+  if (!idea) return;
+  // A model trained from history just now has already seen this swipe
+  if (!db.query("SELECT 1 FROM ranking_models WHERE user_id = ?").get(userId)) {
+    loadModel(db, userId);
+    return;
+  }
+  const model = loadModel(db, userId);
+  saveModel(db, userId, model, learn(model, ideaFeatures(idea), saved));
+}
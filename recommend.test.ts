@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { injectRecommendations, recommendForUser, removeRecommendations } from "./recommend";
+
+// The tables recommendations read and write, as server.ts creates them
+const SCHEMA = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, preferences JSON DEFAULT '{}');
+  CREATE TABLE ideas (
+    id INTEGER PRIMARY KEY, title TEXT NOT NULL, source TEXT NOT NULL, summary TEXT NOT NULL, url TEXT,
+    content_type TEXT DEFAULT 'article', ingested_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE swipes (user_id INTEGER, idea_id INTEGER, direction TEXT, UNIQUE(user_id, idea_id));
+  CREATE TABLE user_pending (
+    user_id INTEGER, idea_id INTEGER, recommended_score REAL, recommended_reason TEXT,
+    filter_action TEXT, filter_rule_id INTEGER, UNIQUE(user_id, idea_id)
+  );
+  CREATE TABLE filter_rules (id INTEGER PRIMARY KEY, user_id INTEGER, action TEXT, kind TEXT, pattern TEXT);
+`;
+
+let db: Database;
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  db.exec(SCHEMA);
+  for (const id of [1, 2, 3]) db.query("INSERT INTO users (id, email, preferences) VALUES (?, ?, ?)").run(id, `u${id}@example.com`, '{"recommendations": 1}');
+  const ideas: [number, string, string][] = [[1, "SQLite tips", "Blog"], [2, "WAL explained", "Blog"], [3, "Ten crypto coins", "Spam"]];
+  for (const [id, title, source] of ideas) {
+    db.query("INSERT INTO ideas (id, title, source, summary, url) VALUES (?, ?, ?, '', ?)").run(id, title, source, `https://example.com/${id}`);
+  }
+  // Users 2 and 3 saved everything; user 1 saved only the first idea
+  const save = db.query("INSERT INTO swipes (user_id, idea_id, direction) VALUES (?, ?, 'right')");
+  for (const idea of [1, 2, 3]) for (const user of [2, 3]) save.run(user, idea);
+  save.run(1, 1);
+});
+
+describe("recommendForUser", () => {
+  test("recommends what similar savers saved, with a reason", () => {
+    const recommendations = recommendForUser(db, 1);
+    expect(recommendations.map(rec => rec.ideaId).sort()).toEqual([2, 3]);
+    expect(recommendations[0]!.reason).toBe('Saved by 2 people who also saved "SQLite tips"');
+  });
+
+  test("returns nothing for users who haven't opted in", () => {
+    db.query("UPDATE users SET preferences = '{}' WHERE id = 1").run();
+    expect(recommendForUser(db, 1)).toEqual([]);
+  });
+});
+
+describe("injectRecommendations", () => {
+  test("applies the user's filter rules to recommended items", () => {
+    db.query("INSERT INTO filter_rules (id, user_id, action, kind, pattern) VALUES (7, 1, 'mute', 'source', 'spam')").run();
+    injectRecommendations(db);
+    const queued = db.query("SELECT idea_id, filter_action, filter_rule_id FROM user_pending WHERE user_id = 1 ORDER BY idea_id").all();
+    expect(queued).toEqual([
+      { idea_id: 2, filter_action: null, filter_rule_id: null },
+      { idea_id: 3, filter_action: "mute", filter_rule_id: 7 },
+    ]);
+  });
+
+  test("recommendations can be taken back", () => {
+    injectRecommendations(db);
+    expect(removeRecommendations(db, 1)).toBe(2);
+    expect(recommendForUser(db, 1)).toHaveLength(2);
+  });
+});
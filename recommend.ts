@@ -0,0 +1,131 @@
+/**
+ * Idea Tinder - Collaborative Recommendations
+ *
+ * "People who saved this also saved": item-to-item collaborative filtering
+ * over saves (right swipes). Two ideas are similar when the same people
+ * saved both; an idea is recommended to a user when it's similar to what
+ * they've saved and comes from outside their own queue.
+ *
+ * Strictly opt-in, both ways: only users with preferences.recommendations
+ * set get recommendations, and only their saves are used as signal.
+ * Recommended items go into user_pending with recommended_score and
+ * recommended_reason set, which the client shows as a badge. The user's
+ * filter rules apply to them like to any other queued item.
+ */
+
+import type { Database } from "bun:sqlite";
+import { loadFilters, type FilterableIdea } from "./filters";
+
+const RECOMMENDATIONS_PER_RUN = 5;
+const MIN_SUPPORTERS = 2;          // other users who saved the candidate
+const MIN_SCORE = 0.1;
+const MAX_AGE_DAYS = 30;
+
+export interface Recommendation {
+  ideaId: number;
+  score: number;
+  reason: string;
+}
+
+// SQL condition for "this user opted in"; expects the users table as u
+export const OPTED_IN_SQL = "json_extract(u.preferences, '$.recommendations') = 1";
+
+/**
+ * Pick ideas for one user from other opted-in users' saves. Returns nothing
+ * if the user hasn't opted in themselves.
+ */
+export function recommendForUser(db: Database, userId: number, limit = RECOMMENDATIONS_PER_RUN): Recommendation[] {
+  const optedIn = db.query(`SELECT 1 FROM users u WHERE u.id = ? AND ${OPTED_IN_SQL}`).get(userId);
+  if (!optedIn) return [];
+
+  const saves = db.query(`
+    SELECT s.user_id, s.idea_id FROM swipes s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.direction = 'right' AND ${OPTED_IN_SQL}
+  `).all() as { user_id: number; idea_id: number }[];
+
+  const savers = new Map<number, Set<number>>();   // idea -> users who saved it
+  const mine = new Set<number>();
+  for (const save of saves) {
+    if (!savers.has(save.idea_id)) savers.set(save.idea_id, new Set());
+    savers.get(save.idea_id)!.add(save.user_id);
+    if (save.user_id === userId) mine.add(save.idea_id);
+  }
+  if (mine.size === 0) return [];
+
+  // Anything already in the queue or swiped either way is off the table
+  const seen = new Set((db.query(`
+    SELECT idea_id FROM user_pending WHERE user_id = ?1 UNION SELECT idea_id FROM swipes WHERE user_id = ?1
+  `).all(userId) as { idea_id: number }[]).map(row => row.idea_id));
+  const recent = new Set((db.query(`
+    SELECT id FROM ideas WHERE ingested_at >= datetime('now', ?)
+  `).all(`-${MAX_AGE_DAYS} days`) as { id: number }[]).map(row => row.id));
+
+  const candidates: (Recommendation & { supporters: number })[] = [];
+  for (const [ideaId, users] of savers) {
+    if (seen.has(ideaId) || !recent.has(ideaId) || users.size < MIN_SUPPORTERS) continue;
+
+    // Cosine similarity of save vectors, summed over this user's saves
+    let score = 0;
+    let best = { ideaId: 0, similarity: 0, shared: 0 };
+    for (const savedId of mine) {
+      const savedBy = savers.get(savedId)!;
+      let shared = 0;
+      for (const user of users) if (savedBy.has(user)) shared++;
+      if (shared === 0) continue;
+      const similarity = shared / Math.sqrt(users.size * savedBy.size);
+      score += similarity;
+      if (similarity > best.similarity) best = { ideaId: savedId, similarity, shared };
+    }
+    if (score < MIN_SCORE) continue;
+
+    const because = db.query("SELECT title FROM ideas WHERE id = ?").get(best.ideaId) as { title: string } | null;
+    candidates.push({
+      ideaId,
+      score: Math.round(score * 100) / 100,
+      supporters: users.size,
+      reason: `Saved by ${best.shared === 1 ? "someone" : `${best.shared} people`} who also saved "${because?.title ?? "an idea you saved"}"`,
+    });
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || b.supporters - a.supporters)
+    .slice(0, limit)
+    .map(({ ideaId, score, reason }) => ({ ideaId, score, reason }));
+}
+
+/**
+ * Add recommendations to every opted-in user's queue. Returns how many
+ * items were injected in total.
+ */
+export function injectRecommendations(db: Database): number {
+  const users = db.query(`SELECT u.id FROM users u WHERE ${OPTED_IN_SQL}`).all() as { id: number }[];
+  const insert = db.query(`
+    INSERT OR IGNORE INTO user_pending (user_id, idea_id, recommended_score, recommended_reason, filter_action, filter_rule_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const ideaQuery = db.query("SELECT title, summary, source, url, content_type FROM ideas WHERE id = ?");
+  let injected = 0;
+  for (const user of users) {
+    const recommendations = recommendForUser(db, user.id);
+    if (recommendations.length === 0) continue;
+    const filters = loadFilters(db, user.id);
+    db.transaction(() => {
+      for (const rec of recommendations) {
+        const idea = ideaQuery.get(rec.ideaId) as FilterableIdea | null;
+        const rule = idea ? filters.match(idea) : null;
+        injected += insert.run(user.id, rec.ideaId, rec.score, rec.reason, rule?.action ?? null, rule?.id ?? null).changes;
+      }
+    })();
+  }
+  return injected;
+}
+
+// Take back recommendations a user hasn't swiped yet, e.g. after opting out
+export function removeRecommendations(db: Database, userId: number): number {
+  return db.query(`
+    DELETE FROM user_pending
+    WHERE user_id = ? AND recommended_score IS NOT NULL
+    AND idea_id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?)
+  `).run(userId, userId).changes;
+}
@@ -0,0 +1,143 @@
+/**
+ * Idea Tinder - Full-Text Search
+ *
+ * SQLite FTS5 over ideas, hot takes and notes. Three indexes, created by
+ * server.ts and kept in sync by triggers:
+ *
+ *   ideas_fts   rowid = ideas.id: title, summary (plus generated summary),
+ *               extracted article text
+ *   swipes_fts  rowid = swipes.id: the user's hot take
+ *   notes_fts   rowid = idea_notes.id: the user's notes and highlights
+ *
+ * A search only ever covers ideas in the user's own queue or history.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const SEARCH_DIRECTIONS = ["all", "right", "left", "pending"] as const;
+export type SearchDirection = typeof SEARCH_DIRECTIONS[number];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const SNIPPET_TOKENS = 16;
+// Snippet highlight markers; control characters can't appear in indexed text
+// unescaped, so the client can HTML-escape first and then swap these in
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export interface SearchOptions {
+  query: string;
+  direction?: SearchDirection;
+  category?: string | null;
+  source?: string | null;
+  from?: string | null;        // YYYY-MM-DD, on the idea's publish (or ingest) date
+  to?: string | null;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResult {
+  id: number;
+  title: string;
+  source: string;
+  summary: string | null;
+  url: string | null;
+  category: string | null;
+  content_type: string | null;
+  published_at: string | null;
+  direction: "right" | "left" | null;
+  feedback: string | null;
+  swiped_at: string | null;
+  snippet: string;
+  rank: number;
+}
+
+// =============================================================================
+// QUERY
+// =============================================================================
+
+/**
+ * Turn what the user typed into an FTS5 query: every word must appear,
+ * "quoted phrases" stay phrases, and the last word matches as a prefix so
+ * results update while typing. FTS syntax characters are never passed
+ * through. Returns null when there's nothing to search for.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const parts: string[] = [];
+  for (const match of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const words = (match[1] ?? match[2] ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    if (!words) continue;
+    parts.push(match[1] !== undefined ? `"${words.join(" ")}"` : words.map(word => `"${word}"`).join(" "));
+  }
+  if (parts.length === 0) return null;
+  const last = parts.length - 1;
+  if (!input.trimEnd().endsWith('"')) parts[last] = `${parts[last]}*`;
+  return parts.join(" ");
+}
+
+/**
+ * Search one user's ideas. Title matches outweigh summary and article text,
+ * and hot take and note matches are weighted double: the user's own words
+ * are the best signal of what they meant. An idea matching in several places is
+ * ranked (and snippeted) by its best match.
+ */
+export function searchIdeas(db: Database, userId: number, options: SearchOptions): { results: SearchResult[]; total: number } {
+  const match = buildFtsQuery(options.query);
+  if (!match) return { results: [], total: 0 };
+
+  const direction = options.direction ?? "all";
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const snippetArgs = `'${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', ${SNIPPET_TOKENS}`;
+
+  const from = `
+    WITH hits AS (
+      SELECT rowid as idea_id, bm25(ideas_fts, 10.0, 4.0, 1.0) as rank,
+             snippet(ideas_fts, -1, ${snippetArgs}) as snippet
+      FROM ideas_fts WHERE ideas_fts MATCH $match
+      UNION ALL
+      SELECT s.idea_id, 2 * bm25(swipes_fts) as rank, snippet(swipes_fts, 0, ${snippetArgs}) as snippet
+      FROM swipes_fts JOIN swipes s ON s.id = swipes_fts.rowid
+      WHERE swipes_fts MATCH $match AND s.user_id = $user
+      UNION ALL
+      SELECT n.idea_id, 2 * bm25(notes_fts) as rank, snippet(notes_fts, -1, ${snippetArgs}) as snippet
+      FROM notes_fts JOIN idea_notes n ON n.id = notes_fts.rowid
+      WHERE notes_fts MATCH $match AND n.user_id = $user
+    ),
+    best AS (
+      SELECT idea_id, rank, snippet,
+             ROW_NUMBER() OVER (PARTITION BY idea_id ORDER BY rank) as n
+      FROM hits
+    )
+    FROM best
+    JOIN ideas i ON i.id = best.idea_id AND best.n = 1
+    LEFT JOIN swipes s ON s.idea_id = i.id AND s.user_id = $user
+    WHERE (s.id IS NOT NULL OR EXISTS (SELECT 1 FROM user_pending up WHERE up.user_id = $user AND up.idea_id = i.id))
+    AND ($direction = 'all' OR s.direction = $direction OR ($direction = 'pending' AND s.id IS NULL))
+    AND ($category IS NULL OR i.category = $category)
+    AND ($source IS NULL OR i.source = $source)
+    AND ($from IS NULL OR date(COALESCE(i.published_at, i.ingested_at)) >= date($from))
+    AND ($to IS NULL OR date(COALESCE(i.published_at, i.ingested_at)) <= date($to))
+  `;
+  const params = {
+    $match: match,
+    $user: userId,
+    $direction: direction,
+    $category: options.category || null,
+    $source: options.source || null,
+    $from: options.from || null,
+    $to: options.to || null,
+  };
+
+  const total = (db.query(`${from.replace("FROM best", "SELECT COUNT(*) as count FROM best")}`).get(params) as { count: number }).count;
+  const results = db.query(`
+    ${from.replace("FROM best", `
+      SELECT i.id, i.title, i.source, i.summary, i.url, i.category, i.content_type, i.published_at,
+             s.direction, s.feedback, s.swiped_at, best.snippet, best.rank
+      FROM best`)}
+    ORDER BY best.rank
+    LIMIT $limit OFFSET $offset
+  `).all({ ...params, $limit: limit, $offset: offset }) as SearchResult[];
+
+  return { results, total };
+}
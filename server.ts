@@ -1,7 +1,32 @@
 import { Database } from "bun:sqlite";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
-import { seedDefaultFeeds, ingestForUser } from "./ingest";
+import { seedDefaultFeeds, ingestForUser, extractIdeaContent, BACKFILL_MODES, type IdeaContent } from "./ingest";
+import { canonicalizeUrl } from "./dedupe";
+import { discoverFeeds, previewFeed, FeedDiscoveryError } from "./feed-discovery";
+import { buildOpml, parseOpml, OpmlParseError, type OpmlFeed } from "./opml";
+import { buildSourceUrl, checkSource, isSourceType, SourceConfigError } from "./sources";
+import { loadModel, recordSwipe, scoreIdea } from "./ranking";
+import { removeRecommendations } from "./recommend";
+import { validateFilterRule, applyFiltersToQueue, filterLabel, FilterRuleError, FILTER_BOOST_POINTS, type FilterKind } from "./filters";
+import { getTagRules, setTagRules, seedDefaultTagRules, tagIdeasForUser, setManualTags, parseTagRules, formatTagRules } from "./tagging";
+import {
+  listCollections, getCollection, createCollection, updateCollection, deleteCollection, reorderCollections,
+  addItem, updateItem, removeItem, reorderItems, collectionOutline, findCollection, CollectionError,
+} from "./collections";
+import { loadExportIdeas, renderExport, EXPORT_FORMATS, type ExportFormat } from "./liked-export";
+import { listNotes, notesByIdea, addNote, updateNote, deleteNote, NoteError } from "./notes";
+import { getSwipeState, logSwipeAction, undoActions, redoActions, listActions } from "./swipe-log";
+import { searchIdeas, SEARCH_DIRECTIONS, type SearchDirection } from "./search";
+import {
+  listDigests, getDigest, createDigest, regenerateDigest, updateDigest, deleteDigest, renderDigest,
+  getTemplate, setTemplate, DIGEST_FORMATS, DigestError, type DigestFormat,
+} from "./digest";
+import {
+  emailDigestSettings, updateEmailDigestSettings, verifyEmailAction, getLinkSecret, unsubscribe, sendTestDigest,
+  DEFAULT_EMAIL_DIGEST, EmailDigestError, type EmailDigestSettings,
+} from "./email-digest";
+import { getMailTransport } from "./mail";
 
 const db = new Database("/home/eli/idea-tinder/ideas.db");
 
@@ -82,10 +107,18 @@ db.exec(`
     url TEXT NOT NULL,
     name TEXT NOT NULL,
     category TEXT DEFAULT 'custom',
+    type TEXT DEFAULT 'rss',
     enabled BOOLEAN DEFAULT 1,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     last_fetched DATETIME,
     last_error TEXT,
+    lookback_hours INTEGER DEFAULT 24,
+    max_items INTEGER DEFAULT 10,
+    backfill_mode TEXT DEFAULT 'latest',
+    first_ingested_at DATETIME,
+    disabled_reason TEXT,
+    disabled_at DATETIME,
+    disabled_notified BOOLEAN DEFAULT 0,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     UNIQUE(user_id, url)
   );
@@ -97,6 +130,11 @@ db.exec(`
     user_id INTEGER NOT NULL,
     idea_id INTEGER NOT NULL,
     added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    tagged_at DATETIME,
+    recommended_score REAL,
+    recommended_reason TEXT,
+    filter_action TEXT,             -- mute, boost, allowed (unmuted by hand)
+    filter_rule_id INTEGER,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
     UNIQUE(user_id, idea_id)
@@ -121,6 +159,388 @@ try {
   // Column already exists
 }
 
+// Migration: Add published_at column to ideas table
+try {
+  db.exec("ALTER TABLE ideas ADD COLUMN published_at DATETIME");
+  console.log("Added published_at column to ideas table");
+} catch {
+  // Column already exists
+}
+
+// Migration: Add canonical_url column to ideas table (for duplicate detection)
+try {
+  db.exec("ALTER TABLE ideas ADD COLUMN canonical_url TEXT");
+  const rows = db.query("SELECT id, url FROM ideas WHERE url IS NOT NULL").all() as { id: number; url: string }[];
+  const update = db.query("UPDATE ideas SET canonical_url = ? WHERE id = ?");
+  db.transaction(() => {
+    for (const row of rows) update.run(canonicalizeUrl(row.url), row.id);
+  })();
+  console.log(`Added canonical_url column to ideas table (${rows.length} backfilled)`);
+} catch {
+  // Column already exists
+}
+db.exec("CREATE INDEX IF NOT EXISTS idx_ideas_canonical_url ON ideas(canonical_url)");
+
+// Migration: Open Graph / oEmbed enrichment on ideas
+for (const column of [
+  "image_url TEXT",
+  "site_name TEXT",
+  "favicon_url TEXT",
+  "duration_seconds INTEGER",
+]) {
+  try {
+    db.exec(`ALTER TABLE ideas ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to ideas table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Migration: Generated summaries, kept next to the feed's own summary
+for (const column of [
+  "generated_summary TEXT",
+  "summary_backend TEXT",
+  "summarized_at DATETIME",
+]) {
+  try {
+    db.exec(`ALTER TABLE ideas ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to ideas table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Migration: Add per-feed ingestion window settings to user_feeds
+for (const column of [
+  "lookback_hours INTEGER DEFAULT 24",
+  "max_items INTEGER DEFAULT 10",
+  "backfill_mode TEXT DEFAULT 'latest'",
+]) {
+  try {
+    db.exec(`ALTER TABLE user_feeds ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to user_feeds table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Migration: Track first successful ingest so only truly new feeds get backfilled
+try {
+  db.exec("ALTER TABLE user_feeds ADD COLUMN first_ingested_at DATETIME");
+  db.exec("UPDATE user_feeds SET first_ingested_at = last_fetched WHERE last_fetched IS NOT NULL");
+  console.log("Added first_ingested_at column to user_feeds table");
+} catch {
+  // Column already exists
+}
+
+// Migration: Record why a feed was auto-disabled and whether the user has seen it
+for (const column of [
+  "disabled_reason TEXT",
+  "disabled_at DATETIME",
+  "disabled_notified BOOLEAN DEFAULT 0",
+]) {
+  try {
+    db.exec(`ALTER TABLE user_feeds ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to user_feeds table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Migration: Source type (rss, github, youtube, arxiv, hn) for user_feeds
+try {
+  db.exec("ALTER TABLE user_feeds ADD COLUMN type TEXT DEFAULT 'rss'");
+  console.log("Added type column to user_feeds table");
+} catch {
+  // Column already exists
+}
+
+// Migration: Track which queued ideas have been through topic tagging
+try {
+  db.exec("ALTER TABLE user_pending ADD COLUMN tagged_at DATETIME");
+  console.log("Added tagged_at column to user_pending table");
+} catch {
+  // Column already exists
+}
+
+// Migration: Mark queue items injected by collaborative recommendations
+for (const column of [
+  "recommended_score REAL",
+  "recommended_reason TEXT",
+]) {
+  try {
+    db.exec(`ALTER TABLE user_pending ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to user_pending table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Migration: Outcome of the user's mute/boost filters on each queue item
+for (const column of [
+  "filter_action TEXT",
+  "filter_rule_id INTEGER",
+]) {
+  try {
+    db.exec(`ALTER TABLE user_pending ADD COLUMN ${column}`);
+    console.log(`Added ${column.split(" ")[0]} column to user_pending table`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Mute/boost rules (see filters.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS filter_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    action TEXT NOT NULL,           -- mute, boost
+    kind TEXT NOT NULL,             -- keyword, regex, source, domain, content_type
+    pattern TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE(user_id, action, kind, pattern)
+  );
+`);
+
+// Topic tags (see tagging.ts). Existing users get the default rules the
+// first time the table is created; new users get them at sign-up.
+const hasTagRules = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'tag_rules'").get();
+db.exec(`
+  CREATE TABLE IF NOT EXISTS tag_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    tag TEXT NOT NULL,
+    keywords JSON NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE(user_id, tag)
+  );
+
+  CREATE TABLE IF NOT EXISTS idea_tags (
+    user_id INTEGER NOT NULL,
+    idea_id INTEGER NOT NULL,
+    tag TEXT NOT NULL,
+    source TEXT NOT NULL,           -- rule, classifier, manual
+    score REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, idea_id, tag),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_idea_tags_tag ON idea_tags(user_id, tag);
+`);
+if (!hasTagRules) {
+  const users = db.query("SELECT id FROM users").all() as { id: number }[];
+  for (const { id } of users) seedDefaultTagRules(db, id);
+  console.log(`Seeded default tag rules for ${users.length} users`);
+}
+
+// Per-user queue ranking models (see ranking.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS ranking_models (
+    user_id INTEGER PRIMARY KEY,
+    bias REAL NOT NULL DEFAULT 0,
+    swipes INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS ranking_weights (
+    user_id INTEGER NOT NULL,
+    feature TEXT NOT NULL,
+    weight REAL NOT NULL,
+    PRIMARY KEY (user_id, feature),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+`);
+
+// Collections of saved ideas (see collections.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS collections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_collections_user ON collections(user_id, position);
+
+  CREATE TABLE IF NOT EXISTS collection_items (
+    collection_id INTEGER NOT NULL,
+    idea_id INTEGER NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    note TEXT,
+    status TEXT NOT NULL DEFAULT 'idea',   -- idea, drafting, published
+    added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (collection_id, idea_id),
+    FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_collection_items_idea ON collection_items(idea_id);
+`);
+
+// Notes and highlights on saved ideas (see notes.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS idea_notes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    idea_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,             -- note, highlight
+    body TEXT,                      -- Markdown
+    quote TEXT,                     -- highlighted article text
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_idea_notes_user ON idea_notes(user_id, idea_id);
+`);
+
+// Undo/redo log of swipe changes (see swipe-log.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS swipe_actions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    idea_id INTEGER NOT NULL,
+    action TEXT NOT NULL,           -- swipe, feedback, unswipe
+    before_direction TEXT,          -- NULL: not swiped
+    before_feedback TEXT,
+    after_direction TEXT,
+    after_feedback TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    undone_at DATETIME,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_swipe_actions_user ON swipe_actions(user_id, id);
+`);
+
+// Digest drafts and their versions, plus each user's template (see digest.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS digest_templates (
+    user_id INTEGER PRIMARY KEY,
+    template TEXT NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS digests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_digests_user ON digests(user_id, updated_at);
+
+  CREATE TABLE IF NOT EXISTS digest_versions (
+    digest_id INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    source TEXT NOT NULL,           -- generated, edited
+    period_from TEXT NOT NULL,      -- YYYY-MM-DD
+    period_to TEXT NOT NULL,
+    group_by TEXT NOT NULL,         -- category, tag
+    idea_count INTEGER NOT NULL DEFAULT 0,
+    markdown TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (digest_id, version),
+    FOREIGN KEY (digest_id) REFERENCES digests(id) ON DELETE CASCADE
+  );
+`);
+
+// Email digests: what was sent, and the key that signs their links (see email-digest.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS email_digest_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,             -- scheduled, test
+    status TEXT NOT NULL,           -- sent, failed
+    idea_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    sent_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_email_digest_log_user ON email_digest_log(user_id, sent_at);
+
+  CREATE TABLE IF NOT EXISTS app_secrets (
+    name TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Full-text search (see search.ts). ideas_fts shares rowids with ideas,
+// swipes_fts with swipes and notes_fts with idea_notes; triggers keep them
+// current. Existing rows are indexed the first time the tables are created.
+const hasSearchIndex = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'ideas_fts'").get();
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS ideas_fts USING fts5(title, summary, content, tokenize = 'porter unicode61');
+  CREATE VIRTUAL TABLE IF NOT EXISTS swipes_fts USING fts5(feedback, tokenize = 'porter unicode61');
+  CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(body, quote, tokenize = 'porter unicode61');
+
+  CREATE TRIGGER IF NOT EXISTS ideas_fts_insert AFTER INSERT ON ideas BEGIN
+    INSERT INTO ideas_fts (rowid, title, summary, content)
+    VALUES (new.id, new.title, TRIM(COALESCE(new.summary, '') || ' ' || COALESCE(new.generated_summary, '')),
+            (SELECT text_content FROM idea_content WHERE idea_id = new.id));
+  END;
+  CREATE TRIGGER IF NOT EXISTS ideas_fts_update AFTER UPDATE OF title, summary, generated_summary ON ideas BEGIN
+    UPDATE ideas_fts SET title = new.title,
+      summary = TRIM(COALESCE(new.summary, '') || ' ' || COALESCE(new.generated_summary, ''))
+    WHERE rowid = new.id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS ideas_fts_delete AFTER DELETE ON ideas BEGIN
+    DELETE FROM ideas_fts WHERE rowid = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS idea_content_fts_insert AFTER INSERT ON idea_content BEGIN
+    UPDATE ideas_fts SET content = new.text_content WHERE rowid = new.idea_id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS idea_content_fts_update AFTER UPDATE OF text_content ON idea_content BEGIN
+    UPDATE ideas_fts SET content = new.text_content WHERE rowid = new.idea_id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS idea_content_fts_delete AFTER DELETE ON idea_content BEGIN
+    UPDATE ideas_fts SET content = NULL WHERE rowid = old.idea_id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS swipes_fts_insert AFTER INSERT ON swipes WHEN new.feedback IS NOT NULL BEGIN
+    INSERT INTO swipes_fts (rowid, feedback) VALUES (new.id, new.feedback);
+  END;
+  CREATE TRIGGER IF NOT EXISTS swipes_fts_update AFTER UPDATE OF feedback ON swipes BEGIN
+    DELETE FROM swipes_fts WHERE rowid = old.id;
+    INSERT INTO swipes_fts (rowid, feedback) SELECT new.id, new.feedback WHERE new.feedback IS NOT NULL;
+  END;
+  CREATE TRIGGER IF NOT EXISTS swipes_fts_delete AFTER DELETE ON swipes BEGIN
+    DELETE FROM swipes_fts WHERE rowid = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS notes_fts_insert AFTER INSERT ON idea_notes BEGIN
+    INSERT INTO notes_fts (rowid, body, quote) VALUES (new.id, new.body, new.quote);
+  END;
+  CREATE TRIGGER IF NOT EXISTS notes_fts_update AFTER UPDATE OF body, quote ON idea_notes BEGIN
+    UPDATE notes_fts SET body = new.body, quote = new.quote WHERE rowid = new.id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON idea_notes BEGIN
+    DELETE FROM notes_fts WHERE rowid = old.id;
+  END;
+`);
+if (!hasSearchIndex) {
+  db.transaction(() => {
+    db.exec(`
+      INSERT INTO ideas_fts (rowid, title, summary, content)
+      SELECT i.id, i.title, TRIM(COALESCE(i.summary, '') || ' ' || COALESCE(i.generated_summary, '')), c.text_content
+      FROM ideas i LEFT JOIN idea_content c ON c.idea_id = i.id;
+      INSERT INTO swipes_fts (rowid, feedback) SELECT id, feedback FROM swipes WHERE feedback IS NOT NULL;
+    `);
+  })();
+  console.log("Built full-text search index");
+}
+
 // Migrate old swipe data from ideas table to swipes table (one-time migration)
 // Check if there's old-style data and migrate it
 try {
@@ -138,11 +558,18 @@ try {
 const PORT = 3001;
 const PUBLIC_DIR = "/home/eli/idea-tinder/public";
 const SESSION_DURATION_DAYS = 30;
+const MAX_LOOKBACK_HOURS = 24 * 90;
+const MAX_ITEMS_PER_FETCH = 100;
+const FEED_HEALTH_WINDOW_DAYS = 30;
+const FEED_HEALTH_HISTORY = 20;
+const CONTENT_RETRY_MINUTES = 60;
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || "";
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || "";
 // Will need to be updated once domain is set up
 const BASE_URL = process.env.BASE_URL || "https://idea-tinder.eli-inside.ai";
 const GOOGLE_REDIRECT_URI = `${BASE_URL}/auth/google/callback`;
+// Only the test-send button uses this; scheduled digests go out from email-digest.ts
+const mailTransport = getMailTransport();
 
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html',
@@ -174,7 +601,17 @@ interface Idea {
   source: string;
   summary: string;
   url: string | null;
+  canonical_url: string | null;
   category: string | null;
+  content_type: string | null;
+  published_at: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  favicon_url: string | null;
+  duration_seconds: number | null;
+  generated_summary: string | null;
+  summary_backend: string | null;
+  summarized_at: string | null;
   source_feed: string | null;
   ingested_at: string;
   created_at: string;
@@ -283,9 +720,107 @@ function htmlResponse(html: string, status = 200, headers: Record<string, string
   });
 }
 
+interface Preferences {
+  recommendations: boolean;   // opt in to collaborative recommendations, as recipient and signal
+  emailDigest: EmailDigestSettings;   // opt in to emails of new queue items (see email-digest.ts)
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  recommendations: false,
+  emailDigest: DEFAULT_EMAIL_DIGEST,
+};
+
+function parsePreferences(json: string | null): Partial<Preferences> {
+  try {
+    return JSON.parse(json || "{}") as Partial<Preferences>;
+  } catch {
+    return {};
+  }
+}
+
+// A user's tags on idea i, as JSON; bind the user id as ?1
+const IDEA_TAGS_SQL = `(SELECT json_group_array(json_object('tag', t.tag, 'source', t.source))
+   FROM idea_tags t WHERE t.user_id = ?1 AND t.idea_id = i.id)`;
+
+function parseIdeaTags(json: string | null): { tag: string; source: string }[] {
+  return json ? JSON.parse(json) as { tag: string; source: string }[] : [];
+}
+
+const SWIPE_DIRECTIONS = ["right", "left"];
+
+/**
+ * Record a swipe or change an existing one, and log it for undo. Re-posting
+ * the same direction (to save a hot take) still counts; the ranking model
+ * only learns from new decisions.
+ */
+function saveSwipe(userId: number, ideaId: number, direction: string, feedback: string | null) {
+  const previous = getSwipeState(db, userId, ideaId);
+  db.query(`
+    INSERT INTO swipes (user_id, idea_id, direction, feedback)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(user_id, idea_id) DO UPDATE SET direction = ?, feedback = ?, swiped_at = CURRENT_TIMESTAMP
+  `).run(userId, ideaId, direction, feedback, direction, feedback);
+  logSwipeAction(db, userId, ideaId, previous, { direction, feedback });
+  if (previous.direction !== direction) {
+    recordSwipe(db, userId, ideaId, direction === "right");
+  }
+}
+
+// Swipe history filters, shared by listing and bulk unswipe. Expects swipes
+// as s and ideas as i; bind with historyFilterParams.
+const HISTORY_FILTER_SQL = `s.user_id = ?1
+  AND (?2 IS NULL OR s.direction = ?2)
+  AND (?3 IS NULL OR i.source = ?3)
+  AND (?4 IS NULL OR i.category = ?4)
+  AND (?5 IS NULL OR date(s.swiped_at) >= date(?5))
+  AND (?6 IS NULL OR date(s.swiped_at) <= date(?6))`;
+
+function historyFilterParams(userId: number, filter: Record<string, unknown>): (string | number | null)[] | { error: string } {
+  const value = (key: string) => typeof filter[key] === "string" && filter[key] ? filter[key] as string : null;
+  const direction = value("direction");
+  if (direction && !SWIPE_DIRECTIONS.includes(direction)) return { error: "direction must be right or left" };
+  for (const key of ["from", "to"]) {
+    const date = value(key);
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return { error: "Dates must be YYYY-MM-DD" };
+  }
+  return [userId, direction, value("source"), value("category"), value("from"), value("to")];
+}
+
 // =============================================================================
 // LEGAL PAGES
 // =============================================================================
+
+// Result page for a save/dismiss/unsubscribe link in a digest email. With a
+// form, the page posts it straight away (the button is the no-script fallback).
+function emailActionPage(title: string, message: string, form?: { token: string; label: string }): string {
+  const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escape(title)} - Idea Tinder</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); min-height: 100vh; margin: 0; color: #fff; display: flex; align-items: center; justify-content: center; }
+    .box { max-width: 400px; margin: 20px; padding: 40px 30px; background: linear-gradient(145deg, #2d2d44 0%, #1f1f35 100%); border-radius: 20px; text-align: center; }
+    h1 { color: #4ecdc4; font-size: 1.5em; }
+    p { color: #ccc; line-height: 1.5; }
+    button { padding: 12px 30px; background: #4ecdc4; border: none; border-radius: 10px; color: #fff; font-size: 1em; font-weight: 600; cursor: pointer; }
+    a { color: #4ecdc4; }
+  </style>
+</head>
+<body>
+  <div class="box">
+    <h1>${escape(title)}</h1>
+    <p>${escape(message)}</p>
+    ${form
+      ? `<form method="POST" action="/email/action?token=${encodeURIComponent(form.token)}"><button type="submit">${escape(form.label)}</button></form>
+    <script>document.forms[0].submit();</script>`
+      : `<p><a href="/">Open Idea Tinder →</a></p>`}
+  </div>
+</body>
+</html>`;
+}
 const PRIVACY_POLICY = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -317,7 +852,8 @@ const PRIVACY_POLICY = `<!DOCTYPE html>
     <h2>How We Use Your Data</h2>
     <ul>
       <li>To provide the core service: showing you tech news and saving your preferences</li>
-      <li>To personalize your feed based on your swipe patterns (coming soon)</li>
+      <li>To personalize your feed based on your swipe patterns</li>
+      <li>If you opt in to recommendations: to suggest ideas saved by other opted-in users, and to use your saves (never your name, email or notes) as a signal for theirs</li>
       <li>To improve the app based on aggregate usage patterns</li>
     </ul>
     
@@ -642,6 +1178,7 @@ const server = Bun.serve({
           dbUser = db.query("SELECT * FROM users WHERE email = ?").get(googleUser.email) as User;
           // Seed default feeds for new user
           seedDefaultFeeds(dbUser.id);
+          seedDefaultTagRules(db, dbUser.id);
         } else if (!dbUser.google_id) {
           // Link Google account to existing user
           db.query("UPDATE users SET google_id = ?, name = COALESCE(name, ?) WHERE id = ?")
@@ -727,6 +1264,7 @@ const server = Bun.serve({
         const dbUser = db.query("SELECT * FROM users WHERE email = ?").get(email) as User;
         // Seed default feeds for new user
         seedDefaultFeeds(dbUser.id);
+        seedDefaultTagRules(db, dbUser.id);
         const newSessionId = createSession(dbUser.id);
         
         return new Response(null, {
@@ -756,6 +1294,42 @@ const server = Bun.serve({
       });
     }
     
+    // ===========================================
+    // EMAIL LINKS - signed tokens instead of a session
+    // ===========================================
+    if (url.pathname === "/email/action") {
+      const token = url.searchParams.get("token") || "";
+      const claims = verifyEmailAction(getLinkSecret(db), token);
+      if (!claims || !db.query("SELECT 1 FROM users WHERE id = ?").get(claims.userId)) {
+        return htmlResponse(emailActionPage("Link expired", "This link is no longer valid. Open Idea Tinder to swipe instead."), 400);
+      }
+      const idea = claims.ideaId
+        ? db.query("SELECT title FROM ideas WHERE id = ?").get(claims.ideaId) as { title: string } | null
+        : null;
+      const verb = claims.action === "save" ? "Save" : claims.action === "dismiss" ? "Dismiss" : "Unsubscribe";
+      
+      // Mail scanners fetch links, so GET only shows a form; the page's script submits it
+      if (req.method === "GET") {
+        const subject = idea ? `“${idea.title}”` : "from Idea Tinder digest emails";
+        return htmlResponse(emailActionPage(verb, `${verb} ${subject}?`, { token, label: verb }));
+      }
+      if (req.method === "POST") {
+        // Also the RFC 8058 one-click unsubscribe from the mail client
+        if (claims.action === "unsubscribe") {
+          unsubscribe(db, claims.userId);
+          return htmlResponse(emailActionPage("Unsubscribed", "You won't get any more digest emails. Turn them back on in Settings."));
+        }
+        if (!idea) return htmlResponse(emailActionPage("Not found", "That idea is gone."), 404);
+        const existing = getSwipeState(db, claims.userId, claims.ideaId).direction;
+        if (existing) {
+          return htmlResponse(emailActionPage("Already swiped", `You already ${existing === "right" ? "saved" : "dismissed"} “${idea.title}”.`));
+        }
+        saveSwipe(claims.userId, claims.ideaId, claims.action === "save" ? "right" : "left", null);
+        return htmlResponse(emailActionPage(claims.action === "save" ? "Saved" : "Dismissed",
+          `${claims.action === "save" ? "✅ Saved" : "👎 Dismissed"} “${idea.title}”.`));
+      }
+    }
+    
     // ===========================================
     // API ROUTES (require auth for most)
     // ===========================================
@@ -767,12 +1341,18 @@ const server = Bun.serve({
       // API: Current user info
       if (url.pathname === "/api/me" && req.method === "GET") {
         if (!user) return jsonResponse({ user: null });
+        // Feeds switched off by ingestion that the user hasn't been told about yet
+        const disabledFeeds = db.query(`
+          SELECT id, name, url, disabled_reason, disabled_at FROM user_feeds
+          WHERE user_id = ? AND enabled = 0 AND disabled_at IS NOT NULL AND disabled_notified = 0
+        `).all(user.id);
         return jsonResponse({
           user: {
             id: user.id,
             email: user.email,
             name: user.name,
-          }
+          },
+          disabledFeeds,
         });
       }
       
@@ -780,19 +1360,99 @@ const server = Bun.serve({
       if (url.pathname === "/api/ideas" && req.method === "GET") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
+        // Optional ?tag= narrows the queue to one topic; ?order=recent skips ranking
+        const tag = url.searchParams.get("tag");
+        const recentFirst = url.searchParams.get("order") === "recent";
+        
         // Get ideas from user's pending queue that haven't been swiped
-        const unswiped = db.query(`
-          SELECT i.* FROM ideas i
-          INNER JOIN user_pending up ON up.idea_id = i.id AND up.user_id = ?
-          WHERE i.id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?)
+        const rows = db.query(`
+          SELECT i.*, c.reading_minutes, up.recommended_score, up.recommended_reason,
+                 up.filter_action, fr.kind as filter_kind, fr.pattern as filter_pattern,
+                 (SELECT json_group_array(json_object('source', src.source, 'url', src.url))
+                  FROM idea_sources src WHERE src.idea_id = i.id) as sources_json,
+                 ${IDEA_TAGS_SQL} as tags_json
+          FROM ideas i
+          INNER JOIN user_pending up ON up.idea_id = i.id AND up.user_id = ?1
+          LEFT JOIN idea_content c ON c.idea_id = i.id AND c.status = 'ok'
+          LEFT JOIN filter_rules fr ON fr.id = up.filter_rule_id
+          WHERE i.id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?1)
+          AND up.filter_action IS NOT 'mute'
+          AND (?2 IS NULL OR EXISTS (SELECT 1 FROM idea_tags t WHERE t.user_id = ?1 AND t.idea_id = i.id AND t.tag = ?2))
           ORDER BY up.added_at DESC
-        `).all(user.id, user.id) as Idea[];
+        `).all(user.id, tag) as (Idea & {
+          sources_json: string | null;
+          tags_json: string;
+          filter_action: string | null;
+          filter_kind: FilterKind | null;
+          filter_pattern: string | null;
+        })[];
+        
+        const model = loadModel(db, user.id);
+        const now = Date.now();
+        const unswiped = rows.map(({ sources_json, tags_json, filter_action, filter_kind, filter_pattern, ...idea }) => {
+          let { score, why } = scoreIdea(model, idea, now);
+          // Boosted by one of the user's filter rules
+          const matchedRule = filter_action === "boost" && filter_kind && filter_pattern
+            ? filterLabel({ kind: filter_kind, pattern: filter_pattern })
+            : null;
+          if (matchedRule) {
+            score = Math.min(100, score + FILTER_BOOST_POINTS);
+            why = [`Boosted: ${matchedRule}`, ...why];
+          }
+          return {
+            ...idea,
+            sources: sources_json ? JSON.parse(sources_json) as { source: string; url: string }[] : [],
+            tags: parseIdeaTags(tags_json),
+            score,
+            why,
+            matched_rule: matchedRule,
+          };
+        });
+        // Stable sort, so equal scores keep newest-first
+        if (!recentFirst) unswiped.sort((a, b) => b.score - a.score);
         
         const likedResult = db.query(
           "SELECT COUNT(*) as count FROM swipes WHERE user_id = ? AND direction = 'right'"
         ).get(user.id) as { count: number };
         
-        return jsonResponse({ unswiped, likedCount: likedResult.count }, 200, headers);
+        const mutedResult = db.query(`
+          SELECT COUNT(*) as count FROM user_pending
+          WHERE user_id = ?1 AND filter_action = 'mute' AND idea_id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?1)
+        `).get(user.id) as { count: number };
+        
+        return jsonResponse({ unswiped, likedCount: likedResult.count, mutedCount: mutedResult.count }, 200, headers);
+      }
+      
+      // API: Readable article text for the reader view (extracted on first request)
+      const contentMatch = url.pathname.match(/^\/api\/ideas\/(\d+)\/content$/);
+      if (contentMatch && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const ideaId = parseInt(contentMatch[1]!);
+        // Only ideas delivered to this user; anything else would let callers make us fetch arbitrary links
+        const delivered = db.query(`
+          SELECT 1 FROM user_pending WHERE user_id = ?1 AND idea_id = ?2
+          UNION ALL SELECT 1 FROM swipes WHERE user_id = ?1 AND idea_id = ?2
+        `).get(user.id, ideaId);
+        if (!delivered) {
+          return jsonResponse({ error: "Idea not found" }, 404, headers);
+        }
+        
+        let content = db.query(`
+          SELECT idea_id, status, url, title, byline, lead_image, content_html, word_count, reading_minutes, error, extracted_at,
+                 extracted_at < datetime('now', ?) as retry_due
+          FROM idea_content WHERE idea_id = ?
+        `).get(`-${CONTENT_RETRY_MINUTES} minutes`, ideaId) as (IdeaContent & { retry_due?: number }) | null;
+        
+        if (!content || (content.status === "failed" && content.retry_due)) {
+          content = await extractIdeaContent(ideaId);
+        }
+        if (!content) {
+          return jsonResponse({ error: "Idea not found" }, 404, headers);
+        }
+        
+        const { retry_due, ...body } = content;
+        return jsonResponse(body, 200, headers);
       }
       
       // API: Refresh feeds for current user
@@ -839,29 +1499,131 @@ const server = Bun.serve({
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
         const body = await req.json() as { id: number; direction: string; feedback: string | null };
-        db.query(`
-          INSERT INTO swipes (user_id, idea_id, direction, feedback)
-          VALUES (?, ?, ?, ?)
-          ON CONFLICT(user_id, idea_id) DO UPDATE SET direction = ?, feedback = ?, swiped_at = CURRENT_TIMESTAMP
-        `).run(user.id, body.id, body.direction, body.feedback, body.direction, body.feedback);
+        saveSwipe(user.id, body.id, body.direction, body.feedback);
         return jsonResponse({ success: true }, 200, headers);
       }
       
-      // API: Undo last swipe
+      // API: Undo the last N swipe actions (default 1), from any device
       if (url.pathname === "/api/undo" && req.method === "POST") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
-        const body = await req.json() as { ideaId: number };
-        const existing = db.query(
-          "SELECT * FROM swipes WHERE user_id = ? AND idea_id = ?"
-        ).get(user.id, body.ideaId) as { direction: string } | null;
-        
-        if (!existing) {
-          return jsonResponse({ error: "Swipe not found" }, 404, headers);
+        const body = await req.json().catch(() => ({})) as { steps?: number };
+        const steps = Math.min(Math.max(Math.floor(Number(body.steps) || 1), 1), 50);
+        const result = undoActions(db, user.id, steps);
+        if (result.actions.length === 0) return jsonResponse({ error: "Nothing to undo", ...result }, 404, headers);
+        return jsonResponse(result, 200, headers);
+      }
+
+      // API: Redo the last N undone actions (default 1)
+      if (url.pathname === "/api/redo" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const body = await req.json().catch(() => ({})) as { steps?: number };
+        const steps = Math.min(Math.max(Math.floor(Number(body.steps) || 1), 1), 50);
+        const result = redoActions(db, user.id, steps);
+        if (result.actions.length === 0) return jsonResponse({ error: "Nothing to redo", ...result }, 404, headers);
+        return jsonResponse(result, 200, headers);
+      }
+
+      // API: Recent swipe actions, with how far undo and redo can go
+      if (url.pathname === "/api/actions" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const limit = Math.min(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 200);
+        return jsonResponse(listActions(db, user.id, limit), 200, headers);
+      }
+
+      // API: Swipe history, newest first, both directions
+      if (url.pathname === "/api/history" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const params = historyFilterParams(user.id, Object.fromEntries(url.searchParams));
+        if (!Array.isArray(params)) return jsonResponse(params, 400);
+        const limit = Math.min(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 200);
+        const offset = Math.max(parseInt(url.searchParams.get("offset") || "0", 10) || 0, 0);
+
+        const total = db.query(`
+          SELECT COUNT(*) as count FROM swipes s JOIN ideas i ON i.id = s.idea_id WHERE ${HISTORY_FILTER_SQL}
+        `).get(...params) as { count: number };
+        const rows = db.query(`
+          SELECT i.id, i.title, i.source, i.summary, i.url, i.category, i.content_type, i.published_at,
+                 s.direction, s.feedback, s.swiped_at, ${IDEA_TAGS_SQL} as tags_json
+          FROM swipes s JOIN ideas i ON i.id = s.idea_id
+          WHERE ${HISTORY_FILTER_SQL}
+          ORDER BY s.swiped_at DESC, s.id DESC
+          LIMIT ${limit} OFFSET ${offset}
+        `).all(...params) as { tags_json: string }[];
+        const items = rows.map(({ tags_json, ...item }) => ({ ...item, tags: parseIdeaTags(tags_json) }));
+        return jsonResponse({ items, total: total.count, limit, offset }, 200, headers);
+      }
+
+      // API: Re-judge a past swipe: flip its direction and/or edit the hot take
+      const historyMatch = url.pathname.match(/^\/api\/history\/(\d+)$/);
+      if (historyMatch && req.method === "PUT") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const ideaId = parseInt(historyMatch[1]!, 10);
+        const existing = db.query("SELECT direction, feedback FROM swipes WHERE user_id = ? AND idea_id = ?")
+          .get(user.id, ideaId) as { direction: string; feedback: string | null } | null;
+        if (!existing) return jsonResponse({ error: "Swipe not found" }, 404);
+
+        const body = await req.json() as { direction?: string; feedback?: unknown };
+        if (body.direction !== undefined && !SWIPE_DIRECTIONS.includes(body.direction)) {
+          return jsonResponse({ error: "direction must be right or left" }, 400);
         }
-        
-        db.query("DELETE FROM swipes WHERE user_id = ? AND idea_id = ?").run(user.id, body.ideaId);
-        return jsonResponse({ success: true, wasRight: existing.direction === 'right' }, 200, headers);
+        if (body.feedback !== undefined && body.feedback !== null && typeof body.feedback !== "string") {
+          return jsonResponse({ error: "feedback must be a string or null" }, 400);
+        }
+        const feedback = body.feedback === undefined ? existing.feedback : body.feedback?.trim() || null;
+        if (body.direction && body.direction !== existing.direction) {
+          saveSwipe(user.id, ideaId, body.direction, feedback);
+        } else {
+          // Editing the hot take alone keeps the original swipe time
+          db.query("UPDATE swipes SET feedback = ? WHERE user_id = ? AND idea_id = ?").run(feedback, user.id, ideaId);
+          logSwipeAction(db, user.id, ideaId, existing, { direction: existing.direction, feedback });
+        }
+        const swipe = db.query("SELECT idea_id, direction, feedback, swiped_at FROM swipes WHERE user_id = ? AND idea_id = ?")
+          .get(user.id, ideaId);
+        return jsonResponse(swipe, 200, headers);
+      }
+
+      // API: Put swiped ideas back in the queue, by id or by a filtered date range
+      if (url.pathname === "/api/history/unswipe" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const body = await req.json() as { ids?: number[] } & Record<string, unknown>;
+        let ideaIds: number[];
+        if (Array.isArray(body.ids)) {
+          ideaIds = body.ids.filter(id => Number.isInteger(id));
+        } else {
+          if (!body.from && !body.to) return jsonResponse({ error: "Send ids, or a from/to date range" }, 400);
+          const params = historyFilterParams(user.id, body);
+          if (!Array.isArray(params)) return jsonResponse(params, 400);
+          ideaIds = (db.query(`SELECT s.idea_id FROM swipes s JOIN ideas i ON i.id = s.idea_id WHERE ${HISTORY_FILTER_SQL}`)
+            .all(...params) as { idea_id: number }[]).map(row => row.idea_id);
+        }
+
+        const remove = db.query("DELETE FROM swipes WHERE user_id = ? AND idea_id = ?");
+        // Ideas from before per-user queues may have no user_pending row; a
+        // muted idea the user asked for back should be visible, and gets a
+        // fresh added_at so the 7-day cleanup doesn't purge it straight away
+        const requeue = db.query(`
+          INSERT INTO user_pending (user_id, idea_id) VALUES (?, ?)
+          ON CONFLICT(user_id, idea_id) DO UPDATE SET
+            added_at = CURRENT_TIMESTAMP,
+            filter_action = CASE WHEN filter_action = 'mute' THEN 'allowed' ELSE filter_action END
+        `);
+        let unswiped = 0;
+        db.transaction(() => {
+          for (const ideaId of ideaIds) {
+            const before = getSwipeState(db, user.id, ideaId);
+            if (remove.run(user.id, ideaId).changes === 0) continue;
+            requeue.run(user.id, ideaId);
+            logSwipeAction(db, user.id, ideaId, before, { direction: null, feedback: null });
+            unswiped++;
+          }
+        })();
+        return jsonResponse({ unswiped }, 200, headers);
       }
       
       // API: List user's custom RSS feeds
@@ -869,30 +1631,273 @@ const server = Bun.serve({
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
         const feeds = db.query(`
-          SELECT id, url, name, category, enabled, created_at, last_fetched, last_error
-          FROM user_feeds
-          WHERE user_id = ?
-          ORDER BY created_at DESC
+          SELECT f.id, f.url, f.name, f.category, f.type, f.enabled, f.created_at, f.last_fetched, f.last_error,
+                 f.lookback_hours, f.max_items, f.backfill_mode, f.first_ingested_at, f.disabled_reason,
+                 fs.consecutive_failures, fs.next_fetch_at, fs.last_success_at
+          FROM user_feeds f
+          LEFT JOIN feed_state fs ON fs.url = f.url
+          WHERE f.user_id = ?
+          ORDER BY f.created_at DESC
         `).all(user.id);
         return jsonResponse(feeds, 200, headers);
       }
       
-      // API: Add custom RSS feed
+      // API: Per-feed health over the last FEED_HEALTH_WINDOW_DAYS
+      if (url.pathname === "/api/feeds/health" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const windowStart = `-${FEED_HEALTH_WINDOW_DAYS} days`;
+        const rows = db.query(`
+          SELECT f.id, f.url, f.name, f.category, f.enabled, f.disabled_reason, f.disabled_at,
+                 fs.consecutive_failures, fs.last_error, fs.last_success_at, fs.next_fetch_at,
+                 COUNT(l.id) as fetches,
+                 SUM(CASE WHEN l.status != 'error' THEN 1 ELSE 0 END) as successes,
+                 AVG(l.latency_ms) as avg_latency_ms,
+                 (SELECT COUNT(*) FROM idea_sources src
+                  WHERE src.source_feed = f.url AND src.added_at >= datetime('now', ?)) as recent_items,
+                 (SELECT MAX(src.added_at) FROM idea_sources src WHERE src.source_feed = f.url) as last_new_item_at
+          FROM user_feeds f
+          LEFT JOIN feed_state fs ON fs.url = f.url
+          LEFT JOIN feed_fetch_log l ON l.feed_url = f.url AND l.fetched_at >= datetime('now', ?)
+          WHERE f.user_id = ?
+          GROUP BY f.id
+          ORDER BY f.name
+        `).all(windowStart, windowStart, user.id) as {
+          id: number; url: string; name: string; category: string; enabled: number;
+          disabled_reason: string | null; disabled_at: string | null;
+          consecutive_failures: number | null; last_error: string | null;
+          last_success_at: string | null; next_fetch_at: string | null;
+          fetches: number; successes: number | null; avg_latency_ms: number | null;
+          recent_items: number; last_new_item_at: string | null;
+        }[];
+        
+        const historyQuery = db.query(`
+          SELECT fetched_at, status, latency_ms, item_count, error FROM feed_fetch_log
+          WHERE feed_url = ? ORDER BY fetched_at DESC, id DESC LIMIT ?
+        `);
+        const staleBefore = Date.now() - FEED_HEALTH_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+        
+        const feeds = rows.map(row => {
+          let status: string;
+          if (!row.enabled) status = row.disabled_at ? "disabled" : "paused";
+          else if (row.consecutive_failures) status = "failing";
+          else if (row.fetches === 0) status = "unknown";
+          else if (!row.last_new_item_at || new Date(row.last_new_item_at + "Z").getTime() < staleBefore) status = "stale";
+          else status = "healthy";
+          
+          return {
+            id: row.id,
+            url: row.url,
+            name: row.name,
+            category: row.category,
+            enabled: !!row.enabled,
+            status,
+            disabled_reason: row.disabled_reason,
+            disabled_at: row.disabled_at,
+            consecutive_failures: row.consecutive_failures ?? 0,
+            last_error: row.last_error,
+            last_success_at: row.last_success_at,
+            next_fetch_at: row.next_fetch_at,
+            fetches: row.fetches,
+            success_rate: row.fetches ? (row.successes ?? 0) / row.fetches : null,
+            avg_latency_ms: row.avg_latency_ms === null ? null : Math.round(row.avg_latency_ms),
+            items_per_week: Math.round(row.recent_items / (FEED_HEALTH_WINDOW_DAYS / 7) * 10) / 10,
+            last_new_item_at: row.last_new_item_at,
+            history: historyQuery.all(row.url, FEED_HEALTH_HISTORY),
+          };
+        });
+        
+        return jsonResponse({ window_days: FEED_HEALTH_WINDOW_DAYS, feeds }, 200, headers);
+      }
+      
+      // API: Dismiss the notice about auto-disabled feeds
+      if (url.pathname === "/api/feeds/disabled/ack" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        db.query(`
+          UPDATE user_feeds SET disabled_notified = 1
+          WHERE user_id = ? AND disabled_at IS NOT NULL AND disabled_notified = 0
+        `).run(user.id);
+        return jsonResponse({ success: true }, 200, headers);
+      }
+      
+      // API: Export feeds as OPML
+      if (url.pathname === "/api/feeds/opml" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const feeds = db.query(`
+          SELECT url, name, category, type FROM user_feeds WHERE user_id = ? ORDER BY name
+        `).all(user.id) as OpmlFeed[];
+        
+        return new Response(buildOpml(feeds, `Idea Tinder feeds for ${user.email}`), {
+          headers: {
+            "Content-Type": "text/x-opml; charset=utf-8",
+            "Content-Disposition": `attachment; filename="idea-tinder-feeds.opml"`,
+          },
+        });
+      }
+      
+      // API: Import feeds from OPML (merge; ?dry_run=1 previews without saving)
+      if (url.pathname === "/api/feeds/opml" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const dryRun = ["1", "true"].includes(url.searchParams.get("dry_run") || "");
+        let parsed;
+        try {
+          parsed = parseOpml(await req.text());
+        } catch (error) {
+          if (error instanceof OpmlParseError) {
+            return jsonResponse({ error: error.message }, 400, headers);
+          }
+          throw error;
+        }
+        
+        const existing = new Set(
+          (db.query("SELECT url FROM user_feeds WHERE user_id = ?").all(user.id) as { url: string }[]).map(f => f.url)
+        );
+        const toAdd: OpmlFeed[] = [];
+        const duplicates: (OpmlFeed & { reason: string })[] = [];
+        for (const feed of parsed.feeds) {
+          if (existing.has(feed.url)) {
+            duplicates.push({ ...feed, reason: toAdd.some(f => f.url === feed.url) ? "Listed twice in file" : "Already subscribed" });
+          } else {
+            toAdd.push(feed);
+            existing.add(feed.url);
+          }
+        }
+        
+        if (!dryRun) {
+          const insert = db.query(`
+            INSERT OR IGNORE INTO user_feeds (user_id, url, name, category, type)
+            VALUES (?, ?, ?, ?, ?)
+          `);
+          db.transaction(() => {
+            for (const feed of toAdd) insert.run(user.id, feed.url, feed.name, feed.category, feed.type);
+          })();
+        }
+        
+        return jsonResponse({
+          success: true,
+          dry_run: dryRun,
+          added: toAdd,
+          duplicates,
+          invalid: parsed.invalid,
+        }, 200, headers);
+      }
+      
+      // API: Preview a feed before subscribing
+      if (url.pathname === "/api/feeds/preview" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const body = await req.json() as { url?: string };
+        if (!body.url) {
+          return jsonResponse({ error: "URL is required" }, 400, headers);
+        }
+        
+        return jsonResponse(await previewFeed(body.url), 200, headers);
+      }
+      
+      // API: Discover feeds behind a site URL
+      if (url.pathname === "/api/feeds/discover" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const body = await req.json() as { url?: string };
+        if (!body.url) {
+          return jsonResponse({ error: "URL is required" }, 400, headers);
+        }
+        
+        try {
+          const feeds = await discoverFeeds(body.url);
+          return jsonResponse({ feeds }, 200, headers);
+        } catch (error) {
+          if (error instanceof FeedDiscoveryError) {
+            return jsonResponse({ error: error.message }, 422, headers);
+          }
+          throw error;
+        }
+      }
+      
+      // API: Add custom RSS feed (accepts a site URL; the feed is discovered)
+      // or a non-RSS source (type github/youtube/arxiv/hn with a target)
       if (url.pathname === "/api/feeds" && req.method === "POST") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
-        const body = await req.json() as { url: string; name: string; category?: string };
-        if (!body.url || !body.name) {
-          return jsonResponse({ error: "URL and name are required" }, 400, headers);
+        const body = await req.json() as {
+          url?: string;
+          name?: string;
+          category?: string;
+          type?: string;
+          target?: string;
+          github_mode?: "releases" | "tags";
+          min_points?: number;
+        };
+        
+        if (body.type && body.type !== "rss") {
+          const type = body.type;
+          if (!isSourceType(type) || type === "rss") {
+            return jsonResponse({ error: "type must be one of: rss, github, youtube, arxiv, hn" }, 400, headers);
+          }
+          
+          let source;
+          try {
+            source = buildSourceUrl(type, body.target ?? "", { githubMode: body.github_mode, minPoints: body.min_points });
+            const parsed = await checkSource(type, source.url);
+            if (type === "youtube" && parsed.title) source.name = parsed.title;
+          } catch (error) {
+            if (error instanceof SourceConfigError) {
+              return jsonResponse({ error: error.message }, 422, headers);
+            }
+            throw error;
+          }
+          
+          try {
+            db.query(`
+              INSERT INTO user_feeds (user_id, url, name, category, type)
+              VALUES (?, ?, ?, ?, ?)
+            `).run(user.id, source.url, body.name?.trim() || source.name, body.category || 'custom', type);
+            
+            const feed = db.query("SELECT * FROM user_feeds WHERE user_id = ? AND url = ?").get(user.id, source.url);
+            return jsonResponse({ success: true, feed }, 200, headers);
+          } catch (error: any) {
+            if (error.message?.includes("UNIQUE constraint")) {
+              return jsonResponse({ error: "Source already exists" }, 409, headers);
+            }
+            throw error;
+          }
+        }
+        
+        if (!body.url) {
+          return jsonResponse({ error: "URL is required" }, 400, headers);
         }
         
+        let feeds;
+        try {
+          feeds = await discoverFeeds(body.url);
+        } catch (error) {
+          if (error instanceof FeedDiscoveryError) {
+            return jsonResponse({ error: error.message }, 422, headers);
+          }
+          throw error;
+        }
+        
+        if (feeds.length === 0) {
+          return jsonResponse({ error: "No RSS, Atom or JSON feed found at that URL" }, 422, headers);
+        }
+        if (feeds.length > 1) {
+          // Let the user pick; they re-submit with the chosen feed URL
+          return jsonResponse({ error: "Multiple feeds found", candidates: feeds }, 409, headers);
+        }
+        
+        const discovered = feeds[0]!;
+        const name = body.name?.trim() || discovered.title || new URL(discovered.url).hostname;
+        
         try {
           db.query(`
             INSERT INTO user_feeds (user_id, url, name, category)
             VALUES (?, ?, ?, ?)
-          `).run(user.id, body.url, body.name, body.category || 'custom');
+          `).run(user.id, discovered.url, name, body.category || 'custom');
           
-          const feed = db.query("SELECT * FROM user_feeds WHERE user_id = ? AND url = ?").get(user.id, body.url);
+          const feed = db.query("SELECT * FROM user_feeds WHERE user_id = ? AND url = ?").get(user.id, discovered.url);
           return jsonResponse({ success: true, feed }, 200, headers);
         } catch (error: any) {
           if (error.message?.includes("UNIQUE constraint")) {
@@ -902,12 +1907,19 @@ const server = Bun.serve({
         }
       }
       
-      // API: Update feed (toggle enabled, update name/category)
+      // API: Update feed (toggle enabled, update name/category, ingestion window)
       if (url.pathname.match(/^\/api\/feeds\/\d+$/) && req.method === "PUT") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
         const feedId = parseInt(url.pathname.split("/").pop()!);
-        const body = await req.json() as { name?: string; category?: string; enabled?: boolean };
+        const body = await req.json() as {
+          name?: string;
+          category?: string;
+          enabled?: boolean;
+          lookback_hours?: number;
+          max_items?: number;
+          backfill_mode?: string;
+        };
         
         // Verify ownership
         const feed = db.query("SELECT * FROM user_feeds WHERE id = ? AND user_id = ?").get(feedId, user.id);
@@ -920,13 +1932,41 @@ const server = Bun.serve({
         
         if (body.name !== undefined) { updates.push("name = ?"); values.push(body.name); }
         if (body.category !== undefined) { updates.push("category = ?"); values.push(body.category); }
-        if (body.enabled !== undefined) { updates.push("enabled = ?"); values.push(body.enabled ? 1 : 0); }
+        if (body.enabled !== undefined) {
+          updates.push("enabled = ?"); values.push(body.enabled ? 1 : 0);
+          // Re-enabling a dead feed clears the auto-disable record
+          if (body.enabled) updates.push("disabled_reason = NULL", "disabled_at = NULL");
+        }
+        if (body.lookback_hours !== undefined) {
+          if (!Number.isInteger(body.lookback_hours) || body.lookback_hours < 1 || body.lookback_hours > MAX_LOOKBACK_HOURS) {
+            return jsonResponse({ error: `lookback_hours must be an integer from 1 to ${MAX_LOOKBACK_HOURS}` }, 400, headers);
+          }
+          updates.push("lookback_hours = ?"); values.push(body.lookback_hours);
+        }
+        if (body.max_items !== undefined) {
+          if (!Number.isInteger(body.max_items) || body.max_items < 1 || body.max_items > MAX_ITEMS_PER_FETCH) {
+            return jsonResponse({ error: `max_items must be an integer from 1 to ${MAX_ITEMS_PER_FETCH}` }, 400, headers);
+          }
+          updates.push("max_items = ?"); values.push(body.max_items);
+        }
+        if (body.backfill_mode !== undefined) {
+          if (!(BACKFILL_MODES as readonly string[]).includes(body.backfill_mode)) {
+            return jsonResponse({ error: `backfill_mode must be one of: ${BACKFILL_MODES.join(", ")}` }, 400, headers);
+          }
+          updates.push("backfill_mode = ?"); values.push(body.backfill_mode);
+        }
         
         if (updates.length > 0) {
           values.push(feedId, user.id);
           db.query(`UPDATE user_feeds SET ${updates.join(", ")} WHERE id = ? AND user_id = ?`).run(...values);
         }
         
+        // Give a re-enabled dead feed a fresh start instead of waiting out its backoff
+        if (body.enabled && (feed as { disabled_at: string | null }).disabled_at) {
+          db.query("UPDATE feed_state SET consecutive_failures = 0, next_fetch_at = NULL WHERE url = ?")
+            .run((feed as { url: string }).url);
+        }
+        
         const updated = db.query("SELECT * FROM user_feeds WHERE id = ?").get(feedId);
         return jsonResponse({ success: true, feed: updated }, 200, headers);
       }
@@ -944,6 +1984,149 @@ const server = Bun.serve({
         return jsonResponse({ success: true }, 200, headers);
       }
       
+      // API: Mute/boost filter rules, with how many queued items each one matches
+      if (url.pathname === "/api/filters" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const rules = db.query(`
+          SELECT fr.id, fr.action, fr.kind, fr.pattern, fr.created_at,
+                 (SELECT COUNT(*) FROM user_pending up WHERE up.user_id = fr.user_id AND up.filter_rule_id = fr.id) as matches
+          FROM filter_rules fr
+          WHERE fr.user_id = ?
+          ORDER BY fr.action, fr.created_at
+        `).all(user.id);
+        return jsonResponse({ rules }, 200, headers);
+      }
+      
+      // API: Add a filter rule; it applies to the current queue straight away
+      if (url.pathname === "/api/filters" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const body = await req.json() as { action?: unknown; kind?: unknown; pattern?: unknown };
+        let rule;
+        try {
+          rule = validateFilterRule(body.action, body.kind, body.pattern);
+        } catch (e) {
+          if (e instanceof FilterRuleError) return jsonResponse({ error: e.message }, 400, headers);
+          throw e;
+        }
+        
+        const created = db.query(`
+          INSERT OR IGNORE INTO filter_rules (user_id, action, kind, pattern) VALUES (?, ?, ?, ?)
+          RETURNING id, action, kind, pattern, created_at
+        `).get(user.id, rule.action, rule.kind, rule.pattern);
+        if (!created) {
+          return jsonResponse({ error: "You already have this rule" }, 409, headers);
+        }
+        
+        const applied = applyFiltersToQueue(db, user.id);
+        return jsonResponse({ rule: created, ...applied }, 201, headers);
+      }
+      
+      // API: Remove a filter rule and re-filter the queue without it
+      const filterMatch = url.pathname.match(/^\/api\/filters\/(\d+)$/);
+      if (filterMatch && req.method === "DELETE") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const result = db.query("DELETE FROM filter_rules WHERE id = ? AND user_id = ?").run(parseInt(filterMatch[1]!), user.id);
+        if (result.changes === 0) {
+          return jsonResponse({ error: "Filter not found" }, 404, headers);
+        }
+        const applied = applyFiltersToQueue(db, user.id);
+        return jsonResponse({ success: true, ...applied }, 200, headers);
+      }
+      
+      // API: What the filters are hiding from the queue
+      if (url.pathname === "/api/filters/muted" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const muted = db.query(`
+          SELECT i.id, i.title, i.source, i.url, i.content_type, up.added_at, fr.id as rule_id, fr.kind, fr.pattern
+          FROM user_pending up
+          JOIN ideas i ON i.id = up.idea_id
+          LEFT JOIN filter_rules fr ON fr.id = up.filter_rule_id
+          WHERE up.user_id = ?1 AND up.filter_action = 'mute'
+          AND up.idea_id NOT IN (SELECT idea_id FROM swipes WHERE user_id = ?1)
+          ORDER BY up.added_at DESC
+        `).all(user.id) as { kind: FilterKind | null; pattern: string | null }[];
+        return jsonResponse({
+          muted: muted.map(({ kind, pattern, ...idea }) => ({
+            ...idea,
+            matched_rule: kind && pattern ? filterLabel({ kind, pattern }) : null,
+          })),
+        }, 200, headers);
+      }
+      
+      // API: Show a muted item anyway; later rule changes leave it visible
+      const unmuteMatch = url.pathname.match(/^\/api\/filters\/muted\/(\d+)$/);
+      if (unmuteMatch && req.method === "DELETE") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const result = db.query(`
+          UPDATE user_pending SET filter_action = 'allowed', filter_rule_id = NULL
+          WHERE user_id = ? AND idea_id = ? AND filter_action = 'mute'
+        `).run(user.id, parseInt(unmuteMatch[1]!));
+        if (result.changes === 0) {
+          return jsonResponse({ error: "Muted item not found" }, 404, headers);
+        }
+        return jsonResponse({ success: true }, 200, headers);
+      }
+      
+      // API: User preferences (currently just the recommendations opt-in)
+      if (url.pathname === "/api/preferences" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        return jsonResponse({
+          ...DEFAULT_PREFERENCES,
+          ...parsePreferences(user.preferences),
+          emailDigest: emailDigestSettings(user.preferences),
+        }, 200, headers);
+      }
+      
+      if (url.pathname === "/api/preferences" && req.method === "PUT") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const body = await req.json() as Partial<Preferences>;
+        const preferences = parsePreferences(user.preferences);
+        if (body.recommendations !== undefined) {
+          if (typeof body.recommendations !== "boolean") {
+            return jsonResponse({ error: "recommendations must be true or false" }, 400, headers);
+          }
+          preferences.recommendations = body.recommendations;
+        }
+        if (body.emailDigest !== undefined) {
+          try {
+            preferences.emailDigest = updateEmailDigestSettings(emailDigestSettings(user.preferences), body.emailDigest);
+          } catch (e) {
+            if (e instanceof EmailDigestError) return jsonResponse({ error: e.message }, e.status, headers);
+            throw e;
+          }
+        }
+        db.query("UPDATE users SET preferences = ? WHERE id = ?").run(JSON.stringify(preferences), user.id);
+        
+        // Opting out takes back recommendations still waiting in the queue
+        const removed = preferences.recommendations ? 0 : removeRecommendations(db, user.id);
+        return jsonResponse({
+          ...DEFAULT_PREFERENCES,
+          ...preferences,
+          emailDigest: emailDigestSettings(JSON.stringify(preferences)),
+          removed,
+        }, 200, headers);
+      }
+      
+      // API: Send an email digest of the current queue now, to check delivery
+      if (url.pathname === "/api/preferences/email-test" && req.method === "POST") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        if (!mailTransport) return jsonResponse({ error: "Mail is turned off on this server" }, 503, headers);
+        
+        try {
+          return jsonResponse(await sendTestDigest(db, mailTransport, user.id, BASE_URL), 200, headers);
+        } catch (e) {
+          if (e instanceof EmailDigestError) return jsonResponse({ error: e.message }, e.status, headers);
+          throw e;
+        }
+      }
+      
       // API: Get MCP token for AI integration
       if (url.pathname === "/api/mcp-token" && req.method === "GET") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
@@ -977,31 +2160,330 @@ const server = Bun.serve({
         }, 200, headers);
       }
       
+      // API: Saved ideas as Markdown, CSV, HTML or an Obsidian vault
+      if (url.pathname === "/api/liked/export" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const format = url.searchParams.get("format") || "md";
+        if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+          return jsonResponse({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }, 400);
+        }
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
+        for (const date of [from, to]) {
+          if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return jsonResponse({ error: "Dates must be YYYY-MM-DD" }, 400);
+        }
+        const collectionParam = url.searchParams.get("collection");
+        const collection = collectionParam ? findCollection(db, user.id, collectionParam) : null;
+        if (collectionParam && !collection) return jsonResponse({ error: "Collection not found" }, 404);
+        
+        const ideas = loadExportIdeas(db, user.id, {
+          from,
+          to,
+          category: url.searchParams.get("category"),
+          collection: collection?.id ?? null,
+        });
+        const file = renderExport(format as ExportFormat, ideas, collection ? collection.name : "Saved ideas");
+        const filename = `idea-tinder-${collection ? "collection-" + collection.id : "saved"}-${new Date().toISOString().split("T")[0]}.${file.extension}`;
+        return new Response(file.body, {
+          headers: {
+            "Content-Type": file.contentType,
+            "Content-Disposition": `attachment; filename="${filename}"`,
+          },
+        });
+      }
+      
       // API: Get liked ideas
       if (url.pathname === "/api/liked" && req.method === "GET") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
-        const liked = db.query(`
-          SELECT i.*, s.feedback, s.swiped_at
+        const tag = url.searchParams.get("tag");
+        const rows = db.query(`
+          SELECT i.*, s.feedback, s.swiped_at, c.reading_minutes, ${IDEA_TAGS_SQL} as tags_json
           FROM ideas i
           JOIN swipes s ON i.id = s.idea_id
-          WHERE s.user_id = ? AND s.direction = 'right'
+          LEFT JOIN idea_content c ON c.idea_id = i.id AND c.status = 'ok'
+          WHERE s.user_id = ?1 AND s.direction = 'right'
+          AND (?2 IS NULL OR EXISTS (SELECT 1 FROM idea_tags t WHERE t.user_id = ?1 AND t.idea_id = i.id AND t.tag = ?2))
           ORDER BY s.swiped_at DESC
-        `).all(user.id);
+        `).all(user.id, tag) as (Idea & { tags_json: string })[];
+        const notes = notesByIdea(db, user.id);
+        const liked = rows.map(({ tags_json, ...idea }) => ({
+          ...idea,
+          tags: parseIdeaTags(tags_json),
+          notes: notes.get(idea.id) ?? [],
+        }));
         return jsonResponse(liked, 200, headers);
       }
+
+      // API: Full-text search over the user's queue and history
+      if (url.pathname === "/api/search" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+        const query = url.searchParams.get("q")?.trim() || "";
+        if (!query) return jsonResponse({ error: "q is required" }, 400);
+        const direction = url.searchParams.get("direction") || "all";
+        if (!SEARCH_DIRECTIONS.includes(direction as SearchDirection)) {
+          return jsonResponse({ error: `direction must be one of: ${SEARCH_DIRECTIONS.join(", ")}` }, 400);
+        }
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
+        for (const date of [from, to]) {
+          if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return jsonResponse({ error: "Dates must be YYYY-MM-DD" }, 400);
+        }
+        const limit = Math.min(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 100);
+        const offset = Math.max(parseInt(url.searchParams.get("offset") || "0", 10) || 0, 0);
+
+        const { results, total } = searchIdeas(db, user.id, {
+          query,
+          direction: direction as SearchDirection,
+          category: url.searchParams.get("category"),
+          source: url.searchParams.get("source"),
+          from,
+          to,
+          limit,
+          offset,
+        });
+        return jsonResponse({ results, total, limit, offset }, 200, headers);
+      }
+
+      // API: Notes and highlights on a saved idea
+      const ideaNotesMatch = url.pathname.match(/^\/api\/ideas\/(\d+)\/notes$/);
+      const noteMatch = url.pathname.match(/^\/api\/notes\/(\d+)$/);
+      if (ideaNotesMatch || noteMatch) {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        try {
+          if (ideaNotesMatch && req.method === "GET") {
+            return jsonResponse({ notes: listNotes(db, user.id, parseInt(ideaNotesMatch[1]!, 10)) }, 200, headers);
+          }
+          // A quote makes it a highlight of the article text
+          if (ideaNotesMatch && req.method === "POST") {
+            const body = await req.json() as { body?: unknown; quote?: unknown };
+            return jsonResponse(addNote(db, user.id, parseInt(ideaNotesMatch[1]!, 10), body), 201, headers);
+          }
+          if (noteMatch && req.method === "PUT") {
+            const body = await req.json() as { body?: unknown; quote?: unknown };
+            return jsonResponse(updateNote(db, user.id, parseInt(noteMatch[1]!, 10), body), 200, headers);
+          }
+          if (noteMatch && req.method === "DELETE") {
+            deleteNote(db, user.id, parseInt(noteMatch[1]!, 10));
+            return jsonResponse({ success: true }, 200, headers);
+          }
+        } catch (e) {
+          if (e instanceof NoteError) return jsonResponse({ error: e.message }, e.status, headers);
+          throw e;
+        }
+      }
+      
+      // API: Collections and their items. Every handler here throws
+      // CollectionError for bad input, missing rows and duplicates.
+      if (url.pathname === "/api/collections" || url.pathname.startsWith("/api/collections/")) {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const collectionMatch = url.pathname.match(/^\/api\/collections\/(\d+)(?:\/(outline|items)(?:\/(order|\d+))?)?$/);
+        const collectionId = collectionMatch ? parseInt(collectionMatch[1]!, 10) : 0;
+        const sub = collectionMatch?.[2];
+        const itemRef = collectionMatch?.[3];
+        try {
+          if (url.pathname === "/api/collections" && req.method === "GET") {
+            return jsonResponse({ collections: listCollections(db, user.id) }, 200, headers);
+          }
+          if (url.pathname === "/api/collections" && req.method === "POST") {
+            const body = await req.json() as { name?: unknown; description?: unknown };
+            return jsonResponse(createCollection(db, user.id, body), 201, headers);
+          }
+          if (url.pathname === "/api/collections/order" && req.method === "PUT") {
+            const body = await req.json() as { ids?: unknown };
+            reorderCollections(db, user.id, body.ids);
+            return jsonResponse({ collections: listCollections(db, user.id) }, 200, headers);
+          }
+          if (collectionMatch && !sub) {
+            if (req.method === "GET") return jsonResponse(getCollection(db, user.id, collectionId), 200, headers);
+            if (req.method === "PUT") {
+              const body = await req.json() as { name?: unknown; description?: unknown };
+              return jsonResponse(updateCollection(db, user.id, collectionId, body), 200, headers);
+            }
+            if (req.method === "DELETE") {
+              deleteCollection(db, user.id, collectionId);
+              return jsonResponse({ success: true }, 200, headers);
+            }
+          }
+          // The collection as a Markdown outline, in board order
+          if (sub === "outline" && !itemRef && req.method === "GET") {
+            return new Response(collectionOutline(db, user.id, collectionId), {
+              headers: { ...headers, "Content-Type": "text/markdown; charset=utf-8" },
+            });
+          }
+          if (sub === "items" && !itemRef && req.method === "POST") {
+            const body = await req.json() as { ideaId?: unknown; note?: unknown; status?: unknown };
+            return jsonResponse(addItem(db, user.id, collectionId, body), 201, headers);
+          }
+          if (sub === "items" && itemRef === "order" && req.method === "PUT") {
+            const body = await req.json() as { ideaIds?: unknown };
+            reorderItems(db, user.id, collectionId, body.ideaIds);
+            return jsonResponse(getCollection(db, user.id, collectionId), 200, headers);
+          }
+          if (sub === "items" && itemRef && itemRef !== "order") {
+            const ideaId = parseInt(itemRef, 10);
+            if (req.method === "PUT") {
+              const body = await req.json() as { note?: unknown; status?: unknown };
+              return jsonResponse(updateItem(db, user.id, collectionId, ideaId, body), 200, headers);
+            }
+            if (req.method === "DELETE") {
+              removeItem(db, user.id, collectionId, ideaId);
+              return jsonResponse({ success: true }, 200, headers);
+            }
+          }
+        } catch (e) {
+          if (e instanceof CollectionError) return jsonResponse({ error: e.message }, e.status, headers);
+          throw e;
+        }
+      }
+      
+      // API: Weekly digest drafts, their versions and the user's template.
+      // Every handler here throws DigestError for bad input and missing rows.
+      if (url.pathname === "/api/digests" || url.pathname.startsWith("/api/digests/")) {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const digestMatch = url.pathname.match(/^\/api\/digests\/(\d+)(?:\/(regenerate|render))?$/);
+        const digestId = digestMatch ? parseInt(digestMatch[1]!, 10) : 0;
+        const sub = digestMatch?.[2];
+        const versionParam = url.searchParams.get("version");
+        const version = versionParam ? parseInt(versionParam, 10) || 0 : undefined;
+        try {
+          if (url.pathname === "/api/digests" && req.method === "GET") {
+            return jsonResponse({ digests: listDigests(db, user.id) }, 200, headers);
+          }
+          if (url.pathname === "/api/digests" && req.method === "POST") {
+            const body = await req.json() as { from?: unknown; to?: unknown; groupBy?: unknown; title?: unknown };
+            return jsonResponse(createDigest(db, user.id, body), 201, headers);
+          }
+          if (url.pathname === "/api/digests/template" && req.method === "GET") {
+            return jsonResponse(getTemplate(db, user.id), 200, headers);
+          }
+          // A null template puts the default back
+          if (url.pathname === "/api/digests/template" && req.method === "PUT") {
+            const body = await req.json() as { template?: unknown };
+            return jsonResponse(setTemplate(db, user.id, body.template ?? null), 200, headers);
+          }
+          if (digestMatch && !sub) {
+            if (req.method === "GET") return jsonResponse(getDigest(db, user.id, digestId, version), 200, headers);
+            // Markdown saves a hand-edited version
+            if (req.method === "PUT") {
+              const body = await req.json() as { title?: unknown; markdown?: unknown };
+              return jsonResponse(updateDigest(db, user.id, digestId, body), 200, headers);
+            }
+            if (req.method === "DELETE") {
+              deleteDigest(db, user.id, digestId);
+              return jsonResponse({ success: true }, 200, headers);
+            }
+          }
+          if (sub === "regenerate" && req.method === "POST") {
+            const body = await req.json().catch(() => ({})) as { from?: unknown; to?: unknown; groupBy?: unknown; title?: unknown };
+            return jsonResponse(regenerateDigest(db, user.id, digestId, body), 201, headers);
+          }
+          if (sub === "render" && req.method === "GET") {
+            const format = url.searchParams.get("format") || "md";
+            if (!DIGEST_FORMATS.includes(format as DigestFormat)) {
+              return jsonResponse({ error: `format must be one of: ${DIGEST_FORMATS.join(", ")}` }, 400, headers);
+            }
+            const digest = getDigest(db, user.id, digestId, version);
+            const file = renderDigest(digest, format as DigestFormat);
+            const filename = `idea-tinder-digest-${digest.id}-v${digest.version.version}.${file.extension}`;
+            return new Response(file.body, {
+              headers: {
+                ...headers,
+                "Content-Type": file.contentType,
+                "Content-Disposition": `${url.searchParams.get("download") ? "attachment" : "inline"}; filename="${filename}"`,
+              },
+            });
+          }
+        } catch (e) {
+          if (e instanceof DigestError) return jsonResponse({ error: e.message }, e.status, headers);
+          throw e;
+        }
+      }
+      
+      // API: Tags in use, with how many queued and saved ideas carry each
+      if (url.pathname === "/api/tags" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const tags = db.query(`
+          SELECT t.tag,
+                 SUM(CASE WHEN s.direction IS NULL THEN 1 ELSE 0 END) as pending,
+                 SUM(CASE WHEN s.direction = 'right' THEN 1 ELSE 0 END) as saved
+          FROM idea_tags t
+          LEFT JOIN swipes s ON s.user_id = t.user_id AND s.idea_id = t.idea_id
+          WHERE t.user_id = ?
+          GROUP BY t.tag
+          ORDER BY pending + saved DESC, t.tag
+        `).all(user.id);
+        return jsonResponse({ tags }, 200, headers);
+      }
+      
+      // API: Keyword rules for tagging, as a list and in the editor's text format
+      if (url.pathname === "/api/tags/rules" && req.method === "GET") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const rules = getTagRules(db, user.id);
+        return jsonResponse({ rules, text: formatTagRules(rules) }, 200, headers);
+      }
+      
+      // API: Replace the keyword rules ({ text } or { rules }) and retag everything
+      if (url.pathname === "/api/tags/rules" && req.method === "PUT") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const body = await req.json() as { text?: string; rules?: { tag: string; keywords: string[] }[] };
+        const text = typeof body.text === "string"
+          ? body.text
+          : Array.isArray(body.rules) ? formatTagRules(body.rules.filter(rule => Array.isArray(rule?.keywords))) : null;
+        if (text === null) {
+          return jsonResponse({ error: "Send rules as text or a list" }, 400, headers);
+        }
+        const { rules, errors } = parseTagRules(text);
+        if (errors.length > 0) {
+          return jsonResponse({ error: "Some rules could not be read", errors }, 400, headers);
+        }
+        
+        setTagRules(db, user.id, rules);
+        const retagged = tagIdeasForUser(db, user.id);
+        return jsonResponse({ rules, retagged }, 200, headers);
+      }
+      
+      // API: Set an idea's tags by hand; an empty list hands it back to the rules
+      const ideaTagsMatch = url.pathname.match(/^\/api\/ideas\/(\d+)\/tags$/);
+      if (ideaTagsMatch && req.method === "PUT") {
+        if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
+        
+        const ideaId = parseInt(ideaTagsMatch[1]!);
+        const body = await req.json() as { tags?: unknown };
+        if (!Array.isArray(body.tags) || !body.tags.every(tag => typeof tag === "string")) {
+          return jsonResponse({ error: "tags must be a list of strings" }, 400, headers);
+        }
+        if (!db.query("SELECT 1 FROM ideas WHERE id = ?").get(ideaId)) {
+          return jsonResponse({ error: "Idea not found" }, 404, headers);
+        }
+        
+        setManualTags(db, user.id, ideaId, body.tags as string[]);
+        if (body.tags.length === 0) tagIdeasForUser(db, user.id, [ideaId]);
+        const tags = db.query("SELECT tag, source FROM idea_tags WHERE user_id = ? AND idea_id = ? ORDER BY tag").all(user.id, ideaId);
+        return jsonResponse({ tags }, 200, headers);
+      }
       
       // API: Export user data (GDPR)
       if (url.pathname === "/api/export" && req.method === "GET") {
         if (!user) return jsonResponse({ error: "Not authenticated" }, 401);
         
-        const swipes = db.query(`
-          SELECT i.title, i.source, i.url, s.direction, s.feedback, s.swiped_at
+        const notes = notesByIdea(db, user.id);
+        const swipes = (db.query(`
+          SELECT i.id, i.title, i.source, i.url, s.direction, s.feedback, s.swiped_at
           FROM swipes s
           JOIN ideas i ON s.idea_id = i.id
           WHERE s.user_id = ?
           ORDER BY s.swiped_at DESC
-        `).all(user.id);
+        `).all(user.id) as { id: number }[])
+          .map(({ id, ...swipe }) => ({ ...swipe, notes: (notes.get(id) ?? []).map(({ kind, body, quote, created_at, updated_at }) => ({ kind, body, quote, created_at, updated_at })) }));
         
         const exportData = {
           exported_at: new Date().toISOString(),
@@ -1012,6 +2494,8 @@ const server = Bun.serve({
             created_at: user.created_at,
           },
           swipes: swipes,
+          collections: listCollections(db, user.id).map(({ id }) => getCollection(db, user.id, id)),
+          digests: listDigests(db, user.id).map(({ id }) => getDigest(db, user.id, id)),
         };
         
         // Log the export request
@@ -1036,6 +2520,19 @@ const server = Bun.serve({
         // Delete all user data (cascade handles swipes and sessions)
         db.query("DELETE FROM swipes WHERE user_id = ?").run(user.id);
         db.query("DELETE FROM sessions WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM idea_tags WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM tag_rules WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM ranking_weights WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM ranking_models WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM filter_rules WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM swipe_actions WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM idea_notes WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM collection_items WHERE collection_id IN (SELECT id FROM collections WHERE user_id = ?)").run(user.id);
+        db.query("DELETE FROM collections WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM digest_versions WHERE digest_id IN (SELECT id FROM digests WHERE user_id = ?)").run(user.id);
+        db.query("DELETE FROM digests WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM digest_templates WHERE user_id = ?").run(user.id);
+        db.query("DELETE FROM email_digest_log WHERE user_id = ?").run(user.id);
         db.query("DELETE FROM users WHERE id = ?").run(user.id);
         
         return new Response(null, {
@@ -1103,7 +2600,7 @@ const server = Bun.serve({
         },
         {
           name: "set_feeds",
-          description: "Replace the list of RSS feeds. Each feed has: url, name, category, enabled",
+          description: "Replace the list of RSS feeds. Each feed has: url, name, category, type, enabled. Keep the url and type of non-RSS sources exactly as get_feeds returns them",
           inputSchema: {
             type: "object",
             properties: {
@@ -1116,6 +2613,7 @@ const server = Bun.serve({
                     url: { type: "string", description: "RSS feed URL" },
                     name: { type: "string", description: "Display name" },
                     category: { type: "string", description: "Category (ai, dev-tools, cloud, web, etc.)" },
+                    type: { type: "string", enum: ["rss", "github", "youtube", "arxiv", "hn"], description: "Source type (default rss)" },
                     enabled: { type: "boolean", description: "Whether feed is active" }
                   },
                   required: ["url", "name", "category"]
@@ -1127,7 +2625,7 @@ const server = Bun.serve({
         },
         {
           name: "get_saved_ideas",
-          description: "Get ideas the user swiped right on (saved/liked), with their hot takes",
+          description: "Get ideas the user swiped right on (saved/liked), with their hot takes, notes and highlights",
           inputSchema: { type: "object", properties: {} }
         },
         {
@@ -1163,7 +2661,7 @@ const server = Bun.serve({
         switch (name) {
           case "get_feeds": {
             const feeds = db.query(`
-              SELECT id, url, name, category, enabled, created_at, last_fetched, last_error
+              SELECT id, url, name, category, type, enabled, created_at, last_fetched, last_error
               FROM user_feeds
               WHERE user_id = ?
               ORDER BY name
@@ -1183,23 +2681,28 @@ const server = Bun.serve({
             for (const feed of args.feeds) {
               if (!feed.url || !feed.name || !feed.category) continue;
               db.query(`
-                INSERT INTO user_feeds (user_id, url, name, category, enabled)
-                VALUES (?, ?, ?, ?, ?)
-              `).run(mcpUser!.id, feed.url, feed.name, feed.category, feed.enabled !== false ? 1 : 0);
+                INSERT INTO user_feeds (user_id, url, name, category, type, enabled)
+                VALUES (?, ?, ?, ?, ?, ?)
+              `).run(mcpUser!.id, feed.url, feed.name, feed.category, isSourceType(feed.type) ? feed.type : "rss", feed.enabled !== false ? 1 : 0);
             }
             
             return { success: true, count: args.feeds.length };
           }
           
           case "get_saved_ideas": {
-            const ideas = db.query(`
-              SELECT i.id, i.title, i.source, i.summary, i.url, i.category, i.content_type,
+            const notes = notesByIdea(db, mcpUser!.id);
+            const ideas = (db.query(`
+              SELECT i.id, i.title, i.source, i.summary, i.generated_summary, i.url, i.category, i.content_type,
                      s.feedback as hot_take, s.swiped_at
               FROM ideas i
               JOIN swipes s ON i.id = s.idea_id
               WHERE s.user_id = ? AND s.direction = 'right'
               ORDER BY s.swiped_at DESC
-            `).all(mcpUser!.id);
+            `).all(mcpUser!.id) as { id: number }[])
+              .map(idea => ({
+                ...idea,
+                notes: (notes.get(idea.id) ?? []).map(({ kind, body, quote, created_at }) => ({ kind, body, quote, created_at })),
+              }));
             return { ideas };
           }
           
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { FeedParseError } from "./feed-parser";
+import { buildSourceUrl, parseSource, SourceConfigError } from "./sources";
+
+const fixture = (name: string) => Bun.file(`${import.meta.dir}/fixtures/sources/${name}`).text();
+
+describe("github", () => {
+  test("builds release and tag URLs from a repo or its GitHub link", () => {
+    expect(buildSourceUrl("github", "oven-sh/bun")).toEqual({
+      url: "https://api.github.com/repos/oven-sh/bun/releases?per_page=30",
+      name: "oven-sh/bun releases",
+    });
+    expect(buildSourceUrl("github", "https://github.com/oven-sh/bun.git", { githubMode: "tags" }).url)
+      .toBe("https://api.github.com/repos/oven-sh/bun/tags?per_page=30");
+    expect(() => buildSourceUrl("github", "just-a-name")).toThrow(SourceConfigError);
+  });
+
+  test("parses releases, skipping drafts and marking pre-releases", async () => {
+    const source = parseSource("github", await fixture("github-releases.json"), "https://api.github.com/repos/oven-sh/bun/releases?per_page=30");
+    expect(source.title).toBe("oven-sh/bun releases");
+    expect(source.items).toHaveLength(2);
+    const [stable, canary] = source.items;
+    expect(stable).toMatchObject({
+      title: "oven-sh/bun Bun v1.2.5",
+      link: "https://github.com/oven-sh/bun/releases/tag/bun-v1.2.5",
+      description: "Highlights Faster bun install on Linux Fixes a crash in Bun.serve",
+      author: "Jarred-Sumner",
+      guid: "201000003",
+    });
+    expect(stable!.pubDate?.toISOString()).toBe("2026-03-10T07:45:30.000Z");
+    // No name, body or publish date: fall back to the tag and creation time
+    expect(canary!.title).toBe("oven-sh/bun bun-v1.2.6-canary (pre-release)");
+    expect(canary!.description).toBe("oven-sh/bun bun-v1.2.6-canary was released.");
+    expect(canary!.pubDate?.toISOString()).toBe("2026-03-11T02:00:00.000Z");
+  });
+
+  test("parses tags", async () => {
+    const source = parseSource("github", await fixture("github-tags.json"), "https://api.github.com/repos/honojs/hono/tags?per_page=30");
+    expect(source.items.map(item => item.link)).toEqual([
+      "https://github.com/honojs/hono/releases/tag/v2.0.0-rc.1",
+      "https://github.com/honojs/hono/releases/tag/release%2F1.9",
+    ]);
+    expect(source.items[0]!.guid).toBe("9f2c4e1b7a3d5c6e8f0a1b2c3d4e5f6a7b8c9d0e");
+  });
+
+  test("skips entries that don't have the fields a release or tag needs", () => {
+    const url = "https://api.github.com/repos/a/b/releases";
+    const body = JSON.stringify([null, "v1", { tag_name: 2 }, { tag_name: "v1.0.0", html_url: "https://github.com/a/b/releases/tag/v1.0.0", author: "x" }]);
+    const items = parseSource("github", body, url).items;
+    expect(items.map(item => item.title)).toEqual(["a/b v1.0.0"]);
+    expect(items[0]!.author).toBeUndefined();
+    expect(parseSource("github", JSON.stringify([{ name: 1 }, { name: "v2" }]), "https://api.github.com/repos/a/b/tags").items).toHaveLength(1);
+  });
+
+  test("surfaces API errors", async () => {
+    expect(() => parseSource("github", "{\"message\": \"Not Found\"}", "https://api.github.com/repos/a/b/releases")).toThrow("Not Found");
+    expect(() => parseSource("github", "[]", "https://example.com/feed")).toThrow(FeedParseError);
+    expect(() => parseSource("github", "<html>", "https://api.github.com/repos/a/b/releases")).toThrow("Invalid JSON");
+    const rateLimited = await fixture("github-error.json");
+    expect(() => parseSource("github", rateLimited, "https://api.github.com/repos/a/b/releases")).toThrow("API rate limit exceeded");
+  });
+});
+
+describe("youtube", () => {
+  test("builds the channel feed URL from an ID or channel link", () => {
+    const expected = "https://www.youtube.com/feeds/videos.xml?channel_id=UCsBjURrPoezykLs9EqgamOA";
+    expect(buildSourceUrl("youtube", "UCsBjURrPoezykLs9EqgamOA").url).toBe(expected);
+    expect(buildSourceUrl("youtube", "https://www.youtube.com/channel/UCsBjURrPoezykLs9EqgamOA").url).toBe(expected);
+    expect(() => buildSourceUrl("youtube", "@fireship")).toThrow(SourceConfigError);
+  });
+
+  test("parses videos with their description and thumbnail", async () => {
+    const source = parseSource("youtube", await fixture("youtube.xml"), "https://www.youtube.com/feeds/videos.xml?channel_id=UCsBjURrPoezykLs9EqgamOA");
+    expect(source.title).toBe("Fireship");
+    const [video, short] = source.items;
+    expect(video).toMatchObject({
+      title: "Bun 1.2 in 100 Seconds & more",
+      link: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      description: "A quick look at what's new in Bun 1.2.",
+      author: "Fireship",
+      guid: "dQw4w9WgXcQ",
+      enclosure: { url: "https://i3.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg", type: "image/jpeg" },
+    });
+    // No <link>: built from the video ID
+    expect(short!.link).toBe("https://www.youtube.com/watch?v=abcdefghijk");
+    expect(short!.enclosure).toBeUndefined();
+  });
+
+  test("rejects responses that aren't a channel feed", () => {
+    expect(() => parseSource("youtube", "<html><body>consent</body></html>", "x")).toThrow("Expected <feed>");
+  });
+});
+
+describe("arxiv", () => {
+  test("turns categories, field queries and plain words into search queries", () => {
+    const query = (target: string) => new URL(buildSourceUrl("arxiv", target).url).searchParams.get("search_query");
+    expect(query("cs.AI")).toBe("cat:cs.AI");
+    expect(query("quant-ph")).toBe("cat:quant-ph");
+    expect(query("au:hinton")).toBe("au:hinton");
+    expect(query("diffusion models")).toBe("all:diffusion AND all:models");
+    expect(() => buildSourceUrl("arxiv", "  ")).toThrow(SourceConfigError);
+  });
+
+  test("parses entries with folded whitespace, https links and short author lists", async () => {
+    const [survey, note] = parseSource("arxiv", await fixture("arxiv.xml"), "https://export.arxiv.org/api/query").items;
+    expect(survey).toMatchObject({
+      title: "Planning with Language Models: A Survey",
+      link: "https://arxiv.org/abs/2603.01234v1",
+      description: "We survey planning with large language models.",
+      author: "Ada Lovelace, Alan Turing, Grace Hopper et al.",
+      categories: ["cs.AI", "cs.CL"],
+    });
+    expect(survey!.pubDate?.toISOString()).toBe("2026-03-10T17:59:59.000Z");
+    // No alternate link: the entry ID is the abstract page
+    expect(note!.link).toBe("https://arxiv.org/abs/2603.00042v2");
+    expect(note!.author).toBe("Barbara Liskov, Donald Knuth");
+  });
+});
+
+describe("hn", () => {
+  test("builds an Algolia search with a points threshold", () => {
+    const { url, name } = buildSourceUrl("hn", "sqlite", { minPoints: 50 });
+    const params = new URL(url).searchParams;
+    expect(params.get("query")).toBe("sqlite");
+    expect(params.get("numericFilters")).toBe("points>=50");
+    expect(name).toBe("HN: sqlite (50+ points)");
+    expect(buildSourceUrl("hn", "").name).toBe("HN: all stories (100+ points)");
+    expect(() => buildSourceUrl("hn", "x", { minPoints: -1 })).toThrow(SourceConfigError);
+  });
+
+  test("parses stories, linking text posts to their discussion", async () => {
+    const source = parseSource("hn", await fixture("hn.json"), "https://hn.algolia.com/api/v1/search_by_date");
+    // Hits without a title (deleted stories) are dropped
+    expect(source.items).toHaveLength(2);
+    const [story, ask] = source.items;
+    expect(story).toMatchObject({
+      title: "SQLite is faster than you think",
+      link: "https://sqlite.example.org/faster.html",
+      description: "845 points · 312 comments on Hacker News",
+      author: "pg",
+      guid: "43210001",
+    });
+    expect(story!.pubDate?.toISOString()).toBe("2026-03-10T15:04:05.000Z");
+    expect(ask!.link).toBe("https://news.ycombinator.com/item?id=43210002");
+    expect(ask!.pubDate?.toISOString()).toBe("2026-03-09T08:00:00.000Z");
+  });
+
+  test("ignores malformed hits", () => {
+    const body = JSON.stringify({ hits: [{ objectID: 1, title: "numeric id" }, { objectID: "7", title: "ok", points: "many", created_at_i: "soon" }] });
+    const [hit, ...rest] = parseSource("hn", body, "x").items;
+    expect(rest).toEqual([]);
+    expect(hit).toMatchObject({ title: "ok", description: "? points · ? comments on Hacker News", guid: "7" });
+    expect(hit!.pubDate).toBeUndefined();
+  });
+
+  test("rejects responses without hits", () => {
+    expect(() => parseSource("hn", "{\"message\": \"Invalid filters\"}", "x")).toThrow("missing hits");
+  });
+});
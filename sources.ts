@@ -0,0 +1,401 @@
+/**
+ * Idea Tinder - Non-RSS Sources
+ *
+ * Adapters for sources that don't publish a usable feed: GitHub releases and
+ * tags, YouTube channels, arXiv queries and Hacker News (Algolia) searches.
+ * Each adapter turns a user-facing target ("oven-sh/bun", "cs.AI") into the
+ * URL stored in user_feeds.url, and parses that URL's response into the same
+ * RSSItem shape the feed parser produces. Parsers are pure, so they can be
+ * run against saved responses.
+ */
+
+import { parseFeed, parseXml, htmlToText, isObject, stringOf, FeedParseError, type RSSItem, type XmlNode } from "./feed-parser";
+
+export const SOURCE_TYPES = ["rss", "github", "youtube", "arxiv", "hn"] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export const DEFAULT_HN_MIN_POINTS = 100;
+const GITHUB_PAGE_SIZE = 30;
+const ARXIV_MAX_RESULTS = 50;
+const HN_PAGE_SIZE = 50;
+
+export class SourceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourceConfigError";
+  }
+}
+
+export interface SourceOptions {
+  githubMode?: "releases" | "tags";
+  minPoints?: number;
+}
+
+export interface ParsedSource {
+  title: string;
+  items: RSSItem[];
+}
+
+interface SourceAdapter {
+  label: string;
+  accept: string;
+  // Every URL build() makes starts with this
+  urlPrefix: string;
+  // Turn the user's input into the URL to fetch, plus a fallback name
+  build(target: string, options: SourceOptions): { url: string; name: string };
+  parse(body: string, url: string): ParsedSource;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new FeedParseError(`Invalid JSON: ${(e as Error).message}`);
+  }
+}
+
+function xmlRoot(body: string, expected: string): XmlNode {
+  const root = parseXml(body.replace(/^\uFEFF/, "").trim()).children[0];
+  if (!root || root.name !== expected) {
+    throw new FeedParseError(`Expected <${expected}>, got ${root ? `<${root.name}>` : "no XML"}`);
+  }
+  return root;
+}
+
+function childNode(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return node?.children.find(c => c.name === name);
+}
+
+function childValue(node: XmlNode | undefined, name: string): string {
+  return childNode(node, name)?.text.trim() ?? "";
+}
+
+function parseDate(value: string | undefined | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Good enough to turn release notes into a card summary
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|[-*+]|\d+\.|>)\s+/gm, "")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// =============================================================================
+// GITHUB RELEASES / TAGS
+// =============================================================================
+function parseGithubRepo(target: string): string {
+  const match = target.trim()
+    .replace(/^https?:\/\/(www\.)?github\.com\//i, "")
+    .replace(/\.git$/, "")
+    .match(/^([\w.-]+)\/([\w.-]+)/);
+  if (!match) throw new SourceConfigError("GitHub sources need a repository like owner/repo");
+  return `${match[1]}/${match[2]}`;
+}
+
+// Only the fields we read; API payloads are unknown until checked
+interface GithubTag {
+  name: string;
+  commit?: unknown;
+}
+
+interface GithubRelease {
+  id?: unknown;
+  name?: unknown;
+  tag_name: string;
+  html_url: string;
+  body?: unknown;
+  draft?: unknown;
+  prerelease?: unknown;
+  author?: unknown;
+  published_at?: unknown;
+  created_at?: unknown;
+}
+
+function isGithubTag(value: unknown): value is GithubTag {
+  return isObject(value) && typeof value.name === "string";
+}
+
+function isGithubRelease(value: unknown): value is GithubRelease {
+  return isObject(value) && typeof value.tag_name === "string" && typeof value.html_url === "string";
+}
+
+const github: SourceAdapter = {
+  label: "GitHub releases",
+  accept: "application/vnd.github+json",
+  urlPrefix: "https://api.github.com/repos/",
+  build(target, options) {
+    const repo = parseGithubRepo(target);
+    const mode = options.githubMode === "tags" ? "tags" : "releases";
+    return {
+      url: `https://api.github.com/repos/${repo}/${mode}?per_page=${GITHUB_PAGE_SIZE}`,
+      name: `${repo} ${mode}`,
+    };
+  },
+  parse(body, url) {
+    const match = new URL(url).pathname.match(/^\/repos\/([^/]+\/[^/]+)\/(releases|tags)/);
+    if (!match) throw new FeedParseError("Not a GitHub releases or tags URL");
+    const [, repo, mode] = match;
+    const doc = parseJson(body);
+    if (!Array.isArray(doc)) {
+      throw new FeedParseError((isObject(doc) && stringOf(doc.message)) || "Unexpected GitHub API response");
+    }
+
+    const items: RSSItem[] = mode === "tags"
+      ? doc.filter(isGithubTag).map((tag): RSSItem => ({
+          title: `${repo} ${tag.name}`,
+          link: `https://github.com/${repo}/releases/tag/${encodeURIComponent(tag.name)}`,
+          description: `New tag ${tag.name} in ${repo}.`,
+          guid: isObject(tag.commit) ? stringOf(tag.commit.sha) : undefined,
+          categories: [],
+        }))
+      : doc.filter(isGithubRelease).filter(release => !release.draft).map((release): RSSItem => {
+          const name = stringOf(release.name) || release.tag_name;
+          return {
+            title: `${repo} ${name}${release.prerelease ? " (pre-release)" : ""}`,
+            link: release.html_url,
+            description: markdownToText(stringOf(release.body) || "") || `${repo} ${release.tag_name} was released.`,
+            author: isObject(release.author) ? stringOf(release.author.login) : undefined,
+            guid: release.id !== undefined && release.id !== null ? String(release.id) : undefined,
+            categories: [],
+            pubDate: parseDate(stringOf(release.published_at) || stringOf(release.created_at)),
+          };
+        });
+    return { title: `${repo} ${mode}`, items };
+  },
+};
+
+// =============================================================================
+// YOUTUBE CHANNELS
+// =============================================================================
+const youtube: SourceAdapter = {
+  label: "YouTube channel",
+  accept: "application/atom+xml, application/xml;q=0.9",
+  urlPrefix: "https://www.youtube.com/feeds/videos.xml?",
+  build(target) {
+    const trimmed = target.trim();
+    const match = trimmed.match(/(?:youtube\.com\/channel\/|channel_id=|^)(UC[\w-]{22})\b/);
+    if (!match) {
+      throw new SourceConfigError("YouTube sources need a channel ID (starts with UC, found under the channel's About > Share)");
+    }
+    return {
+      url: `https://www.youtube.com/feeds/videos.xml?channel_id=${match[1]}`,
+      name: `YouTube ${match[1]}`,
+    };
+  },
+  parse(body) {
+    const root = xmlRoot(body, "feed");
+    const items = root.children.filter(c => c.name === "entry").map((entry): RSSItem => {
+      const media = childNode(entry, "media:group");
+      const link = entry.children.find(c => c.name === "link" && (c.attrs.rel ?? "alternate") === "alternate");
+      const videoId = childValue(entry, "yt:videoid");
+      return {
+        title: htmlToText(childValue(entry, "title")),
+        link: link?.attrs.href || (videoId ? `https://www.youtube.com/watch?v=${videoId}` : ""),
+        description: childValue(media, "media:description"),
+        author: childValue(childNode(entry, "author"), "name") || undefined,
+        guid: videoId || childValue(entry, "id") || undefined,
+        categories: [],
+        enclosure: childNode(media, "media:thumbnail")?.attrs.url
+          ? { url: childNode(media, "media:thumbnail")!.attrs.url!, type: "image/jpeg" }
+          : undefined,
+        pubDate: parseDate(childValue(entry, "published")),
+      };
+    });
+    return { title: htmlToText(childValue(root, "title")), items };
+  },
+};
+
+// =============================================================================
+// ARXIV QUERIES
+// =============================================================================
+
+// Archives that are categories on their own, without a ".XX" subject
+const ARXIV_BARE_ARCHIVES = /^(astro-ph|cond-mat|gr-qc|hep-ex|hep-lat|hep-ph|hep-th|math-ph|nlin|nucl-ex|nucl-th|physics|quant-ph)$/;
+
+// "cs.AI" is a category; anything with a field prefix passes through as-is
+function arxivSearchQuery(target: string): string {
+  const trimmed = target.trim();
+  if (!trimmed) throw new SourceConfigError("arXiv sources need a category (cs.AI) or a search query");
+  if (/^[a-z-]+\.[A-Za-z-]+$/.test(trimmed) || ARXIV_BARE_ARCHIVES.test(trimmed)) return `cat:${trimmed}`;
+  if (/\b(ti|au|abs|co|jr|cat|rn|id|all):/.test(trimmed)) return trimmed;
+  return trimmed.split(/\s+/).map(term => `all:${term}`).join(" AND ");
+}
+
+const arxiv: SourceAdapter = {
+  label: "arXiv query",
+  accept: "application/atom+xml, application/xml;q=0.9",
+  urlPrefix: "https://export.arxiv.org/api/query?",
+  build(target) {
+    const query = arxivSearchQuery(target);
+    const params = new URLSearchParams({
+      search_query: query,
+      sortBy: "submittedDate",
+      sortOrder: "descending",
+      max_results: String(ARXIV_MAX_RESULTS),
+    });
+    return { url: `https://export.arxiv.org/api/query?${params}`, name: `arXiv: ${target.trim()}` };
+  },
+  parse(body) {
+    const root = xmlRoot(body, "feed");
+    const items = root.children.filter(c => c.name === "entry").map((entry): RSSItem => {
+      const authors = entry.children
+        .filter(c => c.name === "author")
+        .map(author => childValue(author, "name"))
+        .filter(Boolean);
+      const abs = entry.children.find(c => c.name === "link" && c.attrs.rel === "alternate")?.attrs.href;
+      return {
+        title: childValue(entry, "title").replace(/\s+/g, " "),
+        link: (abs || childValue(entry, "id")).replace(/^http:/, "https:"),
+        description: childValue(entry, "summary").replace(/\s+/g, " "),
+        author: authors.length > 3 ? `${authors.slice(0, 3).join(", ")} et al.` : authors.join(", ") || undefined,
+        guid: childValue(entry, "id") || undefined,
+        categories: entry.children.filter(c => c.name === "category").map(c => c.attrs.term ?? "").filter(Boolean),
+        pubDate: parseDate(childValue(entry, "published")),
+      };
+    });
+    return { title: "", items };
+  },
+};
+
+// =============================================================================
+// HACKER NEWS (ALGOLIA)
+// =============================================================================
+interface AlgoliaHit {
+  objectID: string;
+  title: string;
+  url?: unknown;
+  points?: unknown;
+  num_comments?: unknown;
+  author?: unknown;
+  created_at?: unknown;
+  created_at_i?: unknown;
+}
+
+function isAlgoliaHit(value: unknown): value is AlgoliaHit {
+  return isObject(value) && typeof value.objectID === "string" && typeof value.title === "string" && value.title !== "";
+}
+
+function numberOf(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+const hn: SourceAdapter = {
+  label: "Hacker News search",
+  accept: "application/json",
+  urlPrefix: "https://hn.algolia.com/api/v1/search",
+  build(target, options) {
+    const minPoints = options.minPoints ?? DEFAULT_HN_MIN_POINTS;
+    if (!Number.isInteger(minPoints) || minPoints < 0) {
+      throw new SourceConfigError("Minimum points must be a whole number");
+    }
+    const query = target.trim();
+    const params = new URLSearchParams({
+      query,
+      tags: "story",
+      numericFilters: `points>=${minPoints}`,
+      hitsPerPage: String(HN_PAGE_SIZE),
+    });
+    return {
+      url: `https://hn.algolia.com/api/v1/search_by_date?${params}`,
+      name: `HN: ${query || "all stories"} (${minPoints}+ points)`,
+    };
+  },
+  parse(body) {
+    const doc = parseJson(body);
+    if (!isObject(doc) || !Array.isArray(doc.hits)) throw new FeedParseError("Unexpected Algolia response (missing hits)");
+    // Hits without a title are deleted stories
+    const items = doc.hits.filter(isAlgoliaHit).map((hit): RSSItem => {
+      const createdAt = numberOf(hit.created_at_i);
+      return {
+        title: hit.title,
+        link: stringOf(hit.url) || `https://news.ycombinator.com/item?id=${hit.objectID}`,
+        description: `${numberOf(hit.points) ?? "?"} points · ${numberOf(hit.num_comments) ?? "?"} comments on Hacker News`,
+        author: stringOf(hit.author),
+        guid: hit.objectID,
+        categories: [],
+        pubDate: createdAt ? new Date(createdAt * 1000) : parseDate(stringOf(hit.created_at)),
+      };
+    });
+    return { title: "", items };
+  },
+};
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+const ADAPTERS: Record<Exclude<SourceType, "rss">, SourceAdapter> = { github, youtube, arxiv, hn };
+
+export function isSourceType(type: unknown): type is SourceType {
+  return typeof type === "string" && (SOURCE_TYPES as readonly string[]).includes(type);
+}
+
+export function sourceLabel(type: SourceType): string {
+  return type === "rss" ? "RSS feed" : ADAPTERS[type].label;
+}
+
+/**
+ * The URL to store and fetch for a non-RSS source, plus a default name.
+ * Throws SourceConfigError when the target doesn't fit the type.
+ */
+export function buildSourceUrl(type: Exclude<SourceType, "rss">, target: string, options: SourceOptions = {}): { url: string; name: string } {
+  return ADAPTERS[type].build(target, options);
+}
+
+// Whether a stored URL could have come from this source type, e.g. on OPML import
+export function isSourceUrl(type: SourceType, url: string): boolean {
+  if (type === "rss") return /^https?:\/\//i.test(url);
+  return url.startsWith(ADAPTERS[type].urlPrefix);
+}
+
+// Request headers for fetching a source; GITHUB_TOKEN lifts GitHub's 60 requests/hour limit
+export function sourceRequestHeaders(type: SourceType): Record<string, string> {
+  if (type === "rss") {
+    return { "Accept": "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8" };
+  }
+  const headers: Record<string, string> = { "Accept": ADAPTERS[type].accept };
+  if (type === "github" && process.env.GITHUB_TOKEN) headers["Authorization"] = `Bearer ${process.env.GITHUB_TOKEN}`;
+  return headers;
+}
+
+// Parse a fetched response for any source type; throws FeedParseError
+export function parseSource(type: SourceType, body: string, url: string): ParsedSource {
+  if (type === "rss") {
+    const feed = parseFeed(body, url);
+    return { title: feed.title, items: feed.items };
+  }
+  return ADAPTERS[type].parse(body, url);
+}
+
+/**
+ * Fetch a non-RSS source once to make sure it works before subscribing.
+ * Throws SourceConfigError with a user-facing message when it doesn't.
+ */
+export async function checkSource(type: SourceType, url: string): Promise<ParsedSource> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": "IdeaTinder/1.0 (news aggregator)", ...sourceRequestHeaders(type) },
+      signal: AbortSignal.timeout(10000),
+    });
+  } catch {
+    throw new SourceConfigError(`Could not reach ${new URL(url).host}`);
+  }
+  if (response.status === 404) throw new SourceConfigError(`${sourceLabel(type)} not found`);
+  if (!response.ok) throw new SourceConfigError(`HTTP ${response.status} from ${new URL(url).host}`);
+  try {
+    return parseSource(type, await response.text(), url);
+  } catch (error) {
+    throw new SourceConfigError(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { getSummarizer, httpSummarizer, summarizeWith, SummarizerError, textRankSummarizer } from "./summarize";
+
+const ARTICLE = {
+  title: "SQLite write-ahead logging",
+  text: [
+    "SQLite's write-ahead log lets readers keep going while a single writer appends changes to a separate file.",
+    "Checkpoints later copy those changes back into the main database file, usually without blocking readers.",
+    "The default checkpoint threshold is a thousand pages, which suits most desktop and server workloads well.",
+    "Applications with bursty writes sometimes raise the threshold so checkpoints happen less often overall.",
+    "Long-running readers can stop a checkpoint from finishing, which lets the log file keep growing for a while.",
+    "Monitoring the size of the log file is therefore a cheap way to spot stuck readers in production systems.",
+  ].join(" "),
+};
+
+// A stub OpenAI-compatible endpoint; each test sets what it answers
+let reply: () => Response = () => new Response("unset", { status: 500 });
+const requests: { path: string; auth: string | null; body: { model: string; messages: { role: string; content: string }[] } }[] = [];
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push({ path: new URL(req.url).pathname, auth: req.headers.get("authorization"), body: await req.json() as typeof requests[number]["body"] });
+      return reply();
+    },
+  });
+  baseUrl = `http://localhost:${server.port}/v1/`;
+});
+
+afterAll(() => server.stop(true));
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+const completion = (content: string | null) => Response.json({ choices: [{ message: { role: "assistant", content } }] });
+
+describe("httpSummarizer", () => {
+  test("posts the article to /chat/completions and returns the completion", async () => {
+    reply = () => completion("  WAL lets readers and a writer work at once.\n\nWatch for stuck readers.  ");
+    const summarizer = httpSummarizer({ url: baseUrl, model: "stub-model", apiKey: "sk-test" });
+
+    expect(summarizer.name).toBe("openai:stub-model");
+    expect(await summarizer.summarize(ARTICLE)).toBe("WAL lets readers and a writer work at once. Watch for stuck readers.");
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.path).toBe("/v1/chat/completions");
+    expect(requests[0]!.auth).toBe("Bearer sk-test");
+    expect(requests[0]!.body.model).toBe("stub-model");
+    expect(requests[0]!.body.messages[1]!.content).toStartWith(`Title: ${ARTICLE.title}\n\n`);
+  });
+
+  test("truncates long completions", async () => {
+    reply = () => completion("word ".repeat(200));
+    const summary = await httpSummarizer({ url: baseUrl, model: "m" }).summarize(ARTICLE);
+    expect(summary!.length).toBe(400);
+    expect(summary).toEndWith("...");
+    expect(requests[0]!.auth).toBeNull();
+  });
+
+  test("throws on a non-200 response", async () => {
+    reply = () => new Response("overloaded", { status: 503 });
+    await expect(httpSummarizer({ url: baseUrl, model: "m" }).summarize(ARTICLE)).rejects.toThrow("HTTP 503");
+  });
+
+  test("throws on an empty completion", async () => {
+    reply = () => completion("   ");
+    await expect(httpSummarizer({ url: baseUrl, model: "m" }).summarize(ARTICLE)).rejects.toThrow(SummarizerError);
+    reply = () => Response.json({ choices: [] });
+    await expect(httpSummarizer({ url: baseUrl, model: "m" }).summarize(ARTICLE)).rejects.toThrow("Empty completion");
+  });
+
+  test("throws when the endpoint can't be reached", async () => {
+    await expect(httpSummarizer({ url: "http://127.0.0.1:9", model: "m" }).summarize(ARTICLE)).rejects.toThrow("Could not reach");
+  });
+});
+
+describe("summarizeWith", () => {
+  test("uses the configured backend when it works", async () => {
+    reply = () => completion("A short summary.");
+    expect(await summarizeWith(httpSummarizer({ url: baseUrl, model: "m" }), ARTICLE))
+      .toEqual({ summary: "A short summary.", backend: "openai:m" });
+  });
+
+  test("falls back to TextRank when the backend fails", async () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    try {
+      for (const failure of [() => new Response("nope", { status: 500 }), () => completion("")]) {
+        reply = failure;
+        const result = await summarizeWith(httpSummarizer({ url: baseUrl, model: "m" }), ARTICLE);
+        expect(result?.backend).toBe("textrank");
+        expect(result?.summary).toBe((await textRankSummarizer.summarize(ARTICLE))!);
+      }
+      expect(log).toHaveBeenCalledTimes(2);
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  test("skips text too short to summarize without calling the backend", async () => {
+    reply = () => completion("unused");
+    expect(await summarizeWith(httpSummarizer({ url: baseUrl, model: "m" }), { title: "t", text: "Too short." })).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("getSummarizer", () => {
+  test("picks the backend from the environment", () => {
+    expect(getSummarizer({})).toBe(textRankSummarizer);
+    expect(getSummarizer({ SUMMARIZER: "none" })).toBeNull();
+    expect(getSummarizer({ SUMMARIZER: "openai", SUMMARIZER_MODEL: "llama3.2" })?.name).toBe("openai:llama3.2");
+  });
+});
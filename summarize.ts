@@ -0,0 +1,221 @@
+/**
+ * Idea Tinder - Summarization
+ *
+ * Turns an idea's article text into a short card summary. Backends share one
+ * interface so ingestion doesn't care which is configured:
+ *
+ *   textrank  Extractive, offline, no setup (default)
+ *   openai    Any OpenAI-compatible /chat/completions endpoint: OpenAI, a
+ *             local llama.cpp/Ollama server, or a stub in tests
+ *   none      Summarization off
+ *
+ * Configured with SUMMARIZER, SUMMARIZER_URL, SUMMARIZER_MODEL and
+ * SUMMARIZER_API_KEY.
+ */
+
+export interface SummaryInput {
+  title: string;
+  text: string;
+}
+
+export interface Summarizer {
+  name: string;
+  summarize(input: SummaryInput): Promise<string | null>;
+}
+
+const SUMMARY_SENTENCES = 3;
+const SUMMARY_MAX_CHARS = 400;
+const MIN_SOURCE_CHARS = 400;      // below this the original description is as good
+const MAX_SOURCE_CHARS = 12000;    // keep prompts (and TextRank's n^2 graph) bounded
+const HTTP_TIMEOUT_MS = 30000;
+
+// =============================================================================
+// TEXTRANK (extractive, offline)
+// =============================================================================
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "for", "with", "at", "by", "from",
+  "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "these", "those", "as",
+  "we", "our", "you", "your", "i", "they", "their", "he", "she", "his", "her", "not", "can", "will",
+  "has", "have", "had", "do", "does", "did", "so", "if", "than", "then", "there", "which", "who",
+  "what", "when", "how", "also", "more", "about", "into", "just", "all", "some", "any",
+]);
+
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+(?=["'“(\[]?[A-Z0-9])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 40 && sentence.length <= 500);
+}
+
+function sentenceWords(sentence: string): Set<string> {
+  return new Set(
+    sentence.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOPWORDS.has(word))
+  );
+}
+
+// Similarity from the original TextRank paper: shared words over log lengths
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < 2 || b.size < 2) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (Math.log(a.size) + Math.log(b.size));
+}
+
+/**
+ * Rank sentences with PageRank over a word-overlap graph and return the top
+ * few in their original order. Words from the title get a small boost so the
+ * summary stays on topic.
+ */
+export function textRank(text: string, title = "", count = SUMMARY_SENTENCES): string[] {
+  const sentences = splitSentences(text);
+  if (sentences.length <= count) return sentences;
+
+  const words = sentences.map(sentenceWords);
+  const titleWords = sentenceWords(title);
+  const n = sentences.length;
+  const weights = words.map(a => words.map(b => (a === b ? 0 : similarity(a, b))));
+  const outSums = weights.map(row => row.reduce((sum, w) => sum + w, 0));
+
+  const damping = 0.85;
+  let scores: number[] = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < 30; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j]![i]! > 0) rank += (weights[j]![i]! / outSums[j]!) * scores[j]!;
+      }
+      return (1 - damping) / n + damping * rank;
+    });
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]!), 0);
+    scores = next;
+    if (delta < 1e-6) break;
+  }
+
+  return scores
+    .map((score, i) => {
+      let titleOverlap = 0;
+      for (const word of words[i]!) if (titleWords.has(word)) titleOverlap++;
+      // Lead sentences tend to state the point; nudge them up a little
+      return { i, score: score * (1 + 0.1 * titleOverlap) * (i < 3 ? 1.1 : 1) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .sort((a, b) => a.i - b.i)
+    .map(({ i }) => sentences[i]!);
+}
+
+function fitSummary(sentences: string[]): string | null {
+  let summary = "";
+  for (const sentence of sentences) {
+    if (summary && summary.length + sentence.length + 1 > SUMMARY_MAX_CHARS) break;
+    summary = summary ? `${summary} ${sentence}` : sentence;
+  }
+  if (!summary) return null;
+  return summary.length > SUMMARY_MAX_CHARS ? summary.substring(0, SUMMARY_MAX_CHARS - 3) + "..." : summary;
+}
+
+export const textRankSummarizer: Summarizer = {
+  name: "textrank",
+  async summarize({ title, text }) {
+    return fitSummary(textRank(text.substring(0, MAX_SOURCE_CHARS), title));
+  },
+};
+
+// =============================================================================
+// OPENAI-COMPATIBLE HTTP
+// =============================================================================
+export class SummarizerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SummarizerError";
+  }
+}
+
+export function httpSummarizer(options: { url: string; model: string; apiKey?: string }): Summarizer {
+  const endpoint = options.url.replace(/\/+$/, "") + "/chat/completions";
+  return {
+    name: `openai:${options.model}`,
+    async summarize({ title, text }) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.apiKey ? { "Authorization": `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0.2,
+            max_tokens: 200,
+            messages: [
+              {
+                role: "system",
+                content: "Summarize the article for a busy developer deciding whether to read it. " +
+                  `Two or three plain sentences, under ${SUMMARY_MAX_CHARS} characters. No preamble, no markdown.`,
+              },
+              { role: "user", content: `Title: ${title}\n\n${text.substring(0, MAX_SOURCE_CHARS)}` },
+            ],
+          }),
+          signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new SummarizerError(`Could not reach ${endpoint}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!response.ok) {
+        throw new SummarizerError(`HTTP ${response.status} from ${endpoint}`);
+      }
+      const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+      const content = data.choices?.[0]?.message?.content?.replace(/\s+/g, " ").trim();
+      if (!content) throw new SummarizerError("Empty completion");
+      return content.length > SUMMARY_MAX_CHARS ? content.substring(0, SUMMARY_MAX_CHARS - 3) + "..." : content;
+    },
+  };
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * The configured summarizer, or null when summarization is off. An HTTP
+ * backend without SUMMARIZER_URL falls back to api.openai.com.
+ */
+export function getSummarizer(env: Record<string, string | undefined> = process.env): Summarizer | null {
+  switch ((env.SUMMARIZER || "textrank").toLowerCase()) {
+    case "none":
+    case "off":
+      return null;
+    case "openai":
+    case "http":
+      return httpSummarizer({
+        url: env.SUMMARIZER_URL || "https://api.openai.com/v1",
+        model: env.SUMMARIZER_MODEL || "gpt-4o-mini",
+        apiKey: env.SUMMARIZER_API_KEY,
+      });
+    default:
+      return textRankSummarizer;
+  }
+}
+
+/**
+ * Summarize with the given backend, falling back to TextRank if it fails, so
+ * a flaky model server doesn't leave ideas unsummarized. Returns null when
+ * the text is too short to be worth summarizing.
+ */
+export async function summarizeWith(
+  summarizer: Summarizer,
+  input: SummaryInput,
+): Promise<{ summary: string; backend: string } | null> {
+  if (input.text.length < MIN_SOURCE_CHARS) return null;
+  try {
+    const summary = await summarizer.summarize(input);
+    return summary ? { summary, backend: summarizer.name } : null;
+  } catch (error) {
+    if (summarizer === textRankSummarizer) throw error;
+    console.log(`   ⚠ ${summarizer.name} failed (${error instanceof Error ? error.message : error}); using textrank`);
+    const summary = await textRankSummarizer.summarize(input);
+    return summary ? { summary, backend: textRankSummarizer.name } : null;
+  }
+}
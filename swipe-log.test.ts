@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { getSwipeState, listActions, logSwipeAction, MAX_ACTIONS_PER_USER, redoActions, undoActions, type SwipeState } from "./swipe-log";
+
+// The tables the log reads and writes, as server.ts creates them
+const SCHEMA = `
+  CREATE TABLE ideas (id INTEGER PRIMARY KEY, title TEXT NOT NULL);
+  CREATE TABLE swipes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL, idea_id INTEGER NOT NULL, direction TEXT NOT NULL,
+    feedback TEXT, swiped_at DATETIME DEFAULT CURRENT_TIMESTAMP, UNIQUE(user_id, idea_id)
+  );
+  CREATE TABLE user_pending (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL, idea_id INTEGER NOT NULL,
+    added_at DATETIME DEFAULT CURRENT_TIMESTAMP, UNIQUE(user_id, idea_id)
+  );
+  CREATE TABLE swipe_actions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL, idea_id INTEGER NOT NULL, action TEXT NOT NULL,
+    before_direction TEXT, before_feedback TEXT, after_direction TEXT, after_feedback TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP, undone_at DATETIME
+  );
+`;
+const USER = 1;
+
+let db: Database;
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  db.exec(SCHEMA);
+  for (let id = 1; id <= 5; id++) db.query("INSERT INTO ideas (id, title) VALUES (?, ?)").run(id, `Idea ${id}`);
+});
+
+// Change a swipe the way server.ts does, logging it
+function change(ideaId: number, after: SwipeState) {
+  const before = getSwipeState(db, USER, ideaId);
+  if (after.direction === null) {
+    db.query("DELETE FROM swipes WHERE user_id = ? AND idea_id = ?").run(USER, ideaId);
+    db.query("INSERT OR IGNORE INTO user_pending (user_id, idea_id) VALUES (?, ?)").run(USER, ideaId);
+  } else {
+    db.query("DELETE FROM user_pending WHERE user_id = ? AND idea_id = ?").run(USER, ideaId);
+    db.query(`
+      INSERT INTO swipes (user_id, idea_id, direction, feedback) VALUES (?1, ?2, ?3, ?4)
+      ON CONFLICT(user_id, idea_id) DO UPDATE SET direction = ?3, feedback = ?4
+    `).run(USER, ideaId, after.direction, after.feedback);
+  }
+  logSwipeAction(db, USER, ideaId, before, after);
+}
+
+const snapshot = () => ({
+  swipes: db.query("SELECT idea_id, direction, feedback FROM swipes WHERE user_id = ? ORDER BY idea_id").all(USER),
+  pending: (db.query("SELECT idea_id FROM user_pending WHERE user_id = ? ORDER BY idea_id").all(USER) as { idea_id: number }[])
+    .map(row => row.idea_id),
+});
+
+describe("undo and redo", () => {
+  test("undoing N steps then redoing N restores every swipe and hot take", () => {
+    for (const id of [1, 2, 3, 4]) db.query("INSERT INTO user_pending (user_id, idea_id) VALUES (?, ?)").run(USER, id);
+    const start = snapshot();
+    change(1, { direction: "right", feedback: null });
+    change(2, { direction: "left", feedback: null });
+    change(1, { direction: "right", feedback: "Worth a read" });
+    change(2, { direction: "right", feedback: "Changed my mind" });
+    change(3, { direction: "left", feedback: null });
+    const end = snapshot();
+
+    const undone = undoActions(db, USER, 4);
+    expect(undone.actions.map(a => [a.ideaId, a.action, a.direction])).toEqual([
+      [3, "swipe", null],
+      [2, "swipe", "left"],
+      [1, "feedback", "right"],
+      [2, "swipe", null],
+    ]);
+    expect(undone).toMatchObject({ canUndo: 1, canRedo: 4 });
+    expect(snapshot()).toEqual({ swipes: [{ idea_id: 1, direction: "right", feedback: null }], pending: [2, 3, 4] });
+
+    undoActions(db, USER, 10);
+    expect(snapshot()).toEqual(start);
+
+    const redone = redoActions(db, USER, 5);
+    expect(redone.actions.map(a => a.ideaId)).toEqual([1, 2, 1, 2, 3]);
+    expect(redone).toMatchObject({ canUndo: 5, canRedo: 0 });
+    expect(snapshot().swipes).toEqual(end.swipes);
+  });
+
+  test("a new action clears the redo stack", () => {
+    change(1, { direction: "right", feedback: null });
+    change(2, { direction: "left", feedback: null });
+    undoActions(db, USER, 2);
+    redoActions(db, USER, 1);
+    expect(listActions(db, USER)).toMatchObject({ canUndo: 1, canRedo: 1 });
+
+    change(3, { direction: "right", feedback: null });
+    expect(listActions(db, USER)).toMatchObject({ canUndo: 2, canRedo: 0 });
+    expect(redoActions(db, USER, 5).actions).toEqual([]);
+    expect(getSwipeState(db, USER, 2)).toEqual({ direction: null, feedback: null });
+  });
+
+  test("undoing an unswipe restores the swipe and its hot take", () => {
+    change(1, { direction: "right", feedback: "Keep" });
+    change(1, { direction: null, feedback: null });
+    expect(listActions(db, USER).actions[0]!.action).toBe("unswipe");
+    expect(snapshot()).toEqual({ swipes: [], pending: [1] });
+
+    expect(undoActions(db, USER).actions).toEqual([{ ideaId: 1, action: "unswipe", direction: "right" }]);
+    expect(getSwipeState(db, USER, 1)).toEqual({ direction: "right", feedback: "Keep" });
+
+    redoActions(db, USER);
+    expect(snapshot()).toEqual({ swipes: [], pending: [1] });
+  });
+
+  test("no-op changes aren't logged", () => {
+    change(1, { direction: "left", feedback: null });
+    change(1, { direction: "left", feedback: null });
+    expect(listActions(db, USER).canUndo).toBe(1);
+  });
+});
+
+describe("log size", () => {
+  test("keeps only the newest MAX_ACTIONS_PER_USER actions per user", () => {
+    for (let i = 0; i < MAX_ACTIONS_PER_USER + 5; i++) {
+      change(1 + (i % 5), { direction: i % 2 ? "left" : "right", feedback: `take ${i}` });
+    }
+    logSwipeAction(db, 2, 1, { direction: null, feedback: null }, { direction: "right", feedback: null });
+
+    const { count, firstSwipes } = db.query(`
+      SELECT COUNT(*) as count, SUM(before_direction IS NULL) as firstSwipes FROM swipe_actions WHERE user_id = ?
+    `).get(USER) as { count: number; firstSwipes: number };
+    expect(count).toBe(MAX_ACTIONS_PER_USER);
+    // The oldest five, each idea's first swipe, are the ones dropped
+    expect(firstSwipes).toBe(0);
+    expect(listActions(db, USER, 1).actions[0]!.title).toBe(`Idea ${1 + ((MAX_ACTIONS_PER_USER + 4) % 5)}`);
+    // Other users' logs are trimmed separately
+    expect(listActions(db, 2).canUndo).toBe(1);
+
+    expect(undoActions(db, USER, 1000).actions).toHaveLength(MAX_ACTIONS_PER_USER);
+  });
+});
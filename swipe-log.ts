@@ -0,0 +1,154 @@
+/**
+ * Idea Tinder - Swipe Action Log
+ *
+ * Every change to a user's swipes (a swipe, a hot take edit, a flip from
+ * history, an unswipe) is logged with the swipe's state before and after,
+ * so it can be undone and redone any number of steps, from any device.
+ *
+ * The log is a stack per user: undo walks back from the newest action that
+ * isn't undone, redo walks forward through the undone ones. Undone actions
+ * are always the newest, so a new action discards them, as in any editor.
+ * Rows live in swipe_actions, created by server.ts.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const MAX_ACTIONS_PER_USER = 200;
+
+// A swipe as far as undo cares; direction null means not swiped (in the queue)
+export interface SwipeState {
+  direction: string | null;
+  feedback: string | null;
+}
+
+export type SwipeActionKind = "swipe" | "feedback" | "unswipe";
+
+export interface SwipeAction {
+  id: number;
+  idea_id: number;
+  title: string;
+  action: SwipeActionKind;
+  before_direction: string | null;
+  after_direction: string | null;
+  created_at: string;
+  undone_at: string | null;
+}
+
+export function getSwipeState(db: Database, userId: number, ideaId: number): SwipeState {
+  const row = db.query("SELECT direction, feedback FROM swipes WHERE user_id = ? AND idea_id = ?")
+    .get(userId, ideaId) as SwipeState | null;
+  return row ?? { direction: null, feedback: null };
+}
+
+function kindOf(before: SwipeState, after: SwipeState): SwipeActionKind {
+  if (after.direction === null) return "unswipe";
+  return before.direction === after.direction ? "feedback" : "swipe";
+}
+
+/**
+ * Log a change to one swipe. Clears the redo stack and trims the log to the
+ * newest MAX_ACTIONS_PER_USER actions. No-op changes aren't logged.
+ */
+export function logSwipeAction(db: Database, userId: number, ideaId: number, before: SwipeState, after: SwipeState) {
+  if (before.direction === after.direction && before.feedback === after.feedback) return;
+  db.transaction(() => {
+    db.query("DELETE FROM swipe_actions WHERE user_id = ? AND undone_at IS NOT NULL").run(userId);
+    db.query(`
+      INSERT INTO swipe_actions (user_id, idea_id, action, before_direction, before_feedback, after_direction, after_feedback)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(userId, ideaId, kindOf(before, after), before.direction, before.feedback, after.direction, after.feedback);
+    db.query(`
+      DELETE FROM swipe_actions WHERE user_id = ?1
+      AND id NOT IN (SELECT id FROM swipe_actions WHERE user_id = ?1 ORDER BY id DESC LIMIT ?2)
+    `).run(userId, MAX_ACTIONS_PER_USER);
+  })();
+}
+
+/**
+ * Put a swipe into a given state. Not a new decision, so the ranking model
+ * isn't updated, and the swipe time only moves if the direction changes.
+ */
+function restore(db: Database, userId: number, ideaId: number, state: SwipeState) {
+  if (state.direction === null) {
+    db.query("DELETE FROM swipes WHERE user_id = ? AND idea_id = ?").run(userId, ideaId);
+    // Back in the queue as of now, or ingestion's 7-day cleanup would purge it
+    db.query(`
+      INSERT INTO user_pending (user_id, idea_id) VALUES (?, ?)
+      ON CONFLICT(user_id, idea_id) DO UPDATE SET added_at = CURRENT_TIMESTAMP
+    `).run(userId, ideaId);
+    return;
+  }
+  db.query(`
+    INSERT INTO swipes (user_id, idea_id, direction, feedback) VALUES (?1, ?2, ?3, ?4)
+    ON CONFLICT(user_id, idea_id) DO UPDATE SET
+      swiped_at = CASE WHEN direction = ?3 THEN swiped_at ELSE CURRENT_TIMESTAMP END,
+      direction = ?3, feedback = ?4
+  `).run(userId, ideaId, state.direction, state.feedback);
+}
+
+interface ActionRow {
+  id: number;
+  idea_id: number;
+  action: SwipeActionKind;
+  before_direction: string | null;
+  before_feedback: string | null;
+  after_direction: string | null;
+  after_feedback: string | null;
+}
+
+export interface UndoRedoResult {
+  actions: { ideaId: number; action: SwipeActionKind; direction: string | null }[];  // direction after this step
+  canUndo: number;
+  canRedo: number;
+}
+
+function stackSizes(db: Database, userId: number): { canUndo: number; canRedo: number } {
+  return db.query(`
+    SELECT COALESCE(SUM(undone_at IS NULL), 0) as canUndo, COALESCE(SUM(undone_at IS NOT NULL), 0) as canRedo
+    FROM swipe_actions WHERE user_id = ?
+  `).get(userId) as { canUndo: number; canRedo: number };
+}
+
+// Undo up to `steps` actions, newest first
+export function undoActions(db: Database, userId: number, steps = 1): UndoRedoResult {
+  const rows = db.query(`
+    SELECT * FROM swipe_actions WHERE user_id = ? AND undone_at IS NULL ORDER BY id DESC LIMIT ?
+  `).all(userId, steps) as ActionRow[];
+  db.transaction(() => {
+    for (const row of rows) {
+      restore(db, userId, row.idea_id, { direction: row.before_direction, feedback: row.before_feedback });
+      db.query("UPDATE swipe_actions SET undone_at = CURRENT_TIMESTAMP WHERE id = ?").run(row.id);
+    }
+  })();
+  return {
+    actions: rows.map(row => ({ ideaId: row.idea_id, action: row.action, direction: row.before_direction })),
+    ...stackSizes(db, userId),
+  };
+}
+
+// Redo up to `steps` undone actions, oldest first
+export function redoActions(db: Database, userId: number, steps = 1): UndoRedoResult {
+  const rows = db.query(`
+    SELECT * FROM swipe_actions WHERE user_id = ? AND undone_at IS NOT NULL ORDER BY id LIMIT ?
+  `).all(userId, steps) as ActionRow[];
+  db.transaction(() => {
+    for (const row of rows) {
+      restore(db, userId, row.idea_id, { direction: row.after_direction, feedback: row.after_feedback });
+      db.query("UPDATE swipe_actions SET undone_at = NULL WHERE id = ?").run(row.id);
+    }
+  })();
+  return {
+    actions: rows.map(row => ({ ideaId: row.idea_id, action: row.action, direction: row.after_direction })),
+    ...stackSizes(db, userId),
+  };
+}
+
+// The newest actions, undone ones included, for showing what undo/redo would do
+export function listActions(db: Database, userId: number, limit = 20): { actions: SwipeAction[]; canUndo: number; canRedo: number } {
+  const actions = db.query(`
+    SELECT a.id, a.idea_id, i.title, a.action, a.before_direction, a.after_direction, a.created_at, a.undone_at
+    FROM swipe_actions a JOIN ideas i ON i.id = a.idea_id
+    WHERE a.user_id = ? ORDER BY a.id DESC LIMIT ?
+  `).all(userId, limit) as SwipeAction[];
+  return { actions, ...stackSizes(db, userId) };
+}
@@ -0,0 +1,262 @@
+/**
+ * Idea Tinder - Topic Tagging
+ *
+ * A feed's category says where an idea came from, not what it's about. Tags
+ * come from three places, per user:
+ *
+ *   rule        The user's keyword rules ("rust: rust, cargo, rustc")
+ *   classifier  Naive Bayes trained on the user's swiped ideas and the tags
+ *               they carry, for ideas the rules miss
+ *   manual      Set by hand on an idea; retagging leaves hand-tagged ideas alone
+ *
+ * Tags live in idea_tags; rules in tag_rules. Both tables are created by
+ * server.ts.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export interface TagRule {
+  tag: string;
+  keywords: string[];
+}
+
+export type TagSource = "rule" | "classifier" | "manual";
+
+const MAX_TAGS_PER_IDEA = 5;
+const CLASSIFIER_MIN_EXAMPLES = 3;     // positives a tag needs before it's learned
+const CLASSIFIER_THRESHOLD = 0.8;
+
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  { tag: "ai", keywords: ["ai", "llm", "llms", "gpt", "claude", "gemini", "machine learning", "neural", "transformer", "openai", "anthropic", "agents"] },
+  { tag: "rust", keywords: ["rust", "cargo", "rustc", "crates.io"] },
+  { tag: "python", keywords: ["python", "pip", "django", "flask", "pytorch", "numpy", "pandas"] },
+  { tag: "javascript", keywords: ["javascript", "typescript", "node.js", "nodejs", "deno", "bun", "react", "vue", "svelte", "npm"] },
+  { tag: "go", keywords: ["golang", "go 1."] },
+  { tag: "security", keywords: ["security", "vulnerability", "cve", "exploit", "malware", "breach", "ransomware", "zero-day"] },
+  { tag: "databases", keywords: ["database", "postgres", "postgresql", "sqlite", "mysql", "redis", "mongodb", "sql"] },
+  { tag: "cloud", keywords: ["aws", "azure", "gcp", "kubernetes", "k8s", "serverless", "cloudflare", "docker"] },
+  { tag: "web", keywords: ["browser", "css", "html", "chrome", "firefox", "safari", "webassembly", "wasm"] },
+  { tag: "open-source", keywords: ["open source", "open-source", "oss", "license", "maintainer"] },
+  { tag: "hardware", keywords: ["chip", "cpu", "gpu", "nvidia", "risc-v", "arm", "semiconductor"] },
+];
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, "").replace(/\s+/g, "-").replace(/[^a-z0-9+.#-]/g, "").substring(0, 40);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Keywords match whole words, case-insensitively; "go 1." still matches "Go 1.22"
+function keywordPattern(keyword: string): RegExp {
+  const lower = keyword.toLowerCase();
+  const start = /^[a-z0-9]/.test(lower) ? "(^|[^a-z0-9])" : "";
+  const end = /[a-z0-9]$/.test(lower) ? "($|[^a-z0-9])" : "";
+  return new RegExp(start + escapeRegExp(lower) + end);
+}
+
+export function matchRules(text: string, rules: TagRule[]): string[] {
+  const lower = text.toLowerCase();
+  return rules
+    .filter(rule => rule.keywords.some(keyword => keyword && keywordPattern(keyword).test(lower)))
+    .map(rule => rule.tag);
+}
+
+/**
+ * Parse the settings editor's text format, one rule per line:
+ *   rust: rust, cargo, rustc
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseTagRules(text: string): { rules: TagRule[]; errors: string[] } {
+  const rules = new Map<string, TagRule>();
+  const errors: string[] = [];
+  text.split("\n").forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const colon = trimmed.indexOf(":");
+    const tag = normalizeTag(colon === -1 ? "" : trimmed.substring(0, colon));
+    const keywords = trimmed.substring(colon + 1).split(",").map(k => k.trim().toLowerCase()).filter(Boolean);
+    if (!tag || keywords.length === 0) {
+      errors.push(`Line ${index + 1}: expected "tag: keyword, keyword"`);
+      return;
+    }
+    const existing = rules.get(tag);
+    if (existing) existing.keywords.push(...keywords.filter(k => !existing.keywords.includes(k)));
+    else rules.set(tag, { tag, keywords: [...new Set(keywords)] });
+  });
+  return { rules: [...rules.values()], errors };
+}
+
+export function formatTagRules(rules: TagRule[]): string {
+  return rules.map(rule => `${rule.tag}: ${rule.keywords.join(", ")}`).join("\n");
+}
+
+// =============================================================================
+// CLASSIFIER
+// =============================================================================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(token => token.length > 1 && token.length < 30);
+}
+
+interface TagModel {
+  prior: number;                   // log P(tag) - log P(not tag)
+  positive: Map<string, number>;   // token counts in ideas with the tag
+  negative: Map<string, number>;
+  positiveTotal: number;
+  negativeTotal: number;
+}
+
+export interface TagClassifier {
+  tags: string[];
+  predict(text: string): { tag: string; score: number }[];
+}
+
+/**
+ * One-vs-rest multinomial Naive Bayes. Tags with too few examples are left
+ * out rather than guessed at.
+ */
+export function trainTagClassifier(examples: { text: string; tags: string[] }[]): TagClassifier {
+  const documents = examples.map(example => ({ tokens: tokenize(example.text), tags: new Set(example.tags) }));
+  const vocabulary = new Set(documents.flatMap(doc => doc.tokens));
+  const counts = new Map<string, number>();
+  for (const doc of documents) for (const tag of doc.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+
+  const models = new Map<string, TagModel>();
+  for (const [tag, count] of counts) {
+    if (count < CLASSIFIER_MIN_EXAMPLES || count === documents.length) continue;
+    const model: TagModel = {
+      prior: Math.log(count) - Math.log(documents.length - count),
+      positive: new Map(),
+      negative: new Map(),
+      positiveTotal: 0,
+      negativeTotal: 0,
+    };
+    for (const doc of documents) {
+      const has = doc.tags.has(tag);
+      const bucket = has ? model.positive : model.negative;
+      for (const token of doc.tokens) bucket.set(token, (bucket.get(token) ?? 0) + 1);
+      if (has) model.positiveTotal += doc.tokens.length;
+      else model.negativeTotal += doc.tokens.length;
+    }
+    models.set(tag, model);
+  }
+
+  return {
+    tags: [...models.keys()],
+    predict(text) {
+      const tokens = tokenize(text).filter(token => vocabulary.has(token));
+      if (tokens.length === 0) return [];
+      const size = vocabulary.size;
+      const predictions: { tag: string; score: number }[] = [];
+      for (const [tag, model] of models) {
+        let logOdds = model.prior;
+        for (const token of tokens) {
+          logOdds += Math.log(((model.positive.get(token) ?? 0) + 1) / (model.positiveTotal + size))
+            - Math.log(((model.negative.get(token) ?? 0) + 1) / (model.negativeTotal + size));
+        }
+        const score = 1 / (1 + Math.exp(-logOdds));
+        if (score >= CLASSIFIER_THRESHOLD) predictions.push({ tag, score });
+      }
+      return predictions.sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+export function getTagRules(db: Database, userId: number): TagRule[] {
+  const rows = db.query("SELECT tag, keywords FROM tag_rules WHERE user_id = ? ORDER BY tag").all(userId) as
+    { tag: string; keywords: string }[];
+  return rows.map(row => ({ tag: row.tag, keywords: JSON.parse(row.keywords) as string[] }));
+}
+
+export function setTagRules(db: Database, userId: number, rules: TagRule[]) {
+  db.transaction(() => {
+    db.query("DELETE FROM tag_rules WHERE user_id = ?").run(userId);
+    const insert = db.query("INSERT INTO tag_rules (user_id, tag, keywords) VALUES (?, ?, ?)");
+    for (const rule of rules) insert.run(userId, rule.tag, JSON.stringify(rule.keywords));
+  })();
+}
+
+export function seedDefaultTagRules(db: Database, userId: number) {
+  const insert = db.query("INSERT OR IGNORE INTO tag_rules (user_id, tag, keywords) VALUES (?, ?, ?)");
+  for (const rule of DEFAULT_TAG_RULES) insert.run(userId, rule.tag, JSON.stringify(rule.keywords));
+}
+
+// Title plus whatever summary we have; full article text is too noisy for keywords
+const IDEA_TEXT_SQL = "i.title || ' ' || COALESCE(i.summary, '') || ' ' || COALESCE(i.generated_summary, '')";
+
+/**
+ * Recompute rule and classifier tags on the given ideas for one user, or on
+ * everything in their queue and history when no ids are given. The
+ * classifier is trained once per call from the user's swiped ideas, using
+ * their rule and manual tags (never its own guesses) as labels.
+ */
+export function tagIdeasForUser(db: Database, userId: number, ideaIds?: number[]): number {
+  const rules = getTagRules(db, userId);
+
+  const examples = db.query(`
+    SELECT ${IDEA_TEXT_SQL} as text,
+           (SELECT json_group_array(t.tag) FROM idea_tags t
+            WHERE t.user_id = s.user_id AND t.idea_id = i.id AND t.source != 'classifier') as tags_json
+    FROM swipes s JOIN ideas i ON i.id = s.idea_id
+    WHERE s.user_id = ?
+  `).all(userId) as { text: string; tags_json: string }[];
+  // Rules may have changed since those tags were written; relabel with today's rules
+  const classifier = trainTagClassifier(examples.map(example => ({
+    text: example.text,
+    tags: [...new Set([...(JSON.parse(example.tags_json) as string[]), ...matchRules(example.text, rules)])],
+  })));
+
+  const ideas = (ideaIds
+    ? db.query(`SELECT i.id, ${IDEA_TEXT_SQL} as text FROM ideas i WHERE i.id IN (SELECT value FROM json_each(?))`).all(JSON.stringify(ideaIds))
+    : db.query(`
+        SELECT i.id, ${IDEA_TEXT_SQL} as text FROM ideas i
+        WHERE i.id IN (SELECT idea_id FROM user_pending WHERE user_id = ? UNION SELECT idea_id FROM swipes WHERE user_id = ?)
+      `).all(userId, userId)) as { id: number; text: string }[];
+
+  const clear = db.query("DELETE FROM idea_tags WHERE user_id = ? AND idea_id = ? AND source != 'manual'");
+  const manual = db.query("SELECT 1 FROM idea_tags WHERE user_id = ? AND idea_id = ? AND source = 'manual'");
+  const insert = db.query("INSERT OR IGNORE INTO idea_tags (user_id, idea_id, tag, source, score) VALUES (?, ?, ?, ?, ?)");
+  let tagged = 0;
+
+  db.transaction(() => {
+    for (const idea of ideas) {
+      // Hand-tagged ideas keep exactly what the user picked
+      if (manual.get(userId, idea.id)) continue;
+      clear.run(userId, idea.id);
+      const tags = new Set<string>();
+      for (const tag of matchRules(idea.text, rules)) {
+        if (tags.size >= MAX_TAGS_PER_IDEA || tags.has(tag)) continue;
+        insert.run(userId, idea.id, tag, "rule", 1);
+        tags.add(tag);
+      }
+      for (const { tag, score } of classifier.predict(idea.text)) {
+        if (tags.size >= MAX_TAGS_PER_IDEA || tags.has(tag)) continue;
+        insert.run(userId, idea.id, tag, "classifier", Math.round(score * 100) / 100);
+        tags.add(tag);
+      }
+      if (tags.size > 0) tagged++;
+    }
+  })();
+  return tagged;
+}
+
+// Replace the tags on one idea with a hand-picked set
+export function setManualTags(db: Database, userId: number, ideaId: number, tags: string[]): string[] {
+  const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_TAGS_PER_IDEA * 2);
+  db.transaction(() => {
+    db.query("DELETE FROM idea_tags WHERE user_id = ? AND idea_id = ?").run(userId, ideaId);
+    const insert = db.query("INSERT INTO idea_tags (user_id, idea_id, tag, source, score) VALUES (?, ?, ?, 'manual', 1)");
+    for (const tag of normalized) insert.run(userId, ideaId, tag);
+  })();
+  return normalized;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "node:zlib";
+import { buildZip } from "./zip";
+
+// Read an archive back through its central directory, checking every CRC
+function readZip(zip: Uint8Array): Map<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const files = new Map<string, string>();
+  let central = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(central + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(central + 46, central + 46 + nameLength));
+    const local = view.getUint32(central + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = inflateRawSync(zip.subarray(start, start + view.getUint32(central + 20, true)));
+    expect(data.length).toBe(view.getUint32(central + 24, true));
+    expect(Bun.hash.crc32(data)).toBe(view.getUint32(central + 16, true));
+    files.set(name, new TextDecoder().decode(data));
+    central += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("buildZip", () => {
+  test("writes entries that read back with their names and contents", () => {
+    const zip = buildZip([
+      { name: "Ideas/Café notes.md", data: "# Café\n" },
+      { name: "Sources/Blog.md", data: new TextEncoder().encode("x".repeat(10000)) },
+    ]);
+    const files = readZip(zip);
+    expect([...files.keys()]).toEqual(["Ideas/Café notes.md", "Sources/Blog.md"]);
+    expect(files.get("Ideas/Café notes.md")).toBe("# Café\n");
+    expect(files.get("Sources/Blog.md")).toBe("x".repeat(10000));
+    // Repetitive text actually gets deflated
+    expect(zip.length).toBeLessThan(1000);
+  });
+
+  test("stores the modification time as an MS-DOS date", () => {
+    const zip = buildZip([{ name: "a.txt", data: "a" }], new Date(2026, 2, 10, 14, 30, 8));
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((14 << 11) | (30 << 5) | 4);
+    expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (3 << 5) | 10);
+  });
+
+  test("an empty archive is just the end record", () => {
+    const zip = buildZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip).size).toBe(0);
+  });
+});